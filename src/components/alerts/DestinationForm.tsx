@@ -0,0 +1,158 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CHANNEL_FIELDS, CHANNEL_LABELS, CHANNELS, type ChannelName } from "@/lib/alerts";
+
+const destinationSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name the destination"),
+    channel: z.enum(CHANNELS),
+    config: z.record(z.string()),
+  })
+  .superRefine((values, ctx) => {
+    for (const field of CHANNEL_FIELDS[values.channel]) {
+      if (!field.optional && !values.config[field.key]?.trim()) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `${field.label} is required`,
+          path: ["config", field.key],
+        });
+      }
+    }
+  });
+
+type DestinationFormValues = z.infer<typeof destinationSchema>;
+
+export interface DestinationRequest {
+  name: string;
+  channel: ChannelName;
+  config: Record<string, string>;
+}
+
+interface DestinationFormProps {
+  isSubmitting: boolean;
+  onSubmit: (destination: DestinationRequest) => void;
+}
+
+const DestinationForm = ({ isSubmitting, onSubmit }: DestinationFormProps) => {
+  const form = useForm<DestinationFormValues>({
+    resolver: zodResolver(destinationSchema),
+    defaultValues: { name: "", channel: "webhook", config: {} },
+  });
+  const channel = form.watch("channel");
+
+  // Only the selected channel's fields are kept, without empty optional ones
+  const handleSubmit = ({ name, channel, config }: DestinationFormValues) => {
+    const values: Record<string, string> = {};
+    for (const field of CHANNEL_FIELDS[channel]) {
+      const value = config[field.key]?.trim();
+      if (value) values[field.key] = value;
+    }
+
+    onSubmit({ name, channel, config: values });
+    form.reset({ name: "", channel, config: {} });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Name</FormLabel>
+                <FormControl>
+                  <Input placeholder="Trading desk" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="channel"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Channel</FormLabel>
+                <Select
+                  value={field.value}
+                  onValueChange={(value) => {
+                    field.onChange(value);
+                    form.setValue("config", {});
+                  }}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {CHANNELS.map((item) => (
+                      <SelectItem key={item} value={item}>
+                        {CHANNEL_LABELS[item]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {CHANNEL_FIELDS[channel].map((item) => (
+          <FormField
+            key={`${channel}.${item.key}`}
+            control={form.control}
+            name={`config.${item.key}`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>
+                  {item.label}
+                  {item.optional && <span className="font-normal text-muted-foreground"> (optional)</span>}
+                </FormLabel>
+                <FormControl>
+                  <Input
+                    type={item.secret ? "password" : "text"}
+                    autoComplete="off"
+                    placeholder={item.placeholder}
+                    {...field}
+                    value={field.value ?? ""}
+                  />
+                </FormControl>
+                {item.description && <FormDescription>{item.description}</FormDescription>}
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? "Adding..." : "Add destination"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default DestinationForm;
@@ -0,0 +1,226 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { AlertDestination } from "@/lib/alerts";
+import { SESSION_LABELS, SESSION_NAMES, type SessionName, type WatchlistAsset } from "@/lib/market";
+import { STRATEGY_NAMES } from "@/lib/strategy-config";
+
+// Select items cannot have an empty value
+const ANY = "any";
+
+const ruleSchema = z.object({
+  name: z.string().trim().min(1, "Name the rule"),
+  destination_id: z.string().min(1, "Pick a destination"),
+  asset: z.string(),
+  strategy: z.string(),
+  min_confidence: z.coerce.number().min(0).max(100),
+  sessions: z.array(z.enum(SESSION_NAMES)),
+});
+
+type RuleFormValues = z.infer<typeof ruleSchema>;
+
+export interface RuleRequest {
+  name: string;
+  destination_id: string;
+  asset: string | null;
+  strategy: string | null;
+  // 0 to 1
+  min_confidence: number;
+  sessions: SessionName[];
+}
+
+interface RuleFormProps {
+  assets: WatchlistAsset[];
+  destinations: AlertDestination[];
+  isSubmitting: boolean;
+  onSubmit: (rule: RuleRequest) => void;
+}
+
+const RuleForm = ({ assets, destinations, isSubmitting, onSubmit }: RuleFormProps) => {
+  const form = useForm<RuleFormValues>({
+    resolver: zodResolver(ruleSchema),
+    defaultValues: {
+      name: "",
+      destination_id: "",
+      asset: ANY,
+      strategy: ANY,
+      min_confidence: 0,
+      sessions: [],
+    },
+  });
+
+  const handleSubmit = (values: RuleFormValues) => {
+    onSubmit({
+      name: values.name,
+      destination_id: values.destination_id,
+      asset: values.asset === ANY ? null : values.asset,
+      strategy: values.strategy === ANY ? null : values.strategy,
+      min_confidence: values.min_confidence / 100,
+      sessions: values.sessions,
+    });
+    form.reset();
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Name</FormLabel>
+                <FormControl>
+                  <Input placeholder="Gold in London" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="destination_id"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Send to</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select destination" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {destinations.map((item) => (
+                      <SelectItem key={item.id} value={item.id}>
+                        {item.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="asset"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Asset</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any asset</SelectItem>
+                    {assets.map((item) => (
+                      <SelectItem key={item.asset} value={item.asset}>
+                        {item.asset}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="strategy"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Strategy</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any strategy</SelectItem>
+                    {STRATEGY_NAMES.map((strategy) => (
+                      <SelectItem key={strategy} value={strategy}>
+                        {strategy.replace(/_/g, " ")}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="min_confidence"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Min confidence (%)</FormLabel>
+                <FormControl>
+                  <Input type="number" min={0} max={100} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="sessions"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Sessions</FormLabel>
+              <div className="flex flex-wrap gap-4">
+                {SESSION_NAMES.map((session) => (
+                  <label key={session} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={field.value.includes(session)}
+                      onCheckedChange={(checked) =>
+                        field.onChange(
+                          checked === true
+                            ? [...field.value, session]
+                            : field.value.filter((item) => item !== session)
+                        )
+                      }
+                    />
+                    {SESSION_LABELS[session]}
+                  </label>
+                ))}
+              </div>
+              <FormDescription>None ticked alerts at any time of day.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" disabled={isSubmitting || destinations.length === 0}>
+          {isSubmitting ? "Adding..." : "Add rule"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default RuleForm;
@@ -0,0 +1,44 @@
+import { useEffect, useRef, useState, type ReactNode } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { AuthContext } from "@/hooks/use-auth";
+
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+const AuthProvider = ({ children }: AuthProviderProps) => {
+  const queryClient = useQueryClient();
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+  const userId = useRef<string | null>(null);
+
+  useEffect(() => {
+    // The first event carries the stored session, later ones sign-ins,
+    // sign-outs and token refreshes
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((_event, next) => {
+      const nextUserId = next?.user.id ?? null;
+      // Cached queries hold the previous user's rows
+      if (nextUserId !== userId.current) {
+        userId.current = nextUserId;
+        queryClient.clear();
+      }
+
+      setSession(next);
+      setLoading(false);
+    });
+
+    return () => subscription.unsubscribe();
+  }, [queryClient]);
+
+  return (
+    <AuthContext.Provider value={{ session, user: session?.user ?? null, loading }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export default AuthProvider;
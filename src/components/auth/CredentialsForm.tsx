@@ -0,0 +1,91 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import type { Credentials } from "@/hooks/use-auth";
+
+// Supabase Auth's default minimum
+const MIN_PASSWORD_LENGTH = 6;
+
+const credentialsSchema = z.object({
+  email: z.string().trim().email("Enter a valid email address"),
+  password: z
+    .string()
+    .min(MIN_PASSWORD_LENGTH, `Use at least ${MIN_PASSWORD_LENGTH} characters`),
+});
+
+type CredentialsFormValues = z.infer<typeof credentialsSchema>;
+
+interface CredentialsFormProps {
+  // Sign-up asks for a new password, so password managers offer to generate one
+  mode: "sign-in" | "sign-up";
+  isSubmitting: boolean;
+  onSubmit: (credentials: Credentials) => void;
+}
+
+const CredentialsForm = ({ mode, isSubmitting, onSubmit }: CredentialsFormProps) => {
+  const form = useForm<CredentialsFormValues>({
+    resolver: zodResolver(credentialsSchema),
+    defaultValues: { email: "", password: "" },
+  });
+
+  const handleSubmit = (values: CredentialsFormValues) =>
+    onSubmit({ email: values.email, password: values.password });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email</FormLabel>
+              <FormControl>
+                <Input type="email" autoComplete="email" placeholder="trader@example.com" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input
+                  type="password"
+                  autoComplete={mode === "sign-up" ? "new-password" : "current-password"}
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={isSubmitting}>
+          {mode === "sign-up"
+            ? isSubmitting
+              ? "Creating account..."
+              : "Create account"
+            : isSubmitting
+              ? "Signing in..."
+              : "Sign in"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default CredentialsForm;
@@ -0,0 +1,249 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { subMonths, format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { STRATEGY_FAMILIES, type BacktestRequest } from "@/lib/backtest";
+import { SESSION_LABELS, SESSION_NAMES, TIMEFRAMES, type WatchlistAsset } from "@/lib/market";
+
+const backtestSchema = z
+  .object({
+    asset: z.string().min(1, "Pick an asset"),
+    timeframe: z.enum(TIMEFRAMES),
+    bias_timeframe: z.enum(TIMEFRAMES),
+    from: z.string().min(1, "Pick a start date"),
+    to: z.string().min(1, "Pick an end date"),
+    strategies: z.array(z.string()).min(1, "Pick at least one strategy"),
+    sessions: z.array(z.enum(SESSION_NAMES)),
+    max_bars_held: z.coerce.number().int().min(0),
+  })
+  .refine((values) => values.from < values.to, {
+    message: "Start date must be before end date",
+    path: ["to"],
+  });
+
+type BacktestFormValues = z.infer<typeof backtestSchema>;
+
+interface BacktestFormProps {
+  assets: WatchlistAsset[];
+  isSubmitting: boolean;
+  onSubmit: (request: BacktestRequest) => void;
+}
+
+const BacktestForm = ({ assets, isSubmitting, onSubmit }: BacktestFormProps) => {
+  const form = useForm<BacktestFormValues>({
+    resolver: zodResolver(backtestSchema),
+    defaultValues: {
+      asset: assets[0]?.asset ?? "",
+      timeframe: "5min",
+      bias_timeframe: "5min",
+      from: format(subMonths(new Date(), 1), "yyyy-MM-dd"),
+      to: format(new Date(), "yyyy-MM-dd"),
+      strategies: [...STRATEGY_FAMILIES],
+      sessions: [],
+      max_bars_held: 0,
+    },
+  });
+
+  // The watchlist usually arrives after the form mounts
+  useEffect(() => {
+    if (!form.getValues("asset") && assets[0]) {
+      form.setValue("asset", assets[0].asset);
+    }
+  }, [assets, form]);
+
+  const handleSubmit = (values: BacktestFormValues) => {
+    onSubmit({
+      ...values,
+      from: new Date(values.from).toISOString(),
+      to: new Date(values.to).toISOString(),
+    } as BacktestRequest);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-3">
+          <FormField
+            control={form.control}
+            name="asset"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Asset</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select asset" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {assets.map((item) => (
+                      <SelectItem key={item.asset} value={item.asset}>
+                        {item.asset}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {(["timeframe", "bias_timeframe"] as const).map((name) => (
+            <FormField
+              key={name}
+              control={form.control}
+              name={name}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{name === "timeframe" ? "Entry timeframe" : "Bias timeframe"}</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {TIMEFRAMES.map((item) => (
+                        <SelectItem key={item} value={item}>
+                          {item}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          <FormField
+            control={form.control}
+            name="from"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>From</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="to"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>To</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="max_bars_held"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Max bars held</FormLabel>
+                <FormControl>
+                  <Input type="number" min={0} {...field} />
+                </FormControl>
+                <FormDescription>0 holds trades until stop or target.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="strategies"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Strategies</FormLabel>
+              <div className="flex flex-wrap gap-4">
+                {STRATEGY_FAMILIES.map((strategy) => (
+                  <label key={strategy} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={field.value.includes(strategy)}
+                      onCheckedChange={(checked) =>
+                        field.onChange(
+                          checked
+                            ? [...field.value, strategy]
+                            : field.value.filter((value) => value !== strategy)
+                        )
+                      }
+                    />
+                    {strategy.replace(/_/g, " ")}
+                  </label>
+                ))}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="sessions"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Sessions</FormLabel>
+              <div className="flex flex-wrap gap-4">
+                {SESSION_NAMES.map((session) => (
+                  <label key={session} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={field.value.includes(session)}
+                      onCheckedChange={(checked) =>
+                        field.onChange(
+                          checked
+                            ? [...field.value, session]
+                            : field.value.filter((value) => value !== session)
+                        )
+                      }
+                    />
+                    {SESSION_LABELS[session]}
+                  </label>
+                ))}
+              </div>
+              <FormDescription>
+                Leave all unchecked to trade any time. Ignored on 4h and above.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? "Running backtest..." : "Run backtest"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default BacktestForm;
@@ -0,0 +1,58 @@
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { formatR, type EquityPoint } from "@/lib/backtest";
+
+const chartConfig = {
+  equity: { label: "Equity", color: "hsl(217 91% 60%)" },
+  drawdown: { label: "Drawdown", color: "hsl(0 84% 60%)" },
+} satisfies ChartConfig;
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+interface EquityChartProps {
+  points: EquityPoint[];
+  dataKey: "equity" | "drawdown";
+  className?: string;
+}
+
+const EquityChart = ({ points, dataKey, className }: EquityChartProps) => (
+  <ChartContainer config={chartConfig} className={className}>
+    <AreaChart data={points} margin={{ top: 8, right: 8, bottom: 0, left: 8 }}>
+      <CartesianGrid vertical={false} />
+      <XAxis
+        dataKey="time"
+        tickFormatter={formatDate}
+        tickLine={false}
+        axisLine={false}
+        minTickGap={32}
+      />
+      <YAxis tickFormatter={formatR} tickLine={false} axisLine={false} width={64} />
+      <ChartTooltip
+        content={
+          <ChartTooltipContent
+            labelFormatter={(_, payload) =>
+              payload?.[0] ? new Date(payload[0].payload.time).toLocaleString() : ""
+            }
+            formatter={(value) => formatR(Number(value))}
+          />
+        }
+      />
+      <Area
+        dataKey={dataKey}
+        type="stepAfter"
+        stroke={`var(--color-${dataKey})`}
+        fill={`var(--color-${dataKey})`}
+        fillOpacity={0.2}
+        isAnimationActive={false}
+      />
+    </AreaChart>
+  </ChartContainer>
+);
+
+export default EquityChart;
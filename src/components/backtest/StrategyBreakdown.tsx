@@ -0,0 +1,52 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatPercent, formatR, type StrategyStats } from "@/lib/backtest";
+
+interface StrategyBreakdownProps {
+  summary: StrategyStats;
+  strategies: StrategyStats[];
+}
+
+const StatsRow = ({ stats, isTotal = false }: { stats: StrategyStats; isTotal?: boolean }) => (
+  <TableRow className={isTotal ? "font-medium" : undefined}>
+    <TableCell>{stats.strategy.replace(/_/g, " ")}</TableCell>
+    <TableCell className="text-right tabular-nums">{stats.trades}</TableCell>
+    <TableCell className="text-right tabular-nums">{formatPercent(stats.win_rate)}</TableCell>
+    <TableCell className="text-right tabular-nums">{formatR(stats.expectancy)}</TableCell>
+    <TableCell className="text-right tabular-nums">{formatR(stats.total_r)}</TableCell>
+    <TableCell className="text-right tabular-nums">
+      {stats.profit_factor === null ? "–" : stats.profit_factor.toFixed(2)}
+    </TableCell>
+    <TableCell className="text-right tabular-nums">{formatR(-stats.max_drawdown)}</TableCell>
+  </TableRow>
+);
+
+const StrategyBreakdown = ({ summary, strategies }: StrategyBreakdownProps) => (
+  <Table>
+    <TableHeader>
+      <TableRow>
+        <TableHead>Strategy</TableHead>
+        <TableHead className="text-right">Trades</TableHead>
+        <TableHead className="text-right">Win rate</TableHead>
+        <TableHead className="text-right">Expectancy</TableHead>
+        <TableHead className="text-right">Total</TableHead>
+        <TableHead className="text-right">Profit factor</TableHead>
+        <TableHead className="text-right">Max DD</TableHead>
+      </TableRow>
+    </TableHeader>
+    <TableBody>
+      {strategies.map((stats) => (
+        <StatsRow key={stats.strategy} stats={stats} />
+      ))}
+      <StatsRow stats={summary} isTotal />
+    </TableBody>
+  </Table>
+);
+
+export default StrategyBreakdown;
@@ -0,0 +1,172 @@
+import { useMemo, useState, type MouseEvent } from "react";
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatR, type BacktestTrade } from "@/lib/backtest";
+import { formatPrice } from "@/lib/market";
+
+const PAGE_SIZE = 20;
+
+type SortKey = "entry_time" | "strategy" | "bias" | "outcome" | "r_multiple" | "bars_held";
+
+const COLUMNS: { key: SortKey; label: string; numeric?: boolean }[] = [
+  { key: "entry_time", label: "Entry time" },
+  { key: "strategy", label: "Strategy" },
+  { key: "bias", label: "Side" },
+  { key: "outcome", label: "Outcome" },
+  { key: "r_multiple", label: "Result", numeric: true },
+  { key: "bars_held", label: "Bars", numeric: true },
+];
+
+// Page numbers around the current page, with null marking an ellipsis
+function pageWindow(page: number, pageCount: number): (number | null)[] {
+  const pages = new Set([0, pageCount - 1, page - 1, page, page + 1]);
+  const sorted = [...pages].filter((p) => p >= 0 && p < pageCount).sort((a, b) => a - b);
+
+  return sorted.flatMap((p, i) => (i > 0 && p - sorted[i - 1] > 1 ? [null, p] : [p]));
+}
+
+interface TradeTableProps {
+  trades: BacktestTrade[];
+}
+
+const TradeTable = ({ trades }: TradeTableProps) => {
+  const [sortKey, setSortKey] = useState<SortKey>("entry_time");
+  const [ascending, setAscending] = useState(false);
+  const [page, setPage] = useState(0);
+
+  const sorted = useMemo(() => {
+    const direction = ascending ? 1 : -1;
+    return [...trades].sort((a, b) => {
+      const left = a[sortKey];
+      const right = b[sortKey];
+      if (left === right) return 0;
+      return (left > right ? 1 : -1) * direction;
+    });
+  }, [trades, sortKey, ascending]);
+
+  const pageCount = Math.max(1, Math.ceil(sorted.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const rows = sorted.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      setAscending(key !== "entry_time");
+    }
+    setPage(0);
+  };
+
+  const goTo = (target: number) => (event: MouseEvent) => {
+    event.preventDefault();
+    setPage(Math.max(0, Math.min(pageCount - 1, target)));
+  };
+
+  if (trades.length === 0) {
+    return <p className="text-sm text-muted-foreground">This backtest produced no trades.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {COLUMNS.map((column) => {
+              const SortIcon = column.key !== sortKey ? ArrowUpDown : ascending ? ArrowUp : ArrowDown;
+              return (
+                <TableHead key={column.key} className={column.numeric ? "text-right" : undefined}>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="-mx-3"
+                    onClick={() => toggleSort(column.key)}
+                  >
+                    {column.label}
+                    <SortIcon className="h-3 w-3" />
+                  </Button>
+                </TableHead>
+              );
+            })}
+            <TableHead className="text-right">Entry</TableHead>
+            <TableHead className="text-right">Exit</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((trade) => (
+            <TableRow key={`${trade.strategy}-${trade.entry_time}`}>
+              <TableCell className="whitespace-nowrap">
+                {new Date(trade.entry_time).toLocaleString()}
+              </TableCell>
+              <TableCell>{trade.strategy.replace(/_/g, " ")}</TableCell>
+              <TableCell>
+                <Badge variant={trade.bias === "bullish" ? "secondary" : "destructive"}>
+                  {trade.bias === "bullish" ? "Long" : "Short"}
+                </Badge>
+              </TableCell>
+              <TableCell className="capitalize">{trade.outcome}</TableCell>
+              <TableCell
+                className={`text-right tabular-nums ${trade.r_multiple > 0 ? "text-green-600" : trade.r_multiple < 0 ? "text-destructive" : ""}`}
+              >
+                {formatR(trade.r_multiple)}
+              </TableCell>
+              <TableCell className="text-right tabular-nums">{trade.bars_held}</TableCell>
+              <TableCell className="text-right font-mono tabular-nums">
+                {formatPrice(trade.entry_price)}
+              </TableCell>
+              <TableCell className="text-right font-mono tabular-nums">
+                {trade.exit_price === null ? "–" : formatPrice(trade.exit_price)}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {pageCount > 1 && (
+        <Pagination>
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious href="#" onClick={goTo(currentPage - 1)} />
+            </PaginationItem>
+            {pageWindow(currentPage, pageCount).map((p, i) =>
+              p === null ? (
+                <PaginationItem key={`ellipsis-${i}`}>
+                  <PaginationEllipsis />
+                </PaginationItem>
+              ) : (
+                <PaginationItem key={p}>
+                  <PaginationLink href="#" isActive={p === currentPage} onClick={goTo(p)}>
+                    {p + 1}
+                  </PaginationLink>
+                </PaginationItem>
+              )
+            )}
+            <PaginationItem>
+              <PaginationNext href="#" onClick={goTo(currentPage + 1)} />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+    </div>
+  );
+};
+
+export default TradeTable;
@@ -0,0 +1,277 @@
+import { useMemo } from "react";
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  ReferenceArea,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  ChartContainer,
+  ChartTooltip,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  formatPrice,
+  formatTime,
+  type Candle,
+  type LiquidityZone,
+  type Timeframe,
+  type TradeSignal,
+} from "@/lib/market";
+import { overlayConfig, type OverlayKey } from "./overlays";
+
+const chartConfig = {
+  bullish: { label: "Bullish", color: "hsl(142 71% 45%)" },
+  bearish: { label: "Bearish", color: "hsl(0 84% 60%)" },
+  ...overlayConfig,
+} satisfies ChartConfig;
+
+const MAX_LIQUIDITY_POOLS = 10;
+
+type CandlePoint = Candle & { range: [number, number] };
+
+interface CandleShapeProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: CandlePoint;
+}
+
+// Recharts hands a ranged bar the pixel box for [low, high]; the body is
+// placed inside it by scaling open/close against that box.
+const CandleShape = ({ x = 0, y = 0, width = 0, height = 0, payload }: CandleShapeProps) => {
+  if (!payload) return null;
+
+  const { open, close, high, low } = payload;
+  const top = Math.min(y, y + height);
+  const pixelHeight = Math.abs(height);
+  const ratio = high > low ? pixelHeight / (high - low) : 0;
+  const bodyTop = top + (high - Math.max(open, close)) * ratio;
+  const bodyHeight = Math.max(Math.abs(open - close) * ratio, 1);
+  const center = x + width / 2;
+  const color = close >= open ? "var(--color-bullish)" : "var(--color-bearish)";
+
+  return (
+    <g stroke={color} fill={color}>
+      <line x1={center} x2={center} y1={top} y2={top + pixelHeight} />
+      <rect x={x + width * 0.15} y={bodyTop} width={width * 0.7} height={bodyHeight} />
+    </g>
+  );
+};
+
+interface CandleTooltipProps {
+  active?: boolean;
+  payload?: { payload: CandlePoint }[];
+}
+
+const CandleTooltip = ({ active, payload }: CandleTooltipProps) => {
+  if (!active || !payload?.length) return null;
+
+  const candle = payload[0].payload;
+
+  return (
+    <div className="grid min-w-[8rem] gap-1 rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl">
+      <div className="font-medium">{new Date(candle.timestamp).toLocaleString()}</div>
+      {(["open", "high", "low", "close"] as const).map((key) => (
+        <div key={key} className="flex justify-between gap-4">
+          <span className="capitalize text-muted-foreground">{key}</span>
+          <span className="font-mono tabular-nums">{formatPrice(candle[key])}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+interface PDBand {
+  type: "premium" | "discount";
+  from: number;
+  to: number;
+}
+
+// PD arrays are stored as three prices at 25/50/75% of the dealing range, so
+// the outer bands extend one quarter of the range beyond premium and discount.
+function getPDBands(zones: LiquidityZone[]): PDBand[] {
+  const premium = zones.find((zone) => zone.type === "premium");
+  const equilibrium = zones.find((zone) => zone.type === "equilibrium");
+  const discount = zones.find((zone) => zone.type === "discount");
+  if (!premium || !equilibrium || !discount) return [];
+
+  const quarter = equilibrium.price - discount.price;
+  return [
+    { type: "premium", from: premium.price, to: premium.price + quarter },
+    { type: "discount", from: discount.price - quarter, to: discount.price },
+  ];
+}
+
+function getLiquidityPools(zones: LiquidityZone[]) {
+  return zones
+    .filter((zone) => zone.type === "liquidity_pool")
+    .sort((a, b) => b.strength - a.strength)
+    .slice(0, MAX_LIQUIDITY_POOLS);
+}
+
+// Blocks are drawn from the candle that formed them when it is on screen,
+// otherwise across the whole chart
+function getBlocks(zones: LiquidityZone[], candles: Candle[]) {
+  const timestamps = new Set(candles.map((candle) => candle.timestamp));
+  return zones
+    .filter(
+      (zone) =>
+        (zone.type === "order_block" || zone.type === "breaker_block") &&
+        zone.top !== undefined &&
+        zone.bottom !== undefined
+    )
+    .map((zone) => ({
+      ...zone,
+      from: zone.formed_at && timestamps.has(zone.formed_at) ? zone.formed_at : undefined,
+    }));
+}
+
+interface CandlestickChartProps {
+  candles: Candle[];
+  timeframe?: Timeframe;
+  zones?: LiquidityZone[];
+  signals?: TradeSignal[];
+  visible?: OverlayKey[];
+  className?: string;
+}
+
+const CandlestickChart = ({
+  candles,
+  timeframe = "5min",
+  zones = [],
+  signals = [],
+  visible = [],
+  className,
+}: CandlestickChartProps) => {
+  const points = useMemo<CandlePoint[]>(
+    () => candles.map((candle) => ({ ...candle, range: [candle.low, candle.high] })),
+    [candles]
+  );
+  const bands = useMemo(() => getPDBands(zones), [zones]);
+  const pools = useMemo(() => getLiquidityPools(zones), [zones]);
+  const blocks = useMemo(() => getBlocks(zones, candles), [zones, candles]);
+  const maxStrength = Math.max(1, ...pools.map((pool) => pool.strength));
+  const equilibrium = zones.find((zone) => zone.type === "equilibrium");
+  const isVisible = (key: OverlayKey) => visible.includes(key);
+
+  return (
+    <ChartContainer config={chartConfig} className={className}>
+      <ComposedChart data={points} margin={{ top: 8, right: 8, bottom: 0, left: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="timestamp"
+          tickFormatter={(value: string) => formatTime(value, timeframe)}
+          tickLine={false}
+          axisLine={false}
+          minTickGap={32}
+        />
+        <YAxis
+          domain={["auto", "auto"]}
+          tickFormatter={formatPrice}
+          tickLine={false}
+          axisLine={false}
+          width={72}
+          orientation="right"
+        />
+        {bands
+          .filter((band) => isVisible(band.type))
+          .map((band) => (
+            <ReferenceArea
+              key={band.type}
+              y1={band.from}
+              y2={band.to}
+              fill={`var(--color-${band.type})`}
+              fillOpacity={0.08}
+              stroke="none"
+              ifOverflow="hidden"
+            />
+          ))}
+        {equilibrium && isVisible("equilibrium") && (
+          <ReferenceLine
+            y={equilibrium.price}
+            stroke="var(--color-equilibrium)"
+            strokeDasharray="6 4"
+            ifOverflow="hidden"
+          />
+        )}
+        {isVisible("liquidity_pool") &&
+          pools.map((pool, index) => (
+            <ReferenceLine
+              key={`pool-${index}`}
+              y={pool.price}
+              stroke="var(--color-liquidity_pool)"
+              strokeOpacity={0.3 + (0.7 * pool.strength) / maxStrength}
+              strokeWidth={1 + pool.strength / maxStrength}
+              ifOverflow="hidden"
+              label={
+                pool.label
+                  ? {
+                      value: pool.label,
+                      position: "insideBottomRight",
+                      fill: "var(--color-liquidity_pool)",
+                      fontSize: 10,
+                    }
+                  : undefined
+              }
+            />
+          ))}
+        {blocks
+          .filter((block) => isVisible(block.type))
+          .map((block, index) => (
+            <ReferenceArea
+              key={`block-${index}`}
+              x1={block.from}
+              y1={block.bottom}
+              y2={block.top}
+              fill={`var(--color-${block.type})`}
+              fillOpacity={0.05 + 0.05 * block.strength}
+              stroke={`var(--color-${block.type})`}
+              strokeOpacity={0.4}
+              strokeDasharray={block.type === "breaker_block" ? "4 2" : undefined}
+              ifOverflow="hidden"
+            />
+          ))}
+        {isVisible("signals") &&
+          signals.flatMap((signal) => [
+            <ReferenceLine
+              key={`${signal.id}-entry`}
+              y={signal.entry_price}
+              stroke="var(--color-entry)"
+              ifOverflow="extendDomain"
+              label={{
+                value: signal.strategy ?? `${signal.bias} entry`,
+                position: "insideTopLeft",
+                fill: "var(--color-entry)",
+                fontSize: 10,
+              }}
+            />,
+            <ReferenceLine
+              key={`${signal.id}-stop`}
+              y={signal.stop_loss}
+              stroke="var(--color-stop)"
+              strokeDasharray="3 3"
+              ifOverflow="extendDomain"
+              label={{ value: "SL", position: "insideLeft", fill: "var(--color-stop)", fontSize: 10 }}
+            />,
+            <ReferenceLine
+              key={`${signal.id}-target`}
+              y={signal.take_profit}
+              stroke="var(--color-target)"
+              strokeDasharray="3 3"
+              ifOverflow="extendDomain"
+              label={{ value: "TP", position: "insideLeft", fill: "var(--color-target)", fontSize: 10 }}
+            />,
+          ])}
+        <ChartTooltip cursor={false} content={<CandleTooltip />} />
+        <Bar dataKey="range" shape={<CandleShape />} isAnimationActive={false} />
+      </ComposedChart>
+    </ChartContainer>
+  );
+};
+
+export default CandlestickChart;
@@ -0,0 +1,30 @@
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { OVERLAY_KEYS, overlayConfig, type OverlayKey } from "./overlays";
+
+interface OverlayLegendProps {
+  visible: OverlayKey[];
+  onChange: (visible: OverlayKey[]) => void;
+}
+
+const OverlayLegend = ({ visible, onChange }: OverlayLegendProps) => (
+  <ToggleGroup
+    type="multiple"
+    size="sm"
+    variant="outline"
+    value={visible}
+    onValueChange={(value) => onChange(value as OverlayKey[])}
+    className="flex-wrap justify-start"
+  >
+    {OVERLAY_KEYS.map((key) => (
+      <ToggleGroupItem key={key} value={key} className="gap-2">
+        <span
+          className="h-2.5 w-2.5 shrink-0 rounded-[2px]"
+          style={{ backgroundColor: overlayConfig[key].color }}
+        />
+        {overlayConfig[key].label}
+      </ToggleGroupItem>
+    ))}
+  </ToggleGroup>
+);
+
+export default OverlayLegend;
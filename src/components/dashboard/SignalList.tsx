@@ -0,0 +1,102 @@
+import { Check, X } from "lucide-react";
+import { Badge, type BadgeProps } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { formatR } from "@/lib/backtest";
+import {
+  CONFLUENCE_LABELS,
+  SESSION_LABELS,
+  formatPrice,
+  type ConfluenceFactor,
+  type SignalStatus,
+  type TradeSignal,
+} from "@/lib/market";
+
+const STATUS_VARIANTS: Record<SignalStatus, BadgeProps["variant"]> = {
+  pending: "outline",
+  triggered: "default",
+  won: "secondary",
+  lost: "destructive",
+  expired: "outline",
+};
+
+const ConfluenceBreakdown = ({ factors }: { factors: ConfluenceFactor[] }) => (
+  <ul className="space-y-1">
+    {factors.map((factor) => (
+      <li key={factor.name} className="flex items-center gap-2">
+        {factor.met ? (
+          <Check className="h-3 w-3 text-green-600" />
+        ) : (
+          <X className="h-3 w-3 text-muted-foreground" />
+        )}
+        <span className="font-medium">{CONFLUENCE_LABELS[factor.name] ?? factor.name}</span>
+        <span className="text-muted-foreground">{factor.detail}</span>
+        <span className="ml-auto pl-2 tabular-nums text-muted-foreground">
+          {Math.round(factor.weight * 100)}%
+        </span>
+      </li>
+    ))}
+  </ul>
+);
+
+interface SignalListProps {
+  signals: TradeSignal[];
+}
+
+const SignalList = ({ signals }: SignalListProps) => {
+  if (signals.length === 0) {
+    return <p className="text-sm text-muted-foreground">No signals for this asset yet.</p>;
+  }
+
+  return (
+    <ul className="divide-y">
+      {signals.map((signal) => (
+        <li key={signal.id} className="flex items-center justify-between gap-4 py-2 text-sm">
+          <div className="flex items-center gap-2">
+            <Badge variant={signal.bias === "bearish" ? "destructive" : "secondary"}>
+              {signal.bias}
+            </Badge>
+            <span className="font-medium">{signal.strategy ?? "ICT bias"}</span>
+            {signal.session && (
+              <span className="text-muted-foreground">{SESSION_LABELS[signal.session]}</span>
+            )}
+            {signal.confidence !== null &&
+              (signal.confluence.length > 0 ? (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <span className="cursor-help text-muted-foreground underline decoration-dotted">
+                      {Math.round(signal.confidence * 100)}%
+                    </span>
+                  </TooltipTrigger>
+                  <TooltipContent className="text-xs">
+                    <ConfluenceBreakdown factors={signal.confluence} />
+                  </TooltipContent>
+                </Tooltip>
+              ) : (
+                <span className="text-muted-foreground">
+                  {Math.round(signal.confidence * 100)}%
+                </span>
+              ))}
+          </div>
+          <div className="flex items-center gap-3 font-mono tabular-nums text-xs">
+            <span>E {formatPrice(signal.fill_price ?? signal.entry_price)}</span>
+            <span className="text-destructive">SL {formatPrice(signal.stop_loss)}</span>
+            <span className="text-green-600">TP {formatPrice(signal.take_profit)}</span>
+            {signal.realized_r !== null && (
+              <span
+                className={signal.realized_r > 0 ? "text-green-600" : "text-destructive"}
+                title={signal.closed_at ? new Date(signal.closed_at).toLocaleString() : undefined}
+              >
+                {formatR(signal.realized_r)}
+              </span>
+            )}
+            <Badge variant={STATUS_VARIANTS[signal.status] ?? "outline"} className="capitalize">
+              {signal.status}
+            </Badge>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default SignalList;
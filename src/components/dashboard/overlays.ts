@@ -0,0 +1,27 @@
+import type { ChartConfig } from "@/components/ui/chart";
+import type { ZoneType } from "@/lib/market";
+
+export type OverlayKey = ZoneType | "signals";
+
+export const OVERLAY_KEYS: OverlayKey[] = [
+  "premium",
+  "equilibrium",
+  "discount",
+  "liquidity_pool",
+  "order_block",
+  "breaker_block",
+  "signals",
+];
+
+export const overlayConfig = {
+  premium: { label: "Premium", color: "hsl(0 84% 60%)" },
+  equilibrium: { label: "Equilibrium", color: "hsl(215 16% 47%)" },
+  discount: { label: "Discount", color: "hsl(142 71% 45%)" },
+  liquidity_pool: { label: "Liquidity pools", color: "hsl(217 91% 60%)" },
+  order_block: { label: "Order blocks", color: "hsl(262 83% 58%)" },
+  breaker_block: { label: "Breaker blocks", color: "hsl(330 81% 60%)" },
+  signals: { label: "Signals", color: "hsl(38 92% 50%)" },
+  entry: { label: "Entry", color: "hsl(38 92% 50%)" },
+  stop: { label: "Stop loss", color: "hsl(0 84% 60%)" },
+  target: { label: "Take profit", color: "hsl(142 71% 45%)" },
+} satisfies ChartConfig;
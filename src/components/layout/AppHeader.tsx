@@ -0,0 +1,50 @@
+import type { ReactNode } from "react";
+import { NavLink } from "react-router-dom";
+import { cn } from "@/lib/utils";
+import UserMenu from "./UserMenu";
+
+const NAV_ITEMS = [
+  { to: "/", label: "Dashboard" },
+  { to: "/backtests", label: "Backtests" },
+  { to: "/optimizations", label: "Optimise" },
+  { to: "/pipeline", label: "Pipeline" },
+  { to: "/alerts", label: "Alerts" },
+  { to: "/settings", label: "Settings" },
+];
+
+interface AppHeaderProps {
+  children?: ReactNode;
+}
+
+const AppHeader = ({ children }: AppHeaderProps) => (
+  <header className="border-b">
+    <div className="container flex flex-wrap items-center justify-between gap-4 py-4">
+      <div className="flex items-center gap-6">
+        <h1 className="text-2xl font-bold">Signal Stride</h1>
+        <nav className="flex items-center gap-4 text-sm">
+          {NAV_ITEMS.map((item) => (
+            <NavLink
+              key={item.to}
+              to={item.to}
+              end
+              className={({ isActive }) =>
+                cn(
+                  "transition-colors hover:text-foreground",
+                  isActive ? "font-medium text-foreground" : "text-muted-foreground"
+                )
+              }
+            >
+              {item.label}
+            </NavLink>
+          ))}
+        </nav>
+      </div>
+      <div className="flex items-center gap-2">
+        {children}
+        <UserMenu />
+      </div>
+    </div>
+  </header>
+);
+
+export default AppHeader;
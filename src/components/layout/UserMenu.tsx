@@ -0,0 +1,49 @@
+import { LogOut, User } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useAuth, useSignOut } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+// ProtectedRoute sends the user to the login page once the session is gone
+const UserMenu = () => {
+  const { user } = useAuth();
+  const signOut = useSignOut();
+  const { toast } = useToast();
+
+  if (!user) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Account">
+          <User />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="font-normal text-muted-foreground">{user.email}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem
+          disabled={signOut.isPending}
+          onSelect={() =>
+            signOut.mutate(undefined, {
+              onError: (error) =>
+                toast({ title: "Could not sign out", description: error.message, variant: "destructive" }),
+            })
+          }
+        >
+          <LogOut />
+          Sign out
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default UserMenu;
@@ -0,0 +1,86 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatPercent, formatR } from "@/lib/backtest";
+import { formatScore, type Candidate, type Objective, type SweepParam } from "@/lib/optimization";
+import { PARAM_META } from "@/lib/strategy-config";
+
+interface CandidateTableProps {
+  candidates: Candidate[];
+  objective: Objective;
+  minTrades: number;
+  isPromoting: boolean;
+  onPromote: (candidate: Candidate) => void;
+}
+
+const formatParam = (param: SweepParam, value: number) => {
+  const meta = PARAM_META[param];
+  return `${meta.label} ${meta.format ? meta.format(value) : value}`;
+};
+
+const CandidateTable = ({ candidates, objective, minTrades, isPromoting, onPromote }: CandidateTableProps) => {
+  if (candidates.length === 0) {
+    return <p className="text-sm text-muted-foreground">This optimisation produced no candidates.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-12">#</TableHead>
+          <TableHead>Parameters</TableHead>
+          <TableHead className="text-right">Score</TableHead>
+          <TableHead className="text-right">Trades</TableHead>
+          <TableHead className="text-right">Win rate</TableHead>
+          <TableHead className="text-right">Expectancy</TableHead>
+          <TableHead className="text-right">Max DD</TableHead>
+          <TableHead className="text-right">WF efficiency</TableHead>
+          <TableHead />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {candidates.map((candidate) => (
+          <TableRow key={candidate.rank}>
+            <TableCell className="tabular-nums">{candidate.rank}</TableCell>
+            <TableCell className="space-y-1 text-xs">
+              {Object.entries(candidate.params).map(([param, value]) => (
+                <div key={param}>{formatParam(param as SweepParam, value)}</div>
+              ))}
+            </TableCell>
+            <TableCell className="text-right tabular-nums">{formatScore(objective, candidate.score)}</TableCell>
+            <TableCell
+              className={`text-right tabular-nums ${candidate.stats.trades < minTrades ? "text-muted-foreground" : ""}`}
+            >
+              {candidate.stats.trades}
+            </TableCell>
+            <TableCell className="text-right tabular-nums">{formatPercent(candidate.stats.win_rate)}</TableCell>
+            <TableCell className="text-right tabular-nums">{formatR(candidate.stats.expectancy)}</TableCell>
+            <TableCell className="text-right tabular-nums">{formatR(-candidate.stats.max_drawdown)}</TableCell>
+            <TableCell className="text-right">
+              <div className="flex items-center justify-end gap-2">
+                {candidate.overfit && <Badge variant="destructive">Overfit</Badge>}
+                <span className="tabular-nums">
+                  {candidate.efficiency === null ? "–" : formatPercent(candidate.efficiency)}
+                </span>
+              </div>
+            </TableCell>
+            <TableCell className="text-right">
+              <Button variant="outline" size="sm" disabled={isPromoting} onClick={() => onPromote(candidate)}>
+                Promote
+              </Button>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default CandidateTable;
@@ -0,0 +1,407 @@
+import { useEffect } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { subMonths, format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { STRATEGY_FAMILIES } from "@/lib/backtest";
+import { TIMEFRAMES, type WatchlistAsset } from "@/lib/market";
+import {
+  DEFAULT_RANGES,
+  MAX_CANDIDATES,
+  OBJECTIVE_LABELS,
+  OBJECTIVES,
+  SWEEP_PARAMS,
+  type OptimizationRequest,
+  type ParamRange,
+  type ParamSpace,
+  type SweepParam,
+} from "@/lib/optimization";
+import { PARAM_META, STRATEGY_PARAMS } from "@/lib/strategy-config";
+
+const rangeSchema = z
+  .object({
+    param: z.enum(SWEEP_PARAMS),
+    enabled: z.boolean(),
+    min: z.coerce.number(),
+    max: z.coerce.number(),
+    step: z.coerce.number().min(0.000001, "Step must be at least 0.000001"),
+  })
+  .refine((range) => range.min <= range.max, { message: "Min must not exceed max", path: ["max"] });
+
+const optimizationSchema = z
+  .object({
+    asset: z.string().min(1, "Pick an asset"),
+    timeframe: z.enum(TIMEFRAMES),
+    bias_timeframe: z.enum(TIMEFRAMES),
+    from: z.string().min(1, "Pick a start date"),
+    to: z.string().min(1, "Pick an end date"),
+    strategy: z.enum(STRATEGY_FAMILIES),
+    mode: z.enum(["grid", "random"]),
+    objective: z.enum(OBJECTIVES),
+    samples: z.coerce.number().int().min(1).max(MAX_CANDIDATES),
+    folds: z.coerce.number().int().min(1).max(10),
+    min_trades: z.coerce.number().int().min(0),
+    max_bars_held: z.coerce.number().int().min(0).max(10000),
+    ranges: z.array(rangeSchema),
+  })
+  .refine((values) => values.from < values.to, {
+    message: "Start date must be before end date",
+    path: ["to"],
+  })
+  .refine((values) => values.ranges.some((range) => range.enabled), {
+    message: "Pick at least one parameter to sweep",
+    path: ["ranges"],
+  })
+  .refine((values) => values.mode === "random" || gridSize(values.ranges) <= MAX_CANDIDATES, {
+    message: `A grid search is limited to ${MAX_CANDIDATES} combinations`,
+    path: ["ranges"],
+  });
+
+type OptimizationFormValues = z.infer<typeof optimizationSchema>;
+
+function rangeCount({ min = 0, max = 0, step = 0 }: Partial<ParamRange>) {
+  return step > 0 && max >= min ? Math.floor((max - min) / step + 1e-6) + 1 : 0;
+}
+
+// Form values may be half-typed, so every field is optional here
+function gridSize(ranges: (Partial<ParamRange> & { enabled?: boolean })[]) {
+  return ranges.filter((range) => range.enabled).reduce((size, range) => size * rangeCount(range), 1);
+}
+
+// Sweepable parameters the strategy actually reads, all off to begin with
+function rangesFor(strategy: OptimizationFormValues["strategy"]) {
+  return STRATEGY_PARAMS[strategy]
+    .filter((param): param is SweepParam => (SWEEP_PARAMS as readonly string[]).includes(param))
+    .map((param) => ({ param, enabled: false, ...DEFAULT_RANGES[param] }));
+}
+
+interface OptimizationFormProps {
+  assets: WatchlistAsset[];
+  isSubmitting: boolean;
+  onSubmit: (request: OptimizationRequest) => void;
+}
+
+const OptimizationForm = ({ assets, isSubmitting, onSubmit }: OptimizationFormProps) => {
+  const form = useForm<OptimizationFormValues>({
+    resolver: zodResolver(optimizationSchema),
+    defaultValues: {
+      asset: assets[0]?.asset ?? "",
+      timeframe: "5min",
+      bias_timeframe: "5min",
+      from: format(subMonths(new Date(), 1), "yyyy-MM-dd"),
+      to: format(new Date(), "yyyy-MM-dd"),
+      strategy: "Turtle_Soup",
+      mode: "grid",
+      objective: "expectancy",
+      samples: 20,
+      folds: 3,
+      min_trades: 10,
+      max_bars_held: 0,
+      ranges: rangesFor("Turtle_Soup"),
+    },
+  });
+  const { fields, replace } = useFieldArray({ control: form.control, name: "ranges" });
+
+  // The watchlist usually arrives after the form mounts
+  useEffect(() => {
+    if (!form.getValues("asset") && assets[0]) {
+      form.setValue("asset", assets[0].asset);
+    }
+  }, [assets, form]);
+
+  const mode = form.watch("mode");
+  const combinations = gridSize(form.watch("ranges"));
+
+  const handleSubmit = ({ ranges, ...values }: OptimizationFormValues) => {
+    const space: ParamSpace = {};
+    for (const { param, enabled, min, max, step } of ranges) {
+      if (enabled) space[param] = { min, max, step };
+    }
+
+    onSubmit({
+      ...values,
+      from: new Date(values.from).toISOString(),
+      to: new Date(values.to).toISOString(),
+      space,
+      sessions: [],
+    } as OptimizationRequest);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="asset"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Asset</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select asset" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {assets.map((item) => (
+                      <SelectItem key={item.asset} value={item.asset}>
+                        {item.asset}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="strategy"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Strategy</FormLabel>
+                <Select
+                  value={field.value}
+                  onValueChange={(value: OptimizationFormValues["strategy"]) => {
+                    field.onChange(value);
+                    replace(rangesFor(value));
+                  }}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {STRATEGY_FAMILIES.map((strategy) => (
+                      <SelectItem key={strategy} value={strategy}>
+                        {strategy.replace(/_/g, " ")}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {(["timeframe", "bias_timeframe"] as const).map((name) => (
+            <FormField
+              key={name}
+              control={form.control}
+              name={name}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{name === "timeframe" ? "Entry timeframe" : "Bias timeframe"}</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {TIMEFRAMES.map((item) => (
+                        <SelectItem key={item} value={item}>
+                          {item}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+          {(["from", "to"] as const).map((name) => (
+            <FormField
+              key={name}
+              control={form.control}
+              name={name}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{name === "from" ? "From" : "To"}</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="mode"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Search</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="grid">Grid</SelectItem>
+                    <SelectItem value="random">Random</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="objective"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Rank by</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {OBJECTIVES.map((objective) => (
+                      <SelectItem key={objective} value={objective}>
+                        {OBJECTIVE_LABELS[objective]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {mode === "random" && (
+            <FormField
+              control={form.control}
+              name="samples"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Samples</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={1} max={MAX_CANDIDATES} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+          <FormField
+            control={form.control}
+            name="folds"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Walk-forward folds</FormLabel>
+                <FormControl>
+                  <Input type="number" min={1} max={10} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="min_trades"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Min trades</FormLabel>
+                <FormControl>
+                  <Input type="number" min={0} {...field} />
+                </FormControl>
+                <FormDescription>Sets with fewer trades rank last.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="max_bars_held"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Max bars held</FormLabel>
+                <FormControl>
+                  <Input type="number" min={0} {...field} />
+                </FormControl>
+                <FormDescription>0 holds trades until stop or target.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="ranges"
+          render={() => (
+            <FormItem>
+              <FormLabel>Parameters</FormLabel>
+              <div className="space-y-2">
+                {fields.map((item, index) => (
+                  <div key={item.id} className="grid grid-cols-[1fr_4.5rem_4.5rem_4.5rem] items-center gap-2">
+                    <FormField
+                      control={form.control}
+                      name={`ranges.${index}.enabled`}
+                      render={({ field }) => (
+                        <label className="flex items-center gap-2 text-sm">
+                          <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                          {PARAM_META[item.param].label}
+                        </label>
+                      )}
+                    />
+                    {(["min", "max", "step"] as const).map((bound) => (
+                      <FormField
+                        key={bound}
+                        control={form.control}
+                        name={`ranges.${index}.${bound}`}
+                        render={({ field }) => (
+                          <Input type="number" step="any" aria-label={`${item.param} ${bound}`} {...field} />
+                        )}
+                      />
+                    ))}
+                  </div>
+                ))}
+              </div>
+              <FormDescription>
+                Min, max and step per parameter.{" "}
+                {mode === "grid"
+                  ? `${combinations} combinations (up to ${MAX_CANDIDATES}).`
+                  : `Samples are drawn from ${combinations} combinations.`}
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? "Optimising..." : "Run optimisation"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default OptimizationForm;
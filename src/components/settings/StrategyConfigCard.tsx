@@ -0,0 +1,108 @@
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+  defaultParams,
+  PARAM_META,
+  STRATEGY_PARAMS,
+  type StrategyConfig,
+  type StrategyName,
+  type StrategyParams,
+} from "@/lib/strategy-config";
+
+interface StrategyConfigCardProps {
+  strategy: StrategyName;
+  // Config saved for the selected asset, if any
+  config?: StrategyConfig;
+  // All-assets config the selected asset falls back to
+  fallback?: StrategyConfig;
+  isSaving: boolean;
+  onSave: (params: StrategyParams) => void;
+}
+
+const StrategyConfigCard = ({ strategy, config, fallback, isSaving, onSave }: StrategyConfigCardProps) => {
+  const source = config ?? fallback;
+  const saved: StrategyParams = { ...defaultParams(strategy), ...source?.params };
+  const [draft, setDraft] = useState(saved);
+
+  // Start over from the saved values when the config or asset changes
+  const savedKey = JSON.stringify(saved);
+  useEffect(() => {
+    setDraft(JSON.parse(savedKey));
+  }, [savedKey]);
+
+  const dirty = JSON.stringify(draft) !== savedKey;
+  const set = <K extends keyof StrategyParams>(key: K, value: StrategyParams[K]) =>
+    setDraft((current) => ({ ...current, [key]: value }));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-lg">{strategy.replace(/_/g, " ")}</CardTitle>
+          <CardDescription>
+            {config
+              ? `Version ${config.version}`
+              : fallback
+                ? `All assets, version ${fallback.version}`
+                : "Defaults"}
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          {!draft.enabled && <Badge variant="outline">Disabled</Badge>}
+          <Switch
+            checked={draft.enabled}
+            onCheckedChange={(checked) => set("enabled", checked)}
+            aria-label={`Enable ${strategy.replace(/_/g, " ")}`}
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {STRATEGY_PARAMS[strategy].map((key) => {
+          const meta = PARAM_META[key];
+          const value = draft[key];
+          return (
+            <div key={key} className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <Label htmlFor={`${strategy}-${key}`}>{meta.label}</Label>
+                <span className="tabular-nums text-muted-foreground">
+                  {meta.format ? meta.format(value) : value}
+                </span>
+              </div>
+              <Slider
+                id={`${strategy}-${key}`}
+                min={meta.min}
+                max={meta.max}
+                step={meta.step}
+                value={[value]}
+                disabled={!draft.enabled}
+                onValueChange={([next]) => set(key, next)}
+              />
+              <p className="text-xs text-muted-foreground">{meta.description}</p>
+            </div>
+          );
+        })}
+
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={!dirty || isSaving}
+            onClick={() => setDraft(JSON.parse(savedKey))}
+          >
+            Reset
+          </Button>
+          <Button size="sm" disabled={!dirty || isSaving} onClick={() => onSave(draft)}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StrategyConfigCard;
@@ -0,0 +1,167 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { parseAlertDelivery, parseAlertDestination, type AlertRule } from "@/lib/alerts";
+
+const DELIVERY_REFRESH_INTERVAL = 30_000;
+
+export function useAlertDestinations() {
+  return useQuery({
+    queryKey: ["alert-destinations"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("alert_destinations")
+        .select("*")
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return data.map(parseAlertDestination);
+    },
+  });
+}
+
+export function useAlertRules() {
+  return useQuery({
+    queryKey: ["alert-rules"],
+    queryFn: async (): Promise<AlertRule[]> => {
+      const { data, error } = await supabase
+        .from("alert_rules")
+        .select("*")
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useAlertDeliveries(limit = 50) {
+  return useQuery({
+    queryKey: ["alert-deliveries", limit],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("alert_deliveries")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data.map(parseAlertDelivery);
+    },
+    refetchInterval: DELIVERY_REFRESH_INTERVAL,
+  });
+}
+
+export function useCreateAlertDestination() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (destination: TablesInsert<"alert_destinations">) => {
+      const { data, error } = await supabase
+        .from("alert_destinations")
+        .insert(destination)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return parseAlertDestination(data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["alert-destinations"] });
+    },
+  });
+}
+
+export function useUpdateAlertDestination() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...changes }: TablesUpdate<"alert_destinations"> & { id: string }) => {
+      const { error } = await supabase.from("alert_destinations").update(changes).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["alert-destinations"] });
+    },
+  });
+}
+
+// Removing a destination also removes its rules and delivery log
+export function useDeleteAlertDestination() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("alert_destinations").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["alert-destinations"] });
+      queryClient.invalidateQueries({ queryKey: ["alert-rules"] });
+      queryClient.invalidateQueries({ queryKey: ["alert-deliveries"] });
+    },
+  });
+}
+
+export function useCreateAlertRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (rule: TablesInsert<"alert_rules">) => {
+      const { data, error } = await supabase.from("alert_rules").insert(rule).select().single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["alert-rules"] });
+    },
+  });
+}
+
+export function useUpdateAlertRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...changes }: TablesUpdate<"alert_rules"> & { id: string }) => {
+      const { error } = await supabase.from("alert_rules").update(changes).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["alert-rules"] });
+    },
+  });
+}
+
+export function useDeleteAlertRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("alert_rules").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["alert-rules"] });
+    },
+  });
+}
+
+export function useTestAlertDestination() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (destinationId: string) => {
+      const { data, error } = await supabase.functions.invoke<{ delivery: Tables<"alert_deliveries"> }>(
+        "alerts/test",
+        { method: "POST", body: { destination_id: destinationId } }
+      );
+
+      if (error) throw error;
+      return parseAlertDelivery(data!.delivery);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["alert-deliveries"] });
+    },
+  });
+}
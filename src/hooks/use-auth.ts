@@ -0,0 +1,64 @@
+import { createContext, useContext } from "react";
+import { useMutation } from "@tanstack/react-query";
+import type { Session, User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface AuthState {
+  session: Session | null;
+  user: User | null;
+  // True until the stored session has been read
+  loading: boolean;
+}
+
+export interface Credentials {
+  email: string;
+  password: string;
+}
+
+export const AuthContext = createContext<AuthState | null>(null);
+
+export function useAuth() {
+  const auth = useContext(AuthContext);
+  if (!auth) throw new Error("useAuth must be used inside AuthProvider");
+  return auth;
+}
+
+// Mirrors isAdmin in supabase/functions/_shared/auth.ts
+export function isAdmin(user: User | null): boolean {
+  return user?.app_metadata?.role === "admin";
+}
+
+export function useSignIn() {
+  return useMutation({
+    mutationFn: async ({ email, password }: Credentials) => {
+      const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+      if (error) throw error;
+      return data.session;
+    },
+  });
+}
+
+// Resolves with no session when the project asks new users to confirm their
+// email first
+export function useSignUp() {
+  return useMutation({
+    mutationFn: async ({ email, password }: Credentials) => {
+      const { data, error } = await supabase.auth.signUp({
+        email,
+        password,
+        options: { emailRedirectTo: window.location.origin },
+      });
+      if (error) throw error;
+      return data.session;
+    },
+  });
+}
+
+export function useSignOut() {
+  return useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.auth.signOut();
+      if (error) throw error;
+    },
+  });
+}
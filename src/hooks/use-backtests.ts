@@ -0,0 +1,54 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { BacktestRequest, BacktestRun, BacktestRunSummary } from "@/lib/backtest";
+
+export function useBacktestRuns() {
+  return useQuery({
+    queryKey: ["backtest-runs"],
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke<{ runs: BacktestRunSummary[] }>(
+        "backtest",
+        { method: "GET" }
+      );
+
+      if (error) throw error;
+      return data?.runs ?? [];
+    },
+  });
+}
+
+export function useBacktestRun(id: string | undefined) {
+  return useQuery({
+    queryKey: ["backtest-runs", id],
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke<{ runs: BacktestRun[] }>(
+        `backtest?id=${encodeURIComponent(id!)}`,
+        { method: "GET" }
+      );
+
+      if (error) throw error;
+      return data?.runs[0] ?? null;
+    },
+    enabled: Boolean(id),
+  });
+}
+
+export function useRunBacktest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (request: BacktestRequest) => {
+      const { data, error } = await supabase.functions.invoke<{ run: BacktestRun }>("backtest", {
+        method: "POST",
+        body: request,
+      });
+
+      if (error) throw error;
+      return data!.run;
+    },
+    onSuccess: (run) => {
+      queryClient.setQueryData(["backtest-runs", run.id], run);
+      queryClient.invalidateQueries({ queryKey: ["backtest-runs"], exact: true });
+    },
+  });
+}
@@ -0,0 +1,119 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { Candle, Timeframe } from "@/lib/market";
+
+const REFRESH_INTERVAL = 60_000;
+
+async function fetchCandles(
+  asset: string,
+  timeframe: Timeframe,
+  limit: number
+): Promise<Candle[]> {
+  const { data, error } = await supabase
+    .from("market_data")
+    .select("timestamp, asset, timeframe, open, high, low, close, volume")
+    .eq("asset", asset)
+    .eq("timeframe", timeframe)
+    .order("timestamp", { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  // Newest first from the query; charts read left to right
+  return data.reverse().map((row) => ({ ...row, timeframe: row.timeframe as Timeframe }));
+}
+
+export function useMarketData(asset: string, timeframe: Timeframe = "5min", limit = 200) {
+  return useQuery({
+    queryKey: ["market-data", asset, timeframe, limit],
+    queryFn: () => fetchCandles(asset, timeframe, limit),
+    refetchInterval: REFRESH_INTERVAL,
+    enabled: Boolean(asset),
+  });
+}
+
+// Replaces the candle with the same open time, or appends it and drops the
+// oldest so the series keeps its length
+function mergeCandle(candles: Candle[], candle: Candle, limit: number): Candle[] {
+  const time = new Date(candle.timestamp).getTime();
+  const index = candles.findIndex((item) => new Date(item.timestamp).getTime() === time);
+
+  if (index >= 0) {
+    return candles.map((item, i) => (i === index ? candle : item));
+  }
+
+  return [...candles, candle]
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .slice(-limit);
+}
+
+// Streams new and re-resampled candles for one asset and timeframe into the
+// cached series, so charts move without refetching
+export function useLiveMarketData(asset: string, timeframe: Timeframe) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!asset) return;
+
+    const onChange = (row: Tables<"market_data">) => {
+      if (row.timeframe !== timeframe) return;
+
+      const candle: Candle = {
+        timestamp: row.timestamp,
+        asset: row.asset,
+        timeframe,
+        open: Number(row.open),
+        high: Number(row.high),
+        low: Number(row.low),
+        close: Number(row.close),
+        volume: Number(row.volume),
+      };
+      const queries = queryClient.getQueriesData<Candle[]>({
+        queryKey: ["market-data", asset, timeframe],
+      });
+
+      for (const [key, candles] of queries) {
+        if (candles) queryClient.setQueryData(key, mergeCandle(candles, candle, key[3] as number));
+      }
+    };
+
+    const filter = `asset=eq.${asset}`;
+    const channel = supabase
+      .channel(`market-data:${asset}:${timeframe}`)
+      .on<Tables<"market_data">>(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "market_data", filter },
+        (payload) => onChange(payload.new)
+      )
+      .on<Tables<"market_data">>(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "market_data", filter },
+        (payload) => onChange(payload.new)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [asset, timeframe, queryClient]);
+}
+
+export function useIngestMarketData() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.functions.invoke<{
+        recordsProcessed: number;
+      }>("market-data", { method: "POST" });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["market-data"] });
+    },
+  });
+}
@@ -0,0 +1,88 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { saveStrategyConfig } from "@/hooks/use-strategy-configs";
+import type {
+  Candidate,
+  OptimizationRequest,
+  OptimizationRun,
+  OptimizationRunSummary,
+} from "@/lib/optimization";
+
+export function useOptimizationRuns() {
+  return useQuery({
+    queryKey: ["optimization-runs"],
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke<{ runs: OptimizationRunSummary[] }>(
+        "optimize",
+        { method: "GET" }
+      );
+
+      if (error) throw error;
+      return data?.runs ?? [];
+    },
+  });
+}
+
+export function useOptimizationRun(id: string | undefined) {
+  return useQuery({
+    queryKey: ["optimization-runs", id],
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke<{ runs: OptimizationRun[] }>(
+        `optimize?id=${encodeURIComponent(id!)}`,
+        { method: "GET" }
+      );
+
+      if (error) throw error;
+      return data?.runs[0] ?? null;
+    },
+    enabled: Boolean(id),
+  });
+}
+
+export function useRunOptimization() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (request: OptimizationRequest) => {
+      const { data, error } = await supabase.functions.invoke<{ run: OptimizationRun }>("optimize", {
+        method: "POST",
+        body: request,
+      });
+
+      if (error) throw error;
+      return data!.run;
+    },
+    onSuccess: (run) => {
+      queryClient.setQueryData(["optimization-runs", run.id], run);
+      queryClient.invalidateQueries({ queryKey: ["optimization-runs"], exact: true });
+    },
+  });
+}
+
+// Saves the candidate over the run's base parameters as the next config
+// version for the run's asset, and records it on the run
+export function usePromoteCandidate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ run, candidate }: { run: OptimizationRun; candidate: Candidate }) => {
+      const config = await saveStrategyConfig({
+        strategy: run.strategy,
+        asset: run.asset,
+        params: { ...run.base_params, ...candidate.params },
+      });
+
+      const { error } = await supabase
+        .from("optimization_runs")
+        .update({ promoted_config_id: config.id })
+        .eq("id", run.id);
+
+      if (error) throw error;
+      return config;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["optimization-runs"] });
+      queryClient.invalidateQueries({ queryKey: ["strategy-configs"] });
+    },
+  });
+}
@@ -0,0 +1,43 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { parsePipelineRun, type PipelineRun } from "@/lib/pipeline";
+
+const REFRESH_INTERVAL = 60_000;
+
+export function usePipelineRuns(limit = 50) {
+  return useQuery({
+    queryKey: ["pipeline-runs", limit],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("pipeline_runs")
+        .select("*")
+        .order("started_at", { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data.map(parsePipelineRun);
+    },
+    refetchInterval: REFRESH_INTERVAL,
+  });
+}
+
+export function useRunPipeline() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.functions.invoke<{ run: PipelineRun }>("pipeline", {
+        method: "POST",
+        body: { trigger: "manual" },
+      });
+
+      if (error) throw error;
+      return data!.run;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["pipeline-runs"] });
+      queryClient.invalidateQueries({ queryKey: ["market-data"] });
+      queryClient.invalidateQueries({ queryKey: ["trade-signals"] });
+    },
+  });
+}
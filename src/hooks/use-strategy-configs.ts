@@ -0,0 +1,84 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { StrategyConfig, StrategyName, StrategyParams } from "@/lib/strategy-config";
+
+// The signed-in user's active configs that apply to `asset`: its own plus the
+// all-assets ones (asset null). Row level security hides everyone else's.
+async function fetchStrategyConfigs(asset: string | null): Promise<StrategyConfig[]> {
+  let query = supabase
+    .from("strategy_configs")
+    .select("*")
+    .eq("is_active", true);
+
+  query = asset ? query.or(`asset.eq.${asset},asset.is.null`) : query.is("asset", null);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return data as StrategyConfig[];
+}
+
+export function useStrategyConfigs(asset: string | null) {
+  return useQuery({
+    queryKey: ["strategy-configs", asset],
+    queryFn: () => fetchStrategyConfigs(asset),
+  });
+}
+
+export interface SaveStrategyConfig {
+  strategy: StrategyName;
+  asset: string | null;
+  params: StrategyParams;
+}
+
+// Configs are never edited in place: saving retires the active version and
+// adds the next one, so signals keep pointing at the parameters they used
+export async function saveStrategyConfig({ strategy, asset, params }: SaveStrategyConfig): Promise<StrategyConfig> {
+  let latestQuery = supabase
+    .from("strategy_configs")
+    .select("version")
+    .eq("strategy", strategy);
+  latestQuery = asset ? latestQuery.eq("asset", asset) : latestQuery.is("asset", null);
+
+  const { data: latest, error: latestError } = await latestQuery
+    .order("version", { ascending: false })
+    .limit(1);
+  if (latestError) throw latestError;
+
+  let retireQuery = supabase
+    .from("strategy_configs")
+    .update({ is_active: false })
+    .eq("strategy", strategy)
+    .eq("is_active", true);
+  retireQuery = asset ? retireQuery.eq("asset", asset) : retireQuery.is("asset", null);
+
+  const { error: retireError } = await retireQuery;
+  if (retireError) throw retireError;
+
+  const { data, error } = await supabase
+    .from("strategy_configs")
+    .insert({
+      strategy,
+      asset,
+      version: (latest[0]?.version ?? 0) + 1,
+      params: params as unknown as Json,
+      is_active: true,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as StrategyConfig;
+}
+
+export function useSaveStrategyConfig() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: saveStrategyConfig,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["strategy-configs"] });
+    },
+  });
+}
@@ -0,0 +1,87 @@
+import { useEffect } from "react";
+import { useQuery, useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  formatPrice,
+  parseTradeSignal,
+  type TradeSignal,
+  type TradeSignalRow,
+} from "@/lib/market";
+
+const REFRESH_INTERVAL = 60_000;
+
+async function fetchTradeSignals(asset: string, limit: number): Promise<TradeSignal[]> {
+  const { data, error } = await supabase
+    .from("trade_signals")
+    .select("*")
+    .eq("asset", asset)
+    // Newest setup first, so the chart's latest signals are the most recent ones
+    .order("signal_time", { ascending: false, nullsFirst: false })
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  return data.map(parseTradeSignal);
+}
+
+export function useTradeSignals(asset: string, limit = 50) {
+  return useQuery({
+    queryKey: ["trade-signals", asset, limit],
+    queryFn: () => fetchTradeSignals(asset, limit),
+    refetchInterval: REFRESH_INTERVAL,
+    enabled: Boolean(asset),
+  });
+}
+
+// Puts a changed signal into every cached list for its asset, replacing the
+// stored copy or adding it newest first
+function mergeSignal(queryClient: QueryClient, signal: TradeSignal) {
+  const queries = queryClient.getQueriesData<TradeSignal[]>({
+    queryKey: ["trade-signals", signal.asset],
+  });
+
+  for (const [key, signals] of queries) {
+    if (!signals) continue;
+
+    const limit = key[2] as number;
+    const next = signals.some((item) => item.id === signal.id)
+      ? signals.map((item) => (item.id === signal.id ? signal : item))
+      : [signal, ...signals].slice(0, limit);
+    queryClient.setQueryData(key, next);
+  }
+}
+
+// Keeps cached signal lists current from Realtime and announces new signals
+export function useTradeSignalFeed() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const channel = supabase
+      .channel("trade-signals")
+      .on<TradeSignalRow>(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "trade_signals" },
+        (payload) => {
+          const signal = parseTradeSignal(payload.new);
+          mergeSignal(queryClient, signal);
+          toast({
+            title: `New ${signal.bias} signal on ${signal.asset}`,
+            description: `${signal.strategy ?? "ICT bias"} · ${signal.timeframe} · entry ${formatPrice(signal.entry_price)}`,
+          });
+        }
+      )
+      .on<TradeSignalRow>(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "trade_signals" },
+        (payload) => mergeSignal(queryClient, parseTradeSignal(payload.new))
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient, toast]);
+}
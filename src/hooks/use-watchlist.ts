@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { WatchlistAsset } from "@/lib/market";
+
+// The signed-in user's active assets; row level security hides other watchlists
+async function fetchWatchlist(): Promise<WatchlistAsset[]> {
+  const { data, error } = await supabase
+    .from("watchlist")
+    .select("asset, asset_class, tick_size")
+    .eq("active", true)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data;
+}
+
+export function useWatchlist() {
+  return useQuery({
+    queryKey: ["watchlist"],
+    queryFn: fetchWatchlist,
+    staleTime: 5 * 60_000,
+  });
+}
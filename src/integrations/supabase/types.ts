@@ -9,6 +9,228 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      alert_deliveries: {
+        Row: {
+          attempts: number
+          created_at: string | null
+          delivered_at: string | null
+          destination_id: string
+          id: string
+          is_test: boolean
+          last_error: string | null
+          next_attempt_at: string | null
+          payload: Json
+          response_status: number | null
+          rule_id: string | null
+          signal_id: string | null
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string | null
+          delivered_at?: string | null
+          destination_id: string
+          id?: string
+          is_test?: boolean
+          last_error?: string | null
+          next_attempt_at?: string | null
+          payload: Json
+          response_status?: number | null
+          rule_id?: string | null
+          signal_id?: string | null
+          status?: string
+          updated_at?: string | null
+        }
+        Update: {
+          attempts?: number
+          created_at?: string | null
+          delivered_at?: string | null
+          destination_id?: string
+          id?: string
+          is_test?: boolean
+          last_error?: string | null
+          next_attempt_at?: string | null
+          payload?: Json
+          response_status?: number | null
+          rule_id?: string | null
+          signal_id?: string | null
+          status?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      alert_destinations: {
+        Row: {
+          channel: string
+          config: Json
+          created_at: string | null
+          enabled: boolean
+          id: string
+          name: string
+          user_id: string | null
+        }
+        Insert: {
+          channel: string
+          config?: Json
+          created_at?: string | null
+          enabled?: boolean
+          id?: string
+          name: string
+          user_id?: string | null
+        }
+        Update: {
+          channel?: string
+          config?: Json
+          created_at?: string | null
+          enabled?: boolean
+          id?: string
+          name?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      alert_rules: {
+        Row: {
+          asset: string | null
+          created_at: string | null
+          destination_id: string
+          enabled: boolean
+          id: string
+          min_confidence: number
+          name: string
+          sessions: string[]
+          strategy: string | null
+          user_id: string | null
+        }
+        Insert: {
+          asset?: string | null
+          created_at?: string | null
+          destination_id: string
+          enabled?: boolean
+          id?: string
+          min_confidence?: number
+          name: string
+          sessions?: string[]
+          strategy?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          asset?: string | null
+          created_at?: string | null
+          destination_id?: string
+          enabled?: boolean
+          id?: string
+          min_confidence?: number
+          name?: string
+          sessions?: string[]
+          strategy?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      backfill_jobs: {
+        Row: {
+          asset: string
+          chunks_completed: number
+          created_at: string | null
+          cursor: string
+          gaps: Json
+          id: string
+          last_error: string | null
+          range_end: string
+          range_start: string
+          records_stored: number
+          status: string
+          timeframe: string
+          updated_at: string | null
+        }
+        Insert: {
+          asset: string
+          chunks_completed?: number
+          created_at?: string | null
+          cursor: string
+          gaps?: Json
+          id?: string
+          last_error?: string | null
+          range_end: string
+          range_start: string
+          records_stored?: number
+          status?: string
+          timeframe?: string
+          updated_at?: string | null
+        }
+        Update: {
+          asset?: string
+          chunks_completed?: number
+          created_at?: string | null
+          cursor?: string
+          gaps?: Json
+          id?: string
+          last_error?: string | null
+          range_end?: string
+          range_start?: string
+          records_stored?: number
+          status?: string
+          timeframe?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      backtest_runs: {
+        Row: {
+          asset: string
+          bars_tested: number
+          bias_timeframe: string
+          created_at: string | null
+          equity_curve: Json
+          id: string
+          params: Json
+          range_end: string
+          range_start: string
+          strategies: string[]
+          strategy_stats: Json
+          summary: Json
+          timeframe: string
+          trades: Json
+          user_id: string | null
+        }
+        Insert: {
+          asset: string
+          bars_tested?: number
+          bias_timeframe: string
+          created_at?: string | null
+          equity_curve?: Json
+          id?: string
+          params?: Json
+          range_end: string
+          range_start: string
+          strategies?: string[]
+          strategy_stats?: Json
+          summary: Json
+          timeframe: string
+          trades?: Json
+          user_id?: string | null
+        }
+        Update: {
+          asset?: string
+          bars_tested?: number
+          bias_timeframe?: string
+          created_at?: string | null
+          equity_curve?: Json
+          id?: string
+          params?: Json
+          range_end?: string
+          range_start?: string
+          strategies?: string[]
+          strategy_stats?: Json
+          summary?: Json
+          timeframe?: string
+          trades?: Json
+          user_id?: string | null
+        }
+        Relationships: []
+      }
       error_logs: {
         Row: {
           component: string
@@ -30,27 +252,294 @@ export type Database = {
         }
         Relationships: []
       }
+      market_data: {
+        Row: {
+          asset: string
+          close: number
+          created_at: string | null
+          high: number
+          id: string
+          low: number
+          open: number
+          timeframe: string
+          timestamp: string
+          volume: number
+        }
+        Insert: {
+          asset: string
+          close: number
+          created_at?: string | null
+          high: number
+          id?: string
+          low: number
+          open: number
+          timeframe?: string
+          timestamp: string
+          volume?: number
+        }
+        Update: {
+          asset?: string
+          close?: number
+          created_at?: string | null
+          high?: number
+          id?: string
+          low?: number
+          open?: number
+          timeframe?: string
+          timestamp?: string
+          volume?: number
+        }
+        Relationships: []
+      }
+      market_sources: {
+        Row: {
+          asset: string
+          created_at: string
+          provider: string
+          provider_source: string | null
+          provider_symbol: string | null
+          updated_at: string
+        }
+        Insert: {
+          asset: string
+          created_at?: string
+          provider?: string
+          provider_source?: string | null
+          provider_symbol?: string | null
+          updated_at?: string
+        }
+        Update: {
+          asset?: string
+          created_at?: string
+          provider?: string
+          provider_source?: string | null
+          provider_symbol?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      optimization_runs: {
+        Row: {
+          asset: string
+          bars_tested: number
+          base_config_id: string | null
+          base_config_version: number | null
+          base_params: Json
+          best: Json | null
+          bias_timeframe: string
+          candidates: Json
+          created_at: string | null
+          id: string
+          mode: string
+          objective: string
+          params: Json
+          promoted_config_id: string | null
+          range_end: string
+          range_start: string
+          space: Json
+          strategy: string
+          timeframe: string
+          user_id: string | null
+          walk_forward: Json
+        }
+        Insert: {
+          asset: string
+          bars_tested?: number
+          base_config_id?: string | null
+          base_config_version?: number | null
+          base_params: Json
+          best?: Json | null
+          bias_timeframe: string
+          candidates?: Json
+          created_at?: string | null
+          id?: string
+          mode: string
+          objective: string
+          params?: Json
+          promoted_config_id?: string | null
+          range_end: string
+          range_start: string
+          space: Json
+          strategy: string
+          timeframe: string
+          user_id?: string | null
+          walk_forward?: Json
+        }
+        Update: {
+          asset?: string
+          bars_tested?: number
+          base_config_id?: string | null
+          base_config_version?: number | null
+          base_params?: Json
+          best?: Json | null
+          bias_timeframe?: string
+          candidates?: Json
+          created_at?: string | null
+          id?: string
+          mode?: string
+          objective?: string
+          params?: Json
+          promoted_config_id?: string | null
+          range_end?: string
+          range_start?: string
+          space?: Json
+          strategy?: string
+          timeframe?: string
+          user_id?: string | null
+          walk_forward?: Json
+        }
+        Relationships: []
+      }
+      pipeline_runs: {
+        Row: {
+          assets_updated: string[]
+          bias_timeframe: string
+          candles_ingested: number
+          duration_ms: number | null
+          errors: Json
+          finished_at: string | null
+          id: string
+          signals_generated: number
+          signals_resolved: number
+          started_at: string
+          status: string
+          steps: Json
+          timeframe: string
+          trigger: string
+        }
+        Insert: {
+          assets_updated?: string[]
+          bias_timeframe: string
+          candles_ingested?: number
+          duration_ms?: number | null
+          errors?: Json
+          finished_at?: string | null
+          id?: string
+          signals_generated?: number
+          signals_resolved?: number
+          started_at?: string
+          status?: string
+          steps?: Json
+          timeframe: string
+          trigger?: string
+        }
+        Update: {
+          assets_updated?: string[]
+          bias_timeframe?: string
+          candles_ingested?: number
+          duration_ms?: number | null
+          errors?: Json
+          finished_at?: string | null
+          id?: string
+          signals_generated?: number
+          signals_resolved?: number
+          started_at?: string
+          status?: string
+          steps?: Json
+          timeframe?: string
+          trigger?: string
+        }
+        Relationships: []
+      }
       portfolio_metrics: {
         Row: {
+          avg_loss_r: number
+          avg_win_r: number
           created_at: string | null
           drawdown: number
+          expectancy: number
           id: string
+          losses: number
+          max_consecutive_losses: number
+          profit_factor: number | null
           risk_reward_ratio: number
+          scope: string
+          scope_key: string
+          sharpe: number | null
+          snapshot_at: string
+          total_r: number
+          trades: number
+          user_id: string | null
           win_rate: number
+          window_days: number | null
+          wins: number
         }
         Insert: {
+          avg_loss_r?: number
+          avg_win_r?: number
           created_at?: string | null
           drawdown: number
+          expectancy?: number
           id?: string
+          losses?: number
+          max_consecutive_losses?: number
+          profit_factor?: number | null
           risk_reward_ratio: number
+          scope?: string
+          scope_key?: string
+          sharpe?: number | null
+          snapshot_at?: string
+          total_r?: number
+          trades?: number
+          user_id?: string | null
           win_rate: number
+          window_days?: number | null
+          wins?: number
         }
         Update: {
+          avg_loss_r?: number
+          avg_win_r?: number
           created_at?: string | null
           drawdown?: number
+          expectancy?: number
           id?: string
+          losses?: number
+          max_consecutive_losses?: number
+          profit_factor?: number | null
           risk_reward_ratio?: number
+          scope?: string
+          scope_key?: string
+          sharpe?: number | null
+          snapshot_at?: string
+          total_r?: number
+          trades?: number
+          user_id?: string | null
           win_rate?: number
+          window_days?: number | null
+          wins?: number
+        }
+        Relationships: []
+      }
+      strategy_configs: {
+        Row: {
+          asset: string | null
+          created_at: string | null
+          id: string
+          is_active: boolean
+          params: Json
+          strategy: string
+          user_id: string | null
+          version: number
+        }
+        Insert: {
+          asset?: string | null
+          created_at?: string | null
+          id?: string
+          is_active?: boolean
+          params?: Json
+          strategy: string
+          user_id?: string | null
+          version?: number
+        }
+        Update: {
+          asset?: string | null
+          created_at?: string | null
+          id?: string
+          is_active?: boolean
+          params?: Json
+          strategy?: string
+          user_id?: string | null
+          version?: number
         }
         Relationships: []
       }
@@ -58,52 +547,115 @@ export type Database = {
         Row: {
           asset: string
           bias: string
+          closed_at: string | null
+          config_id: string | null
+          config_version: number | null
+          confidence: number | null
+          confluence: Json | null
+          created_at: string | null
           entry_price: number
+          evaluated_until: string | null
+          exit_price: number | null
+          expires_at: string | null
+          fill_price: number | null
           id: string
           liquidity_zones: Json | null
+          realized_r: number | null
+          session: string | null
+          signal_time: string | null
+          status: string
           stop_loss: number
+          strategy: string | null
           take_profit: number
           timeframe: string
+          triggered_at: string | null
+          updated_at: string | null
+          user_id: string | null
         }
         Insert: {
           asset: string
           bias: string
+          closed_at?: string | null
+          config_id?: string | null
+          config_version?: number | null
+          confidence?: number | null
+          confluence?: Json | null
+          created_at?: string | null
           entry_price: number
+          evaluated_until?: string | null
+          exit_price?: number | null
+          expires_at?: string | null
+          fill_price?: number | null
           id?: string
           liquidity_zones?: Json | null
+          realized_r?: number | null
+          session?: string | null
+          signal_time?: string | null
+          status?: string
           stop_loss: number
+          strategy?: string | null
           take_profit: number
           timeframe: string
+          triggered_at?: string | null
+          updated_at?: string | null
+          user_id?: string | null
         }
         Update: {
           asset?: string
           bias?: string
+          closed_at?: string | null
+          config_id?: string | null
+          config_version?: number | null
+          confidence?: number | null
+          confluence?: Json | null
+          created_at?: string | null
           entry_price?: number
+          evaluated_until?: string | null
+          exit_price?: number | null
+          expires_at?: string | null
+          fill_price?: number | null
           id?: string
           liquidity_zones?: Json | null
+          realized_r?: number | null
+          session?: string | null
+          signal_time?: string | null
+          status?: string
           stop_loss?: number
+          strategy?: string | null
           take_profit?: number
           timeframe?: string
+          triggered_at?: string | null
+          updated_at?: string | null
+          user_id?: string | null
         }
         Relationships: []
       }
       watchlist: {
         Row: {
+          active: boolean
           asset: string
+          asset_class: string
           created_at: string | null
           id: string
+          tick_size: number
           user_id: string | null
         }
         Insert: {
+          active?: boolean
           asset: string
+          asset_class?: string
           created_at?: string | null
           id?: string
+          tick_size?: number
           user_id?: string | null
         }
         Update: {
+          active?: boolean
           asset?: string
+          asset_class?: string
           created_at?: string | null
           id?: string
+          tick_size?: number
           user_id?: string | null
         }
         Relationships: []
@@ -0,0 +1,100 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+// Mirrors supabase/functions/_shared/alerts
+export const CHANNELS = ["webhook", "slack", "telegram", "email"] as const;
+
+export type ChannelName = (typeof CHANNELS)[number];
+
+export const CHANNEL_LABELS: Record<ChannelName, string> = {
+  webhook: "Webhook",
+  slack: "Slack",
+  telegram: "Telegram",
+  email: "Email",
+};
+
+export interface ChannelField {
+  key: string;
+  label: string;
+  placeholder?: string;
+  description?: string;
+  optional?: boolean;
+  secret?: boolean;
+}
+
+export const CHANNEL_FIELDS: Record<ChannelName, ChannelField[]> = {
+  webhook: [
+    { key: "url", label: "URL", placeholder: "https://example.com/hooks/signals" },
+    {
+      key: "secret",
+      label: "Signing secret",
+      optional: true,
+      secret: true,
+      description: "Signs the body with HMAC-SHA256 in X-Signature-256.",
+    },
+  ],
+  slack: [
+    {
+      key: "url",
+      label: "Incoming webhook URL",
+      placeholder: "https://hooks.slack.com/services/...",
+    },
+  ],
+  telegram: [
+    { key: "bot_token", label: "Bot token", secret: true },
+    { key: "chat_id", label: "Chat ID" },
+    {
+      key: "api_url",
+      label: "API URL",
+      optional: true,
+      placeholder: "https://api.telegram.org",
+      description: "Only needed for a Bot API compatible server.",
+    },
+  ],
+  email: [
+    {
+      key: "to",
+      label: "Recipients",
+      placeholder: "trader@example.com",
+      description: "Comma separated. Sent through the SMTP server set for the functions.",
+    },
+  ],
+};
+
+export type DeliveryStatus = "pending" | "delivered" | "retrying" | "failed";
+
+export interface AlertMessage {
+  title: string;
+  text: string;
+  test: boolean;
+}
+
+type AlertDestinationRow = Tables<"alert_destinations">;
+type AlertDeliveryRow = Tables<"alert_deliveries">;
+
+export type AlertRule = Tables<"alert_rules">;
+
+export interface AlertDestination extends Omit<AlertDestinationRow, "channel" | "config"> {
+  channel: ChannelName;
+  config: Record<string, string>;
+}
+
+export interface AlertDelivery extends Omit<AlertDeliveryRow, "status" | "payload"> {
+  status: DeliveryStatus;
+  payload: AlertMessage;
+}
+
+export function parseAlertDestination(row: AlertDestinationRow): AlertDestination {
+  return {
+    ...row,
+    channel: row.channel as ChannelName,
+    config: (row.config as Record<string, string> | null) ?? {},
+  };
+}
+
+export function parseAlertDelivery(row: AlertDeliveryRow): AlertDelivery {
+  return {
+    ...row,
+    status: row.status as DeliveryStatus,
+    payload: row.payload as unknown as AlertMessage,
+  };
+}
@@ -0,0 +1,91 @@
+import type { Tables } from "@/integrations/supabase/types";
+import type { SessionName, Timeframe } from "@/lib/market";
+
+// Strategy families emitted by ict-entries; a backtest filters by name prefix
+export const STRATEGY_FAMILIES = [
+  "Bullish_Engulfing",
+  "Bearish_Engulfing",
+  "Turtle_Soup",
+  "CRT_Breakout",
+  "PD_Array_Rejection",
+  "FVG_Return",
+  "Order_Block",
+  "IPDA",
+] as const;
+
+export type TradeOutcome = "win" | "loss" | "timeout" | "open";
+
+export interface BacktestTrade {
+  strategy: string;
+  bias: "bullish" | "bearish";
+  confidence: number;
+  // Missing on runs stored before sessions were tracked
+  session?: SessionName | null;
+  entry_time: string;
+  entry_price: number;
+  stop_loss: number;
+  take_profit: number;
+  exit_time: string | null;
+  exit_price: number | null;
+  outcome: TradeOutcome;
+  r_multiple: number;
+  bars_held: number;
+}
+
+export interface StrategyStats {
+  strategy: string;
+  trades: number;
+  wins: number;
+  losses: number;
+  timeouts: number;
+  win_rate: number;
+  avg_win_r: number;
+  avg_loss_r: number;
+  expectancy: number;
+  total_r: number;
+  profit_factor: number | null;
+  max_drawdown: number;
+}
+
+export interface EquityPoint {
+  time: string;
+  equity: number;
+  drawdown: number;
+}
+
+export interface BacktestRequest {
+  asset: string;
+  timeframe: Timeframe;
+  bias_timeframe: Timeframe;
+  from: string;
+  to: string;
+  strategies: string[];
+  max_bars_held: number;
+  // Empty trades at any time of day
+  sessions: SessionName[];
+}
+
+type BacktestRunRow = Tables<"backtest_runs">;
+
+export interface BacktestRunSummary
+  extends Pick<
+    BacktestRunRow,
+    "id" | "asset" | "timeframe" | "bias_timeframe" | "range_start" | "range_end" | "strategies" | "created_at"
+  > {
+  summary: StrategyStats;
+}
+
+export interface BacktestRun extends BacktestRunSummary {
+  bars_tested: number;
+  strategy_stats: StrategyStats[];
+  trades: BacktestTrade[];
+  equity_curve: EquityPoint[];
+}
+
+export function formatR(value: number) {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(2)}R`;
+}
+
+export function formatPercent(value: number) {
+  return `${(value * 100).toFixed(1)}%`;
+}
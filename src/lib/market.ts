@@ -0,0 +1,169 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+export type WatchlistAsset = Pick<Tables<"watchlist">, "asset" | "asset_class" | "tick_size">;
+
+export const TIMEFRAMES = ["5min", "15min", "1h", "4h", "1d", "1w"] as const;
+
+export type Timeframe = (typeof TIMEFRAMES)[number];
+
+export const TIMEFRAME_LABELS: Record<Timeframe, string> = {
+  "5min": "5 minute",
+  "15min": "15 minute",
+  "1h": "1 hour",
+  "4h": "4 hour",
+  "1d": "Daily",
+  "1w": "Weekly",
+};
+
+export interface Candle {
+  timestamp: string;
+  asset: string;
+  timeframe: Timeframe;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export function formatPrice(value: number) {
+  return value.toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+}
+
+export function formatTime(timestamp: string, timeframe: Timeframe = "5min") {
+  if (timeframe === "1d" || timeframe === "1w") {
+    return new Date(timestamp).toLocaleDateString(undefined, {
+      month: "short",
+      day: "numeric",
+    });
+  }
+
+  return new Date(timestamp).toLocaleTimeString(undefined, {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export type Bias = "bullish" | "bearish" | "neutral";
+
+export type ZoneType =
+  | "premium"
+  | "equilibrium"
+  | "discount"
+  | "liquidity_pool"
+  | "order_block"
+  | "breaker_block";
+
+export interface LiquidityZone {
+  type: ZoneType;
+  price: number;
+  strength: number;
+  // Order and breaker blocks span a price band
+  top?: number;
+  bottom?: number;
+  direction?: "bullish" | "bearish";
+  formed_at?: string;
+  // Named levels such as the Asian session high and low
+  label?: string;
+}
+
+export const SESSION_NAMES = ["asian", "london", "ny_am", "ny_pm"] as const;
+
+export type SessionName = (typeof SESSION_NAMES)[number];
+
+export const SESSION_LABELS: Record<SessionName, string> = {
+  asian: "Asia",
+  london: "London",
+  ny_am: "NY AM",
+  ny_pm: "NY PM",
+};
+
+// pending → triggered → won | lost, or pending → expired
+export type SignalStatus = "pending" | "triggered" | "won" | "lost" | "expired";
+
+export const OPEN_SIGNAL_STATUSES: SignalStatus[] = ["pending", "triggered"];
+
+export type ConfluenceName =
+  | "bias"
+  | "structure"
+  | "pd_zone"
+  | "liquidity_sweep"
+  | "volatility"
+  | "session";
+
+export const CONFLUENCE_LABELS: Record<ConfluenceName, string> = {
+  bias: "Quarterly bias",
+  structure: "Market structure",
+  pd_zone: "Premium/discount",
+  liquidity_sweep: "Liquidity sweep",
+  volatility: "Volatility",
+  session: "Kill zone",
+};
+
+export interface ConfluenceFactor {
+  name: ConfluenceName;
+  weight: number;
+  met: boolean;
+  detail: string;
+}
+
+export interface TradeSignal {
+  id: string;
+  asset: string;
+  timeframe: string;
+  bias: Bias;
+  entry_price: number;
+  stop_loss: number;
+  take_profit: number;
+  zones: LiquidityZone[];
+  strategy: string | null;
+  confidence: number | null;
+  // Empty on signals stored before confluence scoring
+  confluence: ConfluenceFactor[];
+  status: SignalStatus;
+  session: SessionName | null;
+  created_at: string | null;
+  triggered_at: string | null;
+  fill_price: number | null;
+  closed_at: string | null;
+  exit_price: number | null;
+  realized_r: number | null;
+}
+
+export type TradeSignalRow = Tables<"trade_signals">;
+
+// ict-signals stores an array of zones in liquidity_zones, while ict-entries
+// stores { strategy, confidence } in the same column.
+export function parseTradeSignal(row: TradeSignalRow): TradeSignal {
+  const raw = row.liquidity_zones;
+  const zones = Array.isArray(raw) ? (raw as unknown as LiquidityZone[]) : [];
+  const meta =
+    raw && typeof raw === "object" && !Array.isArray(raw)
+      ? (raw as { strategy?: string; confidence?: number })
+      : {};
+
+  return {
+    id: row.id,
+    asset: row.asset,
+    timeframe: row.timeframe,
+    bias: row.bias as Bias,
+    entry_price: row.entry_price,
+    stop_loss: row.stop_loss,
+    take_profit: row.take_profit,
+    zones,
+    strategy: row.strategy ?? meta.strategy ?? null,
+    confidence: row.confidence ?? meta.confidence ?? null,
+    confluence: (row.confluence as unknown as ConfluenceFactor[] | null) ?? [],
+    status: row.status as SignalStatus,
+    session: row.session as SessionName | null,
+    created_at: row.created_at,
+    triggered_at: row.triggered_at,
+    fill_price: row.fill_price,
+    closed_at: row.closed_at,
+    exit_price: row.exit_price,
+    realized_r: row.realized_r,
+  };
+}
@@ -0,0 +1,129 @@
+import type { Tables } from "@/integrations/supabase/types";
+import type { StrategyStats } from "@/lib/backtest";
+import type { SessionName, Timeframe } from "@/lib/market";
+import type { NumericParam, StrategyName, StrategyParams } from "@/lib/strategy-config";
+
+// Mirrors supabase/functions/optimize/search.ts
+export const SWEEP_PARAMS = [
+  "min_confidence",
+  "stop_atr_multiple",
+  "target_atr_multiple",
+  "stop_buffer_atr",
+  "target_r",
+  "turtle_soup_lookback",
+  "crt_max_range",
+  "liquidity_tolerance",
+  "doji_threshold",
+] as const satisfies readonly NumericParam[];
+
+export type SweepParam = (typeof SWEEP_PARAMS)[number];
+
+export const OBJECTIVES = ["expectancy", "profit_factor", "max_drawdown"] as const;
+
+export type Objective = (typeof OBJECTIVES)[number];
+
+export const OBJECTIVE_LABELS: Record<Objective, string> = {
+  expectancy: "Expectancy",
+  profit_factor: "Profit factor",
+  max_drawdown: "Lowest max drawdown",
+};
+
+export type SearchMode = "grid" | "random";
+
+export const MAX_CANDIDATES = 50;
+
+export interface ParamRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+export type ParamSpace = Partial<Record<SweepParam, ParamRange>>;
+
+// Starting ranges offered in the form, around the strategy defaults
+export const DEFAULT_RANGES: Record<SweepParam, ParamRange> = {
+  min_confidence: { min: 0.4, max: 0.8, step: 0.2 },
+  stop_atr_multiple: { min: 1, max: 2, step: 0.5 },
+  target_atr_multiple: { min: 2, max: 4, step: 1 },
+  stop_buffer_atr: { min: 0.25, max: 0.75, step: 0.25 },
+  target_r: { min: 1.5, max: 3, step: 0.5 },
+  turtle_soup_lookback: { min: 10, max: 30, step: 10 },
+  crt_max_range: { min: 0.0025, max: 0.0075, step: 0.0025 },
+  liquidity_tolerance: { min: 0.0025, max: 0.0075, step: 0.0025 },
+  doji_threshold: { min: 0.001, max: 0.05, step: 0.01 },
+};
+
+// Per-trade figures without the strategy name that StrategyStats carries
+export type PerformanceStats = Omit<StrategyStats, "strategy" | "timeouts">;
+
+export interface FoldResult {
+  in_sample: PerformanceStats;
+  out_of_sample: PerformanceStats;
+}
+
+export interface Candidate {
+  rank: number;
+  params: Partial<Record<SweepParam, number>>;
+  score: number | null;
+  stats: PerformanceStats;
+  folds: FoldResult[];
+  efficiency: number | null;
+  overfit: boolean;
+}
+
+export interface WalkForwardFold {
+  in_sample_start: string;
+  in_sample_end: string;
+  out_of_sample_end: string;
+  selected_rank: number;
+  in_sample_score: number | null;
+  out_of_sample_score: number | null;
+}
+
+export interface OptimizationRequest {
+  asset: string;
+  timeframe: Timeframe;
+  bias_timeframe: Timeframe;
+  from: string;
+  to: string;
+  strategy: Exclude<StrategyName, "ICT_Quarterly_Bias">;
+  mode: SearchMode;
+  objective: Objective;
+  space: ParamSpace;
+  samples: number;
+  folds: number;
+  min_trades: number;
+  max_bars_held: number;
+  sessions: SessionName[];
+}
+
+type OptimizationRunRow = Tables<"optimization_runs">;
+
+export interface OptimizationRunSummary
+  extends Pick<
+    OptimizationRunRow,
+    "id" | "asset" | "timeframe" | "range_start" | "range_end" | "promoted_config_id" | "created_at"
+  > {
+  strategy: OptimizationRequest["strategy"];
+  mode: SearchMode;
+  objective: Objective;
+  best: Candidate | null;
+}
+
+export interface OptimizationRun extends OptimizationRunSummary {
+  bias_timeframe: string;
+  space: ParamSpace;
+  params: Pick<OptimizationRequest, "samples" | "folds" | "min_trades" | "max_bars_held" | "sessions">;
+  base_params: StrategyParams;
+  base_config_version: number | null;
+  bars_tested: number;
+  candidates: Candidate[];
+  walk_forward: WalkForwardFold[];
+}
+
+export function formatScore(objective: Objective, score: number | null) {
+  if (score === null) return "–";
+  if (objective === "max_drawdown") return `${(-score).toFixed(2)}R`;
+  if (objective === "expectancy") return `${score >= 0 ? "+" : ""}${score.toFixed(2)}R`;
+  return score.toFixed(2);
+}
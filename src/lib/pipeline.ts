@@ -0,0 +1,52 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+// Mirrors supabase/functions/pipeline/run.ts
+export type PipelineTrigger = "schedule" | "manual";
+export type PipelineStatus = "running" | "succeeded" | "partial" | "failed" | "skipped";
+export type PipelineStepName = "ingest" | "analyse" | "resolve" | "alert";
+
+export const STEP_LABELS: Record<PipelineStepName, string> = {
+  ingest: "Ingest",
+  analyse: "Analyse",
+  resolve: "Resolve",
+  alert: "Alert",
+};
+
+export interface PipelineStep {
+  name: PipelineStepName;
+  status: Exclude<PipelineStatus, "running">;
+  started_at: string;
+  duration_ms: number;
+  counts: Record<string, number>;
+}
+
+export interface PipelineError {
+  step: PipelineStepName;
+  asset: string | null;
+  message: string;
+}
+
+type PipelineRunRow = Tables<"pipeline_runs">;
+
+export interface PipelineRun
+  extends Omit<PipelineRunRow, "trigger" | "status" | "steps" | "errors"> {
+  trigger: PipelineTrigger;
+  status: PipelineStatus;
+  steps: PipelineStep[];
+  errors: PipelineError[];
+}
+
+export function parsePipelineRun(row: PipelineRunRow): PipelineRun {
+  return {
+    ...row,
+    trigger: row.trigger as PipelineTrigger,
+    status: row.status as PipelineStatus,
+    steps: (row.steps as unknown as PipelineStep[] | null) ?? [],
+    errors: (row.errors as unknown as PipelineError[] | null) ?? [],
+  };
+}
+
+export function formatDuration(ms: number | null) {
+  if (ms === null) return "—";
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
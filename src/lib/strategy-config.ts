@@ -0,0 +1,178 @@
+import type { Tables } from "@/integrations/supabase/types";
+import { STRATEGY_FAMILIES } from "@/lib/backtest";
+
+// Mirrors supabase/functions/_shared/strategy-config.ts
+export const BIAS_STRATEGY = "ICT_Quarterly_Bias";
+
+export const STRATEGY_NAMES = [...STRATEGY_FAMILIES, BIAS_STRATEGY] as const;
+
+export type StrategyName = (typeof STRATEGY_NAMES)[number];
+
+export interface StrategyParams {
+  enabled: boolean;
+  min_confidence: number;
+  stop_atr_multiple: number;
+  target_atr_multiple: number;
+  stop_buffer_atr: number;
+  target_r: number;
+  turtle_soup_lookback: number;
+  crt_max_range: number;
+  liquidity_tolerance: number;
+  doji_threshold: number;
+  cooldown_bars: number;
+  duplicate_tolerance: number;
+}
+
+export type NumericParam = Exclude<keyof StrategyParams, "enabled">;
+
+export interface ParamMeta {
+  label: string;
+  description: string;
+  min: number;
+  max: number;
+  step: number;
+  format?: (value: number) => string;
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2).replace(/\.?0+$/, "")}%`;
+
+export const PARAM_META: Record<NumericParam, ParamMeta> = {
+  min_confidence: {
+    label: "Minimum confidence",
+    description: "Signals whose confluence score falls below this are dropped.",
+    min: 0,
+    max: 1,
+    step: 0.05,
+    format: (value) => `${Math.round(value * 100)}%`,
+  },
+  stop_atr_multiple: {
+    label: "Stop (ATR)",
+    description: "Stop distance from entry in multiples of ATR.",
+    min: 0.5,
+    max: 5,
+    step: 0.1,
+    format: (value) => `${value.toFixed(1)}×`,
+  },
+  target_atr_multiple: {
+    label: "Target (ATR)",
+    description: "Target distance from entry in multiples of ATR.",
+    min: 0.5,
+    max: 10,
+    step: 0.1,
+    format: (value) => `${value.toFixed(1)}×`,
+  },
+  stop_buffer_atr: {
+    label: "Stop buffer (ATR)",
+    description: "How far beyond the zone the stop sits, in multiples of ATR.",
+    min: 0,
+    max: 2,
+    step: 0.05,
+    format: (value) => `${value.toFixed(2)}×`,
+  },
+  target_r: {
+    label: "Target (R)",
+    description: "Target distance in multiples of the risk.",
+    min: 0.5,
+    max: 6,
+    step: 0.25,
+    format: (value) => `${value.toFixed(2)}R`,
+  },
+  turtle_soup_lookback: {
+    label: "Lookback (bars)",
+    description: "Bars that make up the range a false breakout has to pierce.",
+    min: 5,
+    max: 60,
+    step: 1,
+  },
+  crt_max_range: {
+    label: "CRT range",
+    description: "Widest range the last six bars may span, as a share of its midpoint, to count as consolidation.",
+    min: 0.001,
+    max: 0.05,
+    step: 0.001,
+    format: formatPercent,
+  },
+  liquidity_tolerance: {
+    label: "Equal highs/lows tolerance",
+    description: "Relative distance at which two highs or lows count as equal.",
+    min: 0.0005,
+    max: 0.02,
+    step: 0.0005,
+    format: formatPercent,
+  },
+  doji_threshold: {
+    label: "Doji threshold",
+    description: "Entries are skipped when the signal candle's body is this small a share of its range. 0 turns the filter off.",
+    min: 0,
+    max: 0.2,
+    step: 0.001,
+    format: formatPercent,
+  },
+  cooldown_bars: {
+    label: "Cooldown (bars)",
+    description: "Bars after a signal before the same asset, strategy and side can signal again.",
+    min: 0,
+    max: 96,
+    step: 1,
+  },
+  duplicate_tolerance: {
+    label: "Duplicate tolerance",
+    description: "Entries this close to an open signal update or repeat it instead of adding another.",
+    min: 0,
+    max: 0.01,
+    step: 0.0005,
+    format: formatPercent,
+  },
+};
+
+const ATR_EXITS: NumericParam[] = ["stop_atr_multiple", "target_atr_multiple"];
+const ZONE_EXITS: NumericParam[] = ["stop_buffer_atr", "target_r"];
+const DEDUP: NumericParam[] = ["cooldown_bars", "duplicate_tolerance"];
+
+// Parameters each strategy actually reads
+export const STRATEGY_PARAMS: Record<StrategyName, NumericParam[]> = {
+  Bullish_Engulfing: ["min_confidence", ...ATR_EXITS, "liquidity_tolerance", "doji_threshold", ...DEDUP],
+  Bearish_Engulfing: ["min_confidence", ...ATR_EXITS, "liquidity_tolerance", "doji_threshold", ...DEDUP],
+  Turtle_Soup: ["min_confidence", ...ATR_EXITS, "turtle_soup_lookback", "liquidity_tolerance", "doji_threshold", ...DEDUP],
+  CRT_Breakout: ["min_confidence", ...ATR_EXITS, "crt_max_range", "liquidity_tolerance", "doji_threshold", ...DEDUP],
+  PD_Array_Rejection: ["min_confidence", ...ATR_EXITS, "liquidity_tolerance", "doji_threshold", ...DEDUP],
+  FVG_Return: ["min_confidence", ...ZONE_EXITS, "liquidity_tolerance", "doji_threshold", ...DEDUP],
+  Order_Block: ["min_confidence", ...ZONE_EXITS, "liquidity_tolerance", "doji_threshold", ...DEDUP],
+  IPDA: ["min_confidence", ...ATR_EXITS, "liquidity_tolerance", "doji_threshold", ...DEDUP],
+  ICT_Quarterly_Bias: ["min_confidence", ...ATR_EXITS, "liquidity_tolerance", ...DEDUP],
+};
+
+const BASE_PARAMS: StrategyParams = {
+  enabled: true,
+  min_confidence: 0,
+  stop_atr_multiple: 1.5,
+  target_atr_multiple: 3,
+  stop_buffer_atr: 0.5,
+  target_r: 2,
+  turtle_soup_lookback: 20,
+  crt_max_range: 0.005,
+  liquidity_tolerance: 0.005,
+  doji_threshold: 0,
+  cooldown_bars: 12,
+  duplicate_tolerance: 0.001,
+};
+
+const STRATEGY_DEFAULTS: Record<StrategyName, Partial<StrategyParams>> = {
+  Bullish_Engulfing: {},
+  Bearish_Engulfing: {},
+  Turtle_Soup: {},
+  CRT_Breakout: {},
+  PD_Array_Rejection: {},
+  FVG_Return: {},
+  Order_Block: { stop_buffer_atr: 0.25 },
+  IPDA: {},
+  ICT_Quarterly_Bias: {},
+};
+
+export function defaultParams(strategy: StrategyName): StrategyParams {
+  return { ...BASE_PARAMS, ...STRATEGY_DEFAULTS[strategy] };
+}
+
+export interface StrategyConfig extends Omit<Tables<"strategy_configs">, "params"> {
+  params: Partial<StrategyParams>;
+}
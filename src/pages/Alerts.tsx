@@ -0,0 +1,290 @@
+import { AlertCircle, Trash2 } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge, type BadgeProps } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import DestinationForm from "@/components/alerts/DestinationForm";
+import RuleForm from "@/components/alerts/RuleForm";
+import AppHeader from "@/components/layout/AppHeader";
+import {
+  useAlertDeliveries,
+  useAlertDestinations,
+  useAlertRules,
+  useCreateAlertDestination,
+  useCreateAlertRule,
+  useDeleteAlertDestination,
+  useDeleteAlertRule,
+  useTestAlertDestination,
+  useUpdateAlertDestination,
+  useUpdateAlertRule,
+} from "@/hooks/use-alerts";
+import { useToast } from "@/hooks/use-toast";
+import { useWatchlist } from "@/hooks/use-watchlist";
+import { CHANNEL_LABELS, type AlertRule, type DeliveryStatus } from "@/lib/alerts";
+import { SESSION_LABELS, type SessionName } from "@/lib/market";
+
+const STATUS_VARIANTS: Record<DeliveryStatus, BadgeProps["variant"]> = {
+  pending: "outline",
+  delivered: "secondary",
+  retrying: "default",
+  failed: "destructive",
+};
+
+const describeRule = (rule: AlertRule) =>
+  [
+    rule.asset ?? "Any asset",
+    rule.strategy?.replace(/_/g, " ") ?? "any strategy",
+    rule.min_confidence > 0 && `≥ ${Math.round(rule.min_confidence * 100)}% confidence`,
+    rule.sessions.length > 0 &&
+      rule.sessions.map((session) => SESSION_LABELS[session as SessionName] ?? session).join(", "),
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+const Alerts = () => {
+  const { data: watchlist } = useWatchlist();
+  const { data: destinations, isPending: destinationsPending } = useAlertDestinations();
+  const { data: rules, isPending: rulesPending } = useAlertRules();
+  const { data: deliveries, isPending: deliveriesPending, isError, error } = useAlertDeliveries();
+  const createDestination = useCreateAlertDestination();
+  const updateDestination = useUpdateAlertDestination();
+  const deleteDestination = useDeleteAlertDestination();
+  const testDestination = useTestAlertDestination();
+  const createRule = useCreateAlertRule();
+  const updateRule = useUpdateAlertRule();
+  const deleteRule = useDeleteAlertRule();
+  const { toast } = useToast();
+
+  const destinationNames = new Map(destinations?.map((item) => [item.id, item.name]));
+
+  const onMutationError = (title: string) => (error: Error) =>
+    toast({ title, description: error.message, variant: "destructive" });
+
+  const sendTest = (id: string) =>
+    testDestination.mutate(id, {
+      onSuccess: (delivery) =>
+        delivery.status === "delivered"
+          ? toast({ title: "Test alert sent", description: delivery.payload.title })
+          : toast({
+              title: "Test alert failed",
+              description: delivery.last_error ?? "The destination did not accept the message.",
+              variant: "destructive",
+            }),
+      onError: onMutationError("Could not send test alert"),
+    });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader />
+
+      <main className="container space-y-6 py-6">
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Destinations</CardTitle>
+              <CardDescription>Where alerts are sent. Disabled destinations keep their rules.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {destinationsPending ? (
+                <Skeleton className="h-24 w-full" />
+              ) : destinations?.length ? (
+                <ul className="divide-y">
+                  {destinations.map((destination) => (
+                    <li key={destination.id} className="flex items-center justify-between gap-4 py-2 text-sm">
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          checked={destination.enabled}
+                          onCheckedChange={(enabled) =>
+                            updateDestination.mutate(
+                              { id: destination.id, enabled },
+                              { onError: onMutationError("Could not update destination") }
+                            )
+                          }
+                          aria-label={`Enable ${destination.name}`}
+                        />
+                        <span className="font-medium">{destination.name}</span>
+                        <Badge variant="outline">{CHANNEL_LABELS[destination.channel]}</Badge>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => sendTest(destination.id)}
+                          disabled={testDestination.isPending}
+                        >
+                          {testDestination.isPending && testDestination.variables === destination.id
+                            ? "Sending..."
+                            : "Send test"}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() =>
+                            deleteDestination.mutate(destination.id, {
+                              onError: onMutationError("Could not delete destination"),
+                            })
+                          }
+                          aria-label={`Delete ${destination.name}`}
+                        >
+                          <Trash2 />
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-muted-foreground">No destinations yet.</p>
+              )}
+              <Separator />
+              <DestinationForm
+                isSubmitting={createDestination.isPending}
+                onSubmit={(destination) =>
+                  createDestination.mutate(destination, {
+                    onError: onMutationError("Could not add destination"),
+                  })
+                }
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Rules</CardTitle>
+              <CardDescription>
+                Each new signal matching a rule is sent to its destination once.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {rulesPending ? (
+                <Skeleton className="h-24 w-full" />
+              ) : rules?.length ? (
+                <ul className="divide-y">
+                  {rules.map((rule) => (
+                    <li key={rule.id} className="flex items-center justify-between gap-4 py-2 text-sm">
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          checked={rule.enabled}
+                          onCheckedChange={(enabled) =>
+                            updateRule.mutate(
+                              { id: rule.id, enabled },
+                              { onError: onMutationError("Could not update rule") }
+                            )
+                          }
+                          aria-label={`Enable ${rule.name}`}
+                        />
+                        <div>
+                          <div className="font-medium">
+                            {rule.name} → {destinationNames.get(rule.destination_id) ?? "unknown"}
+                          </div>
+                          <div className="text-xs text-muted-foreground">{describeRule(rule)}</div>
+                        </div>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() =>
+                          deleteRule.mutate(rule.id, { onError: onMutationError("Could not delete rule") })
+                        }
+                        aria-label={`Delete ${rule.name}`}
+                      >
+                        <Trash2 />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-muted-foreground">No rules yet.</p>
+              )}
+              <Separator />
+              <RuleForm
+                assets={watchlist ?? []}
+                destinations={destinations ?? []}
+                isSubmitting={createRule.isPending}
+                onSubmit={(rule) =>
+                  createRule.mutate(rule, { onError: onMutationError("Could not add rule") })
+                }
+              />
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Delivery log</CardTitle>
+            <CardDescription>
+              Failed sends are retried with backoff by the pipeline, up to five attempts.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isError ? (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Could not load deliveries</AlertTitle>
+                <AlertDescription>{error.message}</AlertDescription>
+              </Alert>
+            ) : deliveriesPending ? (
+              <Skeleton className="h-48 w-full" />
+            ) : deliveries?.length ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Created</TableHead>
+                    <TableHead>Destination</TableHead>
+                    <TableHead>Message</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Attempts</TableHead>
+                    <TableHead>Detail</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {deliveries.map((delivery) => (
+                    <TableRow key={delivery.id}>
+                      <TableCell>
+                        {delivery.created_at && new Date(delivery.created_at).toLocaleString()}
+                      </TableCell>
+                      <TableCell>{destinationNames.get(delivery.destination_id) ?? "—"}</TableCell>
+                      <TableCell>
+                        {delivery.payload.title}
+                        {delivery.is_test && (
+                          <Badge variant="outline" className="ml-2">
+                            Test
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[delivery.status] ?? "outline"} className="capitalize">
+                          {delivery.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">{delivery.attempts}</TableCell>
+                      <TableCell className="max-w-xs truncate text-muted-foreground" title={delivery.last_error ?? undefined}>
+                        {delivery.status === "retrying" && delivery.next_attempt_at
+                          ? `Retry at ${new Date(delivery.next_attempt_at).toLocaleTimeString()}: ${delivery.last_error}`
+                          : delivery.last_error ?? (delivery.response_status ? `HTTP ${delivery.response_status}` : "")}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-muted-foreground">No alerts sent yet.</p>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Alerts;
@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { AlertCircle } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import AppHeader from "@/components/layout/AppHeader";
+import BacktestForm from "@/components/backtest/BacktestForm";
+import EquityChart from "@/components/backtest/EquityChart";
+import StrategyBreakdown from "@/components/backtest/StrategyBreakdown";
+import TradeTable from "@/components/backtest/TradeTable";
+import { useBacktestRun, useBacktestRuns, useRunBacktest } from "@/hooks/use-backtests";
+import { useWatchlist } from "@/hooks/use-watchlist";
+import { formatPercent, formatR, type BacktestRun } from "@/lib/backtest";
+import { cn } from "@/lib/utils";
+
+const formatDay = (value: string) => new Date(value).toLocaleDateString();
+
+const StatCard = ({ label, value }: { label: string; value: string }) => (
+  <Card>
+    <CardHeader className="pb-2">
+      <CardDescription>{label}</CardDescription>
+      <CardTitle className="text-2xl tabular-nums">{value}</CardTitle>
+    </CardHeader>
+  </Card>
+);
+
+const BacktestResults = ({ run }: { run: BacktestRun }) => (
+  <div className="space-y-4">
+    <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+      <StatCard label="Closed trades" value={String(run.summary.trades)} />
+      <StatCard label="Win rate" value={formatPercent(run.summary.win_rate)} />
+      <StatCard label="Expectancy" value={formatR(run.summary.expectancy)} />
+      <StatCard label="Max drawdown" value={formatR(-run.summary.max_drawdown)} />
+    </div>
+
+    <div className="grid gap-4 lg:grid-cols-2">
+      <Card>
+        <CardHeader>
+          <CardTitle>Equity curve</CardTitle>
+          <CardDescription>Cumulative result in R over {run.bars_tested} bars</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <EquityChart points={run.equity_curve} dataKey="equity" className="w-full" />
+        </CardContent>
+      </Card>
+      <Card>
+        <CardHeader>
+          <CardTitle>Drawdown</CardTitle>
+          <CardDescription>Distance below the running equity peak</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <EquityChart points={run.equity_curve} dataKey="drawdown" className="w-full" />
+        </CardContent>
+      </Card>
+    </div>
+
+    <Card>
+      <CardHeader>
+        <CardTitle>Per-strategy breakdown</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <StrategyBreakdown summary={run.summary} strategies={run.strategy_stats} />
+      </CardContent>
+    </Card>
+
+    <Card>
+      <CardHeader>
+        <CardTitle>Trades</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <TradeTable trades={run.trades} />
+      </CardContent>
+    </Card>
+  </div>
+);
+
+const Backtests = () => {
+  const { data: watchlist } = useWatchlist();
+  const { data: runs, isPending: runsPending } = useBacktestRuns();
+  const [selectedId, setSelectedId] = useState<string>();
+  const runBacktest = useRunBacktest();
+
+  const activeId = selectedId ?? runs?.[0]?.id;
+  const { data: run, isFetching: runFetching, isError, error } = useBacktestRun(activeId);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader />
+
+      <main className="container grid gap-6 py-6 lg:grid-cols-[22rem_1fr]">
+        <div className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>New backtest</CardTitle>
+              <CardDescription>Replay stored candles through the entry strategies.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <BacktestForm
+                assets={watchlist ?? []}
+                isSubmitting={runBacktest.isPending}
+                onSubmit={(request) =>
+                  runBacktest.mutate(request, { onSuccess: (result) => setSelectedId(result.id) })
+                }
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Previous runs</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              {runsPending ? (
+                <Skeleton className="h-24 w-full" />
+              ) : runs?.length ? (
+                runs.map((item) => (
+                  <button
+                    key={item.id}
+                    type="button"
+                    onClick={() => setSelectedId(item.id)}
+                    className={cn(
+                      "w-full rounded-md px-3 py-2 text-left text-sm transition-colors hover:bg-muted",
+                      item.id === activeId && "bg-muted"
+                    )}
+                  >
+                    <div className="flex justify-between font-medium">
+                      <span>
+                        {item.asset} · {item.timeframe}
+                      </span>
+                      <span className="tabular-nums">{formatR(item.summary.total_r)}</span>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {formatDay(item.range_start)} – {formatDay(item.range_end)} ·{" "}
+                      {item.summary.trades} trades
+                    </div>
+                  </button>
+                ))
+              ) : (
+                <p className="text-sm text-muted-foreground">No backtests yet.</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="min-w-0 space-y-4">
+          {runBacktest.isError && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Backtest failed</AlertTitle>
+              <AlertDescription>{runBacktest.error.message}</AlertDescription>
+            </Alert>
+          )}
+          {isError ? (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Could not load backtest</AlertTitle>
+              <AlertDescription>{error.message}</AlertDescription>
+            </Alert>
+          ) : run ? (
+            <BacktestResults run={run} />
+          ) : runFetching || runBacktest.isPending ? (
+            <Skeleton className="h-96 w-full" />
+          ) : (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>No backtest selected</AlertTitle>
+              <AlertDescription>Run a backtest or pick a previous run to see its results.</AlertDescription>
+            </Alert>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Backtests;
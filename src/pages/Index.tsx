@@ -1,12 +1,202 @@
-// Update this page (the content is just a fallback if you fail to update the page)
+import { useMemo, useState } from "react";
+import { AlertCircle, RefreshCw } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import AppHeader from "@/components/layout/AppHeader";
+import CandlestickChart from "@/components/dashboard/CandlestickChart";
+import OverlayLegend from "@/components/dashboard/OverlayLegend";
+import SignalList from "@/components/dashboard/SignalList";
+import { OVERLAY_KEYS, type OverlayKey } from "@/components/dashboard/overlays";
+import { isAdmin, useAuth } from "@/hooks/use-auth";
+import { useIngestMarketData, useLiveMarketData, useMarketData } from "@/hooks/use-market-data";
+import { useTradeSignalFeed, useTradeSignals } from "@/hooks/use-trade-signals";
+import { useWatchlist } from "@/hooks/use-watchlist";
+import {
+  OPEN_SIGNAL_STATUSES,
+  TIMEFRAME_LABELS,
+  TIMEFRAMES,
+  formatPrice,
+  type Timeframe,
+} from "@/lib/market";
+
+const CHART_SIGNALS = 3;
 
 const Index = () => {
+  const { data: watchlist, isError: watchlistFailed } = useWatchlist();
+  const [selectedAsset, setSelectedAsset] = useState<string>();
+  const asset = selectedAsset ?? watchlist?.[0]?.asset ?? "";
+  const [timeframe, setTimeframe] = useState<Timeframe>("5min");
+  const { data: candles, isPending, isError, error, isFetching, dataUpdatedAt, refetch } =
+    useMarketData(asset, timeframe);
+  const { data: signals } = useTradeSignals(asset);
+  useLiveMarketData(asset, timeframe);
+  useTradeSignalFeed();
+  const ingest = useIngestMarketData();
+  const { user } = useAuth();
+  const [overlays, setOverlays] = useState<OverlayKey[]>(OVERLAY_KEYS);
+
+  const zones = useMemo(
+    () => signals?.find((signal) => signal.zones.length > 0)?.zones ?? [],
+    [signals]
+  );
+  const chartSignals = useMemo(
+    () =>
+      signals
+        ?.filter((signal) => OPEN_SIGNAL_STATUSES.includes(signal.status))
+        .slice(0, CHART_SIGNALS) ?? [],
+    [signals]
+  );
+
+  const last = candles?.[candles.length - 1];
+  const first = candles?.[0];
+  const change = last && first ? ((last.close - first.open) / first.open) * 100 : 0;
+
   return (
-    <div className="min-h-screen flex items-center justify-center bg-gray-100">
-      <div className="text-center">
-        <h1 className="text-4xl font-bold mb-4">Welcome to Your Blank App</h1>
-        <p className="text-xl text-gray-600">Start building your amazing project here!</p>
-      </div>
+    <div className="min-h-screen bg-background">
+      <AppHeader>
+        {watchlist ? (
+          <Tabs value={asset} onValueChange={setSelectedAsset}>
+            <TabsList>
+              {watchlist.map((item) => (
+                <TabsTrigger key={item.asset} value={item.asset}>
+                  {item.asset}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        ) : (
+          <Skeleton className="h-10 w-48" />
+        )}
+        <Select value={timeframe} onValueChange={(value) => setTimeframe(value as Timeframe)}>
+          <SelectTrigger className="w-28" aria-label="Timeframe">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TIMEFRAMES.map((item) => (
+              <SelectItem key={item} value={item}>
+                {item}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => refetch()}
+          disabled={isFetching}
+          aria-label="Refresh chart"
+        >
+          <RefreshCw className={isFetching ? "animate-spin" : undefined} />
+        </Button>
+        {/* Ingestion spends the shared vendor quota, so only admins start it */}
+        {isAdmin(user) && (
+          <Button onClick={() => ingest.mutate()} disabled={ingest.isPending}>
+            {ingest.isPending ? "Fetching..." : "Fetch latest"}
+          </Button>
+        )}
+      </AppHeader>
+
+      <main className="container space-y-4 py-6">
+        {watchlistFailed && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Could not load watchlist</AlertTitle>
+            <AlertDescription>The asset list is unavailable, try refreshing the page.</AlertDescription>
+          </Alert>
+        )}
+
+        {ingest.isError && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Market data update failed</AlertTitle>
+            <AlertDescription>{ingest.error.message}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>{asset}</CardTitle>
+              <CardDescription>
+                {TIMEFRAME_LABELS[timeframe]} candles
+                {dataUpdatedAt > 0 && ` · updated ${new Date(dataUpdatedAt).toLocaleTimeString()}`}
+              </CardDescription>
+            </div>
+            {last && (
+              <div className="text-right">
+                <div className="font-mono text-2xl font-semibold tabular-nums">
+                  {formatPrice(last.close)}
+                </div>
+                <Badge variant={change >= 0 ? "secondary" : "destructive"}>
+                  {change >= 0 ? "+" : ""}
+                  {change.toFixed(2)}%
+                </Badge>
+              </div>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <OverlayLegend visible={overlays} onChange={setOverlays} />
+            {watchlist?.length === 0 ? (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Watchlist is empty</AlertTitle>
+                <AlertDescription>
+                  Add an asset to the watchlist table to start charting it.
+                </AlertDescription>
+              </Alert>
+            ) : isPending ? (
+              <Skeleton className="aspect-video w-full" />
+            ) : isError ? (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Could not load market data</AlertTitle>
+                <AlertDescription>{error.message}</AlertDescription>
+              </Alert>
+            ) : candles && candles.length > 0 ? (
+              <CandlestickChart
+                candles={candles}
+                timeframe={timeframe}
+                zones={zones}
+                signals={chartSignals}
+                visible={overlays}
+                className="w-full"
+              />
+            ) : (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>No candles yet</AlertTitle>
+                <AlertDescription>
+                  No market data is stored for {asset} yet. It arrives with the next scheduled pipeline run.
+                </AlertDescription>
+              </Alert>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent signals</CardTitle>
+            <CardDescription>
+              The latest {CHART_SIGNALS} open signals are drawn on the chart with entry, stop loss and
+              take profit.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {signals ? <SignalList signals={signals} /> : <Skeleton className="h-24 w-full" />}
+          </CardContent>
+        </Card>
+      </main>
     </div>
   );
 };
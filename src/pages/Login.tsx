@@ -0,0 +1,50 @@
+import { Link, Navigate, useLocation, type Location } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import CredentialsForm from "@/components/auth/CredentialsForm";
+import { useAuth, useSignIn } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+const Login = () => {
+  const { session } = useAuth();
+  const signIn = useSignIn();
+  const location = useLocation();
+  const { toast } = useToast();
+
+  // Set by ProtectedRoute when it sent the user here
+  const from = (location.state as { from?: Location } | null)?.from?.pathname ?? "/";
+
+  if (session) {
+    return <Navigate to={from} replace />;
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle>Sign in to Signal Stride</CardTitle>
+          <CardDescription>Your watchlist, signals and configs are only visible to you.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <CredentialsForm
+            mode="sign-in"
+            isSubmitting={signIn.isPending}
+            onSubmit={(credentials) =>
+              signIn.mutate(credentials, {
+                onError: (error) =>
+                  toast({ title: "Could not sign in", description: error.message, variant: "destructive" }),
+              })
+            }
+          />
+          <p className="text-center text-sm text-muted-foreground">
+            No account yet?{" "}
+            <Link to="/signup" state={location.state} className="font-medium text-foreground underline">
+              Sign up
+            </Link>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Login;
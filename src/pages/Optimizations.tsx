@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { AlertCircle } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import AppHeader from "@/components/layout/AppHeader";
+import CandidateTable from "@/components/optimization/CandidateTable";
+import OptimizationForm from "@/components/optimization/OptimizationForm";
+import {
+  useOptimizationRun,
+  useOptimizationRuns,
+  usePromoteCandidate,
+  useRunOptimization,
+} from "@/hooks/use-optimizations";
+import { useToast } from "@/hooks/use-toast";
+import { useWatchlist } from "@/hooks/use-watchlist";
+import { formatScore, OBJECTIVE_LABELS, type OptimizationRun } from "@/lib/optimization";
+import { cn } from "@/lib/utils";
+
+const formatDay = (value: string) => new Date(value).toLocaleDateString();
+
+const OptimizationResults = ({ run }: { run: OptimizationRun }) => {
+  const promote = usePromoteCandidate();
+  const { toast } = useToast();
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center gap-2">
+            <CardTitle>
+              {run.strategy.replace(/_/g, " ")} on {run.asset} · {run.timeframe}
+            </CardTitle>
+            {run.promoted_config_id && <Badge variant="secondary">Promoted</Badge>}
+          </div>
+          <CardDescription>
+            {run.mode === "grid" ? "Grid" : "Random"} search ranked by {OBJECTIVE_LABELS[run.objective].toLowerCase()}{" "}
+            over {run.bars_tested} bars, {formatDay(run.range_start)} – {formatDay(run.range_end)}.
+            Unswept parameters come from{" "}
+            {run.base_config_version === null ? "the defaults" : `config version ${run.base_config_version}`}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <CandidateTable
+            candidates={run.candidates}
+            objective={run.objective}
+            minTrades={run.params.min_trades}
+            isPromoting={promote.isPending}
+            onPromote={(candidate) =>
+              promote.mutate(
+                { run, candidate },
+                {
+                  onSuccess: (config) =>
+                    toast({
+                      title: "Parameters promoted",
+                      description: `${run.strategy.replace(/_/g, " ")} on ${run.asset} is now on version ${config.version}.`,
+                    }),
+                  onError: (error) =>
+                    toast({
+                      title: "Could not promote parameters",
+                      description: error.message,
+                      variant: "destructive",
+                    }),
+                }
+              )
+            }
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Walk-forward</CardTitle>
+          <CardDescription>
+            Each fold picks the best set on the data up to its split and scores it on the segment
+            that follows. Sets whose out-of-sample expectancy falls below half the in-sample one are
+            flagged as overfit.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>In sample</TableHead>
+                <TableHead>Out of sample</TableHead>
+                <TableHead className="text-right">Picked</TableHead>
+                <TableHead className="text-right">In-sample score</TableHead>
+                <TableHead className="text-right">Out-of-sample score</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {run.walk_forward.map((fold) => (
+                <TableRow key={fold.in_sample_end}>
+                  <TableCell>
+                    {formatDay(fold.in_sample_start)} – {formatDay(fold.in_sample_end)}
+                  </TableCell>
+                  <TableCell>
+                    {formatDay(fold.in_sample_end)} – {formatDay(fold.out_of_sample_end)}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">#{fold.selected_rank}</TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {formatScore(run.objective, fold.in_sample_score)}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {formatScore(run.objective, fold.out_of_sample_score)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+const Optimizations = () => {
+  const { data: watchlist } = useWatchlist();
+  const { data: runs, isPending: runsPending } = useOptimizationRuns();
+  const [selectedId, setSelectedId] = useState<string>();
+  const runOptimization = useRunOptimization();
+
+  const activeId = selectedId ?? runs?.[0]?.id;
+  const { data: run, isFetching: runFetching, isError, error } = useOptimizationRun(activeId);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader />
+
+      <main className="container grid gap-6 py-6 lg:grid-cols-[26rem_1fr]">
+        <div className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>New optimisation</CardTitle>
+              <CardDescription>Sweep one strategy's parameters over stored candles.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <OptimizationForm
+                assets={watchlist ?? []}
+                isSubmitting={runOptimization.isPending}
+                onSubmit={(request) =>
+                  runOptimization.mutate(request, { onSuccess: (result) => setSelectedId(result.id) })
+                }
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Previous runs</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              {runsPending ? (
+                <Skeleton className="h-24 w-full" />
+              ) : runs?.length ? (
+                runs.map((item) => (
+                  <button
+                    key={item.id}
+                    type="button"
+                    onClick={() => setSelectedId(item.id)}
+                    className={cn(
+                      "w-full rounded-md px-3 py-2 text-left text-sm transition-colors hover:bg-muted",
+                      item.id === activeId && "bg-muted"
+                    )}
+                  >
+                    <div className="flex justify-between font-medium">
+                      <span>
+                        {item.strategy.replace(/_/g, " ")} · {item.asset}
+                      </span>
+                      <span className="tabular-nums">
+                        {formatScore(item.objective, item.best?.score ?? null)}
+                      </span>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {formatDay(item.range_start)} – {formatDay(item.range_end)} ·{" "}
+                      {OBJECTIVE_LABELS[item.objective]}
+                      {item.promoted_config_id && " · promoted"}
+                    </div>
+                  </button>
+                ))
+              ) : (
+                <p className="text-sm text-muted-foreground">No optimisations yet.</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="min-w-0 space-y-4">
+          {runOptimization.isError && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Optimisation failed</AlertTitle>
+              <AlertDescription>{runOptimization.error.message}</AlertDescription>
+            </Alert>
+          )}
+          {isError ? (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Could not load optimisation</AlertTitle>
+              <AlertDescription>{error.message}</AlertDescription>
+            </Alert>
+          ) : run ? (
+            <OptimizationResults run={run} />
+          ) : runFetching || runOptimization.isPending ? (
+            <Skeleton className="h-96 w-full" />
+          ) : (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>No optimisation selected</AlertTitle>
+              <AlertDescription>Run an optimisation or pick a previous run to see its results.</AlertDescription>
+            </Alert>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Optimizations;
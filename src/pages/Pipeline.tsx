@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { AlertCircle } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge, type BadgeProps } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import AppHeader from "@/components/layout/AppHeader";
+import { isAdmin, useAuth } from "@/hooks/use-auth";
+import { usePipelineRuns, useRunPipeline } from "@/hooks/use-pipeline-runs";
+import { useToast } from "@/hooks/use-toast";
+import {
+  STEP_LABELS,
+  formatDuration,
+  type PipelineRun,
+  type PipelineStatus,
+} from "@/lib/pipeline";
+import { cn } from "@/lib/utils";
+
+const STATUS_VARIANTS: Record<PipelineStatus, BadgeProps["variant"]> = {
+  running: "outline",
+  succeeded: "secondary",
+  partial: "default",
+  failed: "destructive",
+  skipped: "outline",
+};
+
+const formatCounts = (counts: Record<string, number>) =>
+  Object.entries(counts)
+    .map(([name, value]) => `${value} ${name.replace(/_/g, " ")}`)
+    .join(" · ");
+
+const StatusBadge = ({ status }: { status: PipelineStatus }) => (
+  <Badge variant={STATUS_VARIANTS[status] ?? "outline"} className="capitalize">
+    {status}
+  </Badge>
+);
+
+const RunDetails = ({ run }: { run: PipelineRun }) => (
+  <Card>
+    <CardHeader>
+      <div className="flex flex-wrap items-center gap-2">
+        <CardTitle>Run {new Date(run.started_at).toLocaleString()}</CardTitle>
+        <StatusBadge status={run.status} />
+      </div>
+      <CardDescription>
+        {run.trigger === "schedule" ? "Scheduled" : "Manual"} run on {run.timeframe} candles with{" "}
+        {run.bias_timeframe} bias
+        {run.assets_updated.length > 0
+          ? `; new data for ${run.assets_updated.join(", ")}.`
+          : "; no asset had new data."}
+      </CardDescription>
+    </CardHeader>
+    <CardContent className="space-y-4">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Step</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="text-right">Duration</TableHead>
+            <TableHead>Counts</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {run.steps.map((step) => (
+            <TableRow key={step.name}>
+              <TableCell className="font-medium">{STEP_LABELS[step.name]}</TableCell>
+              <TableCell>
+                <StatusBadge status={step.status} />
+              </TableCell>
+              <TableCell className="text-right tabular-nums">
+                {step.status === "skipped" ? "—" : formatDuration(step.duration_ms)}
+              </TableCell>
+              <TableCell className="text-muted-foreground">{formatCounts(step.counts)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {run.errors.length > 0 && (
+        <Alert variant={run.status === "skipped" ? "default" : "destructive"}>
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>
+            {run.errors.length} {run.errors.length === 1 ? "problem" : "problems"}
+          </AlertTitle>
+          <AlertDescription>
+            <ul className="space-y-1">
+              {run.errors.map((error, index) => (
+                <li key={index}>
+                  <span className="font-medium">
+                    {STEP_LABELS[error.step]}
+                    {error.asset && ` · ${error.asset}`}:
+                  </span>{" "}
+                  {error.message}
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+    </CardContent>
+  </Card>
+);
+
+const Pipeline = () => {
+  const { data: runs, isPending, isError, error } = usePipelineRuns();
+  const [selectedId, setSelectedId] = useState<string>();
+  const runPipeline = useRunPipeline();
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const selected = runs?.find((run) => run.id === selectedId) ?? runs?.[0];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader>
+        {/* Only admins may start a run; the schedule covers everyone else */}
+        {isAdmin(user) && (
+          <Button
+            onClick={() =>
+              runPipeline.mutate(undefined, {
+                onSuccess: (run) => {
+                  setSelectedId(run.id);
+                  toast({
+                    title: `Pipeline ${run.status}`,
+                    description: `${run.candles_ingested} candles, ${run.signals_generated} new signals, ${run.signals_resolved} signals updated.`,
+                    variant: run.status === "failed" ? "destructive" : "default",
+                  });
+                },
+                onError: (error) =>
+                  toast({
+                    title: "Pipeline could not run",
+                    description: error.message,
+                    variant: "destructive",
+                  }),
+              })
+            }
+            disabled={runPipeline.isPending}
+          >
+            {runPipeline.isPending ? "Running..." : "Run now"}
+          </Button>
+        )}
+      </AppHeader>
+
+      <main className="container space-y-4 py-6">
+        {isError && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Could not load pipeline runs</AlertTitle>
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Pipeline runs</CardTitle>
+            <CardDescription>
+              Each run ingests the latest candles, analyses the assets that received new ones and
+              resolves their open signals. Scheduled runs start every five minutes.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isPending ? (
+              <Skeleton className="h-48 w-full" />
+            ) : runs?.length ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Trigger</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Duration</TableHead>
+                    <TableHead>Assets updated</TableHead>
+                    <TableHead className="text-right">Candles</TableHead>
+                    <TableHead className="text-right">New signals</TableHead>
+                    <TableHead className="text-right">Resolved</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {runs.map((run) => (
+                    <TableRow
+                      key={run.id}
+                      onClick={() => setSelectedId(run.id)}
+                      className={cn("cursor-pointer", run.id === selected?.id && "bg-muted")}
+                    >
+                      <TableCell>{new Date(run.started_at).toLocaleString()}</TableCell>
+                      <TableCell className="capitalize">{run.trigger}</TableCell>
+                      <TableCell>
+                        <StatusBadge status={run.status} />
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {formatDuration(run.duration_ms)}
+                      </TableCell>
+                      <TableCell>{run.assets_updated.join(", ") || "—"}</TableCell>
+                      <TableCell className="text-right tabular-nums">{run.candles_ingested}</TableCell>
+                      <TableCell className="text-right tabular-nums">{run.signals_generated}</TableCell>
+                      <TableCell className="text-right tabular-nums">{run.signals_resolved}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-muted-foreground">No pipeline runs yet.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {selected && <RunDetails run={selected} />}
+      </main>
+    </div>
+  );
+};
+
+export default Pipeline;
@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { AlertCircle } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import AppHeader from "@/components/layout/AppHeader";
+import StrategyConfigCard from "@/components/settings/StrategyConfigCard";
+import { useSaveStrategyConfig, useStrategyConfigs } from "@/hooks/use-strategy-configs";
+import { useToast } from "@/hooks/use-toast";
+import { useWatchlist } from "@/hooks/use-watchlist";
+import { STRATEGY_NAMES } from "@/lib/strategy-config";
+
+// Select value standing in for the all-assets scope (asset null)
+const ALL_ASSETS = "__all__";
+
+const Settings = () => {
+  const { data: watchlist } = useWatchlist();
+  const [scope, setScope] = useState(ALL_ASSETS);
+  const asset = scope === ALL_ASSETS ? null : scope;
+  const { data: configs, isPending, isError, error } = useStrategyConfigs(asset);
+  const saveConfig = useSaveStrategyConfig();
+  const { toast } = useToast();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader>
+        <Select value={scope} onValueChange={setScope}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_ASSETS}>All assets</SelectItem>
+            {watchlist?.map((item) => (
+              <SelectItem key={item.asset} value={item.asset}>
+                {item.asset}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </AppHeader>
+
+      <main className="container space-y-4 py-6">
+        <div>
+          <h2 className="text-xl font-semibold">Strategy parameters</h2>
+          <p className="text-sm text-muted-foreground">
+            {asset
+              ? `Overrides for ${asset}. Strategies without one use the all-assets settings.`
+              : "Settings used for every asset that has no override of its own."}
+          </p>
+        </div>
+
+        {isError ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Could not load strategy settings</AlertTitle>
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        ) : isPending ? (
+          <Skeleton className="h-96 w-full" />
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+            {STRATEGY_NAMES.map((strategy) => (
+              <StrategyConfigCard
+                key={`${scope}-${strategy}`}
+                strategy={strategy}
+                config={configs.find((c) => c.strategy === strategy && c.asset === asset)}
+                fallback={asset ? configs.find((c) => c.strategy === strategy && c.asset === null) : undefined}
+                isSaving={saveConfig.isPending && saveConfig.variables?.strategy === strategy}
+                onSave={(params) =>
+                  saveConfig.mutate(
+                    { strategy, asset, params },
+                    {
+                      onSuccess: (saved) =>
+                        toast({
+                          title: "Settings saved",
+                          description: `${strategy.replace(/_/g, " ")} is now on version ${saved.version}.`,
+                        }),
+                      onError: (saveError) =>
+                        toast({
+                          title: "Could not save settings",
+                          description: saveError.message,
+                          variant: "destructive",
+                        }),
+                    }
+                  )
+                }
+              />
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,65 @@
+import { useState } from "react";
+import { MailCheck } from "lucide-react";
+import { Link, Navigate, useLocation, type Location } from "react-router-dom";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import CredentialsForm from "@/components/auth/CredentialsForm";
+import { useAuth, useSignUp } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+const SignUp = () => {
+  const { session } = useAuth();
+  const signUp = useSignUp();
+  const location = useLocation();
+  const { toast } = useToast();
+  const [confirmEmail, setConfirmEmail] = useState<string | null>(null);
+
+  const from = (location.state as { from?: Location } | null)?.from?.pathname ?? "/";
+
+  if (session) {
+    return <Navigate to={from} replace />;
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle>Create an account</CardTitle>
+          <CardDescription>New accounts start with the default watchlist.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {confirmEmail ? (
+            <Alert>
+              <MailCheck className="h-4 w-4" />
+              <AlertTitle>Check your email</AlertTitle>
+              <AlertDescription>
+                We sent a confirmation link to {confirmEmail}. Follow it, then sign in.
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <CredentialsForm
+              mode="sign-up"
+              isSubmitting={signUp.isPending}
+              onSubmit={(credentials) =>
+                signUp.mutate(credentials, {
+                  // Without a session the project wants the address confirmed first
+                  onSuccess: (next) => !next && setConfirmEmail(credentials.email),
+                  onError: (error) =>
+                    toast({ title: "Could not sign up", description: error.message, variant: "destructive" }),
+                })
+              }
+            />
+          )}
+          <p className="text-center text-sm text-muted-foreground">
+            Already have an account?{" "}
+            <Link to="/login" state={location.state} className="font-medium text-foreground underline">
+              Sign in
+            </Link>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SignUp;
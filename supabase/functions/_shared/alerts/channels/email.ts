@@ -0,0 +1,50 @@
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+import { DeliveryError, requireString, type AlertChannel } from './types.ts';
+
+// The SMTP server is shared and configured through the environment; a
+// destination only names the recipients
+function smtpSettings() {
+  const hostname = Deno.env.get('SMTP_HOST');
+  const from = Deno.env.get('SMTP_FROM');
+  if (!hostname || !from) {
+    throw new Error('Email alerts need SMTP_HOST and SMTP_FROM to be set');
+  }
+  
+  const username = Deno.env.get('SMTP_USERNAME');
+  const password = Deno.env.get('SMTP_PASSWORD');
+  
+  return {
+    from,
+    connection: {
+      hostname,
+      port: Number(Deno.env.get('SMTP_PORT') ?? 587),
+      tls: Deno.env.get('SMTP_TLS') === 'true',
+      ...(username && password ? { auth: { username, password } } : {})
+    }
+  };
+}
+
+export function createEmailChannel(config: Record<string, unknown>): AlertChannel {
+  const to = requireString(config, 'to', 'email')
+    .split(',')
+    .map(address => address.trim())
+    .filter(Boolean);
+  
+  return {
+    name: 'email',
+    async send(message) {
+      const { from, connection } = smtpSettings();
+      const client = new SMTPClient({ connection });
+      
+      try {
+        await client.send({ from, to, subject: message.title, content: message.text });
+      } catch (error) {
+        throw new DeliveryError(`SMTP delivery failed: ${error.message}`);
+      } finally {
+        await client.close().catch(() => {});
+      }
+      
+      return { status: null };
+    }
+  };
+}
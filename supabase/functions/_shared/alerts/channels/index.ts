@@ -0,0 +1,22 @@
+import { createEmailChannel } from './email.ts';
+import { createSlackChannel } from './slack.ts';
+import { createTelegramChannel } from './telegram.ts';
+import type { AlertChannel, ChannelName } from './types.ts';
+import { createWebhookChannel } from './webhook.ts';
+
+export * from './types.ts';
+
+export function createChannel(channel: ChannelName, config: Record<string, unknown>): AlertChannel {
+  switch (channel) {
+    case 'webhook':
+      return createWebhookChannel(config);
+    case 'slack':
+      return createSlackChannel(config);
+    case 'telegram':
+      return createTelegramChannel(config);
+    case 'email':
+      return createEmailChannel(config);
+    default:
+      throw new Error(`Unknown alert channel: ${channel}`);
+  }
+}
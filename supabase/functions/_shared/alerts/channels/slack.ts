@@ -0,0 +1,13 @@
+import { postJson, requireString, type AlertChannel } from './types.ts';
+
+// Slack incoming webhooks, and anything accepting the same { text } payload
+export function createSlackChannel(config: Record<string, unknown>): AlertChannel {
+  const url = requireString(config, 'url', 'slack');
+  
+  return {
+    name: 'slack',
+    send(message) {
+      return postJson(url, { text: `*${message.title}*\n${message.text}` });
+    }
+  };
+}
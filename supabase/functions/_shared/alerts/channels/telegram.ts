@@ -0,0 +1,22 @@
+import { postJson, requireString, type AlertChannel } from './types.ts';
+
+const TELEGRAM_API_URL = 'https://api.telegram.org';
+
+// Bot API sendMessage. api_url points the channel at a compatible server.
+export function createTelegramChannel(config: Record<string, unknown>): AlertChannel {
+  const token = requireString(config, 'bot_token', 'telegram');
+  const chatId = requireString(config, 'chat_id', 'telegram');
+  const apiUrl = typeof config.api_url === 'string' && config.api_url !== ''
+    ? config.api_url.replace(/\/+$/, '')
+    : TELEGRAM_API_URL;
+  
+  return {
+    name: 'telegram',
+    send(message) {
+      return postJson(`${apiUrl}/bot${token}/sendMessage`, {
+        chat_id: chatId,
+        text: `${message.title}\n${message.text}`
+      });
+    }
+  };
+}
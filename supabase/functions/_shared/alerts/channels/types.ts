@@ -0,0 +1,81 @@
+export type ChannelName = 'webhook' | 'slack' | 'telegram' | 'email';
+
+export const CHANNELS: ChannelName[] = ['webhook', 'slack', 'telegram', 'email'];
+
+// Signal fields included in every alert
+export interface AlertSignal {
+  id: string;
+  asset: string;
+  timeframe: string;
+  strategy: string | null;
+  bias: string;
+  entry_price: number;
+  stop_loss: number;
+  take_profit: number;
+  confidence: number | null;
+  session: string | null;
+  signal_time: string | null;
+}
+
+export interface AlertMessage {
+  title: string;
+  text: string;
+  // Null on test sends
+  signal: AlertSignal | null;
+  rule: { id: string; name: string } | null;
+  test: boolean;
+}
+
+export interface AlertChannel {
+  name: ChannelName;
+  // Resolves with the HTTP status where the channel has one
+  send(message: AlertMessage): Promise<{ status: number | null }>;
+}
+
+// Thrown when a destination refuses or cannot take a message. Configuration
+// problems such as a 4xx response are not worth retrying.
+export class DeliveryError extends Error {
+  constructor(message: string, public status: number | null = null, public retryable = true) {
+    super(message);
+    this.name = 'DeliveryError';
+  }
+}
+
+const SEND_TIMEOUT_MS = 10000;
+
+export async function postJson(
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {}
+): Promise<{ status: number }> {
+  const payload = typeof body === 'string' ? body : JSON.stringify(body);
+  
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: payload,
+      signal: AbortSignal.timeout(SEND_TIMEOUT_MS)
+    });
+  } catch (error) {
+    throw new DeliveryError(`Request to ${new URL(url).host} failed: ${error.message}`);
+  }
+  
+  if (!response.ok) {
+    const detail = (await response.text().catch(() => '')).slice(0, 200);
+    const retryable = response.status === 429 || response.status >= 500;
+    throw new DeliveryError(`HTTP ${response.status}${detail ? `: ${detail}` : ''}`, response.status, retryable);
+  }
+  
+  await response.body?.cancel();
+  return { status: response.status };
+}
+
+export function requireString(config: Record<string, unknown>, key: string, channel: ChannelName): string {
+  const value = config[key];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new Error(`${channel} destination needs a "${key}"`);
+  }
+  return value.trim();
+}
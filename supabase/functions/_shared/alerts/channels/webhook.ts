@@ -0,0 +1,31 @@
+import { postJson, requireString, type AlertChannel } from './types.ts';
+
+async function sign(secret: string, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body));
+  return [...new Uint8Array(signature)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Posts the whole message as JSON. With a secret, the body's HMAC-SHA256 is
+// sent in X-Signature-256 so receivers can check where it came from.
+export function createWebhookChannel(config: Record<string, unknown>): AlertChannel {
+  const url = requireString(config, 'url', 'webhook');
+  const secret = typeof config.secret === 'string' && config.secret !== '' ? config.secret : null;
+  
+  return {
+    name: 'webhook',
+    async send(message) {
+      const body = JSON.stringify({ event: message.test ? 'test' : 'signal', ...message });
+      const headers: Record<string, string> = secret
+        ? { 'X-Signature-256': `sha256=${await sign(secret, body)}` }
+        : {};
+      return postJson(url, body, headers);
+    }
+  };
+}
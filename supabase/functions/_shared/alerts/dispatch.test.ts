@@ -0,0 +1,94 @@
+import { deepStrictEqual, ok, strictEqual } from 'node:assert/strict';
+import { argsOf, fakeClient, type RecordedQuery } from '../testing.ts';
+import { MAX_ATTEMPTS, retryDueDeliveries } from './dispatch.ts';
+
+const destination = {
+  id: 'dest',
+  name: 'Desk',
+  channel: 'webhook',
+  config: { url: 'https://hooks.example.com/alerts' },
+  enabled: true
+};
+
+const payload = { title: 'EURUSD', text: '', signal: null, rule: null, test: false };
+
+function delivery(id: string, attempts: number) {
+  return { id, destination_id: destination.id, attempts, payload };
+}
+
+// Answers every webhook post with `status` while `run` is awaited
+async function withWebhookStatus<T>(status: number, run: () => Promise<T>): Promise<T> {
+  const original = globalThis.fetch;
+  globalThis.fetch = () => Promise.resolve(new Response('unavailable', { status }));
+  try {
+    return await run();
+  } finally {
+    globalThis.fetch = original;
+  }
+}
+
+// The update written for each delivery, by delivery id
+function updates(queries: RecordedQuery[]): Map<string, Record<string, unknown>> {
+  return new Map(
+    queries
+      .filter(query => query.table === 'alert_deliveries' && argsOf(query, 'update'))
+      .map(query => [argsOf(query, 'eq')![1] as string, argsOf(query, 'update')![0] as Record<string, unknown>])
+  );
+}
+
+function minutesUntil(update: Record<string, unknown>, from: number): number {
+  return Math.round((new Date(update.next_attempt_at as string).getTime() - from) / 60_000);
+}
+
+Deno.test('retryDueDeliveries backs off retryable failures and gives up after MAX_ATTEMPTS', async () => {
+  const { client, queries } = fakeClient({
+    alert_deliveries: [
+      {
+        data: [delivery('first', 0), delivery('second', 1), delivery('fourth', 3), delivery('last', MAX_ATTEMPTS - 1)],
+        error: null
+      }
+    ],
+    alert_destinations: [{ data: [destination], error: null }]
+  });
+  const start = Date.now();
+  
+  const summary = await withWebhookStatus(503, () => retryDueDeliveries(client));
+  
+  deepStrictEqual(summary, { delivered: 0, retrying: 3, failed: 1 });
+  const written = updates(queries);
+  strictEqual(written.get('first')!.attempts, 1);
+  strictEqual(minutesUntil(written.get('first')!, start), 1);
+  strictEqual(minutesUntil(written.get('second')!, start), 5);
+  strictEqual(minutesUntil(written.get('fourth')!, start), 60);
+  strictEqual(written.get('last')!.status, 'failed');
+  strictEqual(written.get('last')!.attempts, MAX_ATTEMPTS);
+  strictEqual(written.get('last')!.next_attempt_at, null);
+  strictEqual(written.get('last')!.response_status, 503);
+});
+
+Deno.test('retryDueDeliveries does not retry a refused delivery', async () => {
+  const { client, queries } = fakeClient({
+    alert_deliveries: [{ data: [delivery('refused', 0)], error: null }],
+    alert_destinations: [{ data: [destination], error: null }]
+  });
+  
+  const summary = await withWebhookStatus(400, () => retryDueDeliveries(client));
+  
+  deepStrictEqual(summary, { delivered: 0, retrying: 0, failed: 1 });
+  const written = updates(queries).get('refused')!;
+  strictEqual(written.status, 'failed');
+  strictEqual(written.next_attempt_at, null);
+  ok(String(written.last_error).startsWith('HTTP 400'));
+});
+
+Deno.test('retryDueDeliveries fails deliveries whose destination is gone', async () => {
+  const { client, queries } = fakeClient({
+    alert_deliveries: [{ data: [delivery('orphan', 0)], error: null }],
+    alert_destinations: [{ data: [], error: null }]
+  });
+  
+  const summary = await retryDueDeliveries(client);
+  
+  deepStrictEqual(summary, { delivered: 0, retrying: 0, failed: 1 });
+  strictEqual(updates(queries).get('orphan')!.last_error, 'Destination no longer exists');
+});
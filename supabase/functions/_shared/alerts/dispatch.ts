@@ -0,0 +1,278 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.8';
+import {
+  createChannel,
+  DeliveryError,
+  type AlertMessage,
+  type AlertSignal,
+  type ChannelName
+} from './channels/index.ts';
+import { strategyFamily } from '../strategy-config.ts';
+
+export type DeliveryStatus = 'pending' | 'delivered' | 'retrying' | 'failed';
+
+// A delivery is given up after this many attempts
+export const MAX_ATTEMPTS = 5;
+
+// Wait before each retry, indexed by the attempts already made
+const RETRY_DELAYS_MINUTES = [1, 5, 15, 60];
+
+export interface AlertRule {
+  id: string;
+  user_id: string | null;
+  name: string;
+  destination_id: string;
+  // Null matches any asset or strategy; an empty list any session. A strategy
+  // family such as Turtle_Soup matches both of its directions.
+  asset: string | null;
+  strategy: string | null;
+  min_confidence: number;
+  sessions: string[];
+}
+
+export interface AlertDestination {
+  id: string;
+  name: string;
+  channel: ChannelName;
+  config: Record<string, unknown>;
+  enabled: boolean;
+}
+
+// Signals as read for matching; the owner is left out of the alert itself
+interface OwnedSignal extends AlertSignal {
+  user_id: string | null;
+}
+
+interface AlertDelivery {
+  id: string;
+  destination_id: string;
+  attempts: number;
+  payload: AlertMessage;
+}
+
+export interface DispatchSummary {
+  delivered: number;
+  retrying: number;
+  failed: number;
+}
+
+const SIGNAL_COLUMNS =
+  'id, user_id, asset, timeframe, strategy, bias, entry_price, stop_loss, take_profit, confidence, session, signal_time';
+
+// Rules only ever match their owner's signals
+export function ruleMatches(rule: AlertRule, signal: OwnedSignal): boolean {
+  if (!rule.user_id || rule.user_id !== signal.user_id) return false;
+  if (rule.asset && rule.asset !== signal.asset) return false;
+  if (rule.strategy && rule.strategy !== signal.strategy) {
+    if (!signal.strategy || strategyFamily(signal.strategy) !== rule.strategy) return false;
+  }
+  if ((signal.confidence ?? 0) < rule.min_confidence) return false;
+  if (rule.sessions.length > 0 && (!signal.session || !rule.sessions.includes(signal.session))) return false;
+  return true;
+}
+
+export function signalMessage(signal: AlertSignal, rule: AlertRule): AlertMessage {
+  const confidence = signal.confidence === null ? '' : ` · ${Math.round(signal.confidence * 100)}% confidence`;
+  
+  return {
+    title: `${signal.asset} ${signal.bias} ${signal.strategy ?? 'signal'} (${signal.timeframe})`,
+    text: [
+      `Entry ${signal.entry_price} · SL ${signal.stop_loss} · TP ${signal.take_profit}${confidence}`,
+      signal.session ? `Session: ${signal.session}` : null,
+      `Rule: ${rule.name}`
+    ].filter(Boolean).join('\n'),
+    signal,
+    rule: { id: rule.id, name: rule.name },
+    test: false
+  };
+}
+
+export function testMessage(destination: AlertDestination): AlertMessage {
+  return {
+    title: 'Test alert',
+    text: `Test message for the "${destination.name}" destination. Signal alerts will arrive here.`,
+    signal: null,
+    rule: null,
+    test: true
+  };
+}
+
+async function loadDestinations(supabase: SupabaseClient, ids: string[]): Promise<Map<string, AlertDestination>> {
+  if (ids.length === 0) return new Map();
+  
+  const { data, error } = await supabase
+    .from('alert_destinations')
+    .select('id, name, channel, config, enabled')
+    .in('id', ids);
+  
+  if (error) throw error;
+  
+  return new Map((data as AlertDestination[]).map(destination => [destination.id, destination]));
+}
+
+// Makes one attempt and records the outcome on the delivery row. Retryable
+// failures are scheduled again unless `allowRetry` is off.
+async function attemptDelivery(
+  supabase: SupabaseClient,
+  delivery: AlertDelivery,
+  destination: AlertDestination | undefined,
+  allowRetry = true
+): Promise<DeliveryStatus> {
+  const attempts = delivery.attempts + 1;
+  let update: Record<string, unknown>;
+  
+  try {
+    if (!destination) throw new DeliveryError('Destination no longer exists', null, false);
+    if (!destination.enabled) throw new DeliveryError('Destination is disabled', null, false);
+    
+    const { status } = await createChannel(destination.channel, destination.config).send(delivery.payload);
+    update = {
+      status: 'delivered',
+      response_status: status,
+      last_error: null,
+      delivered_at: new Date().toISOString(),
+      next_attempt_at: null
+    };
+  } catch (error) {
+    const retryable =
+      allowRetry && error instanceof DeliveryError && error.retryable && attempts < MAX_ATTEMPTS;
+    console.error(`Alert delivery ${delivery.id} attempt ${attempts} failed:`, error.message);
+    update = {
+      status: retryable ? 'retrying' : 'failed',
+      response_status: error instanceof DeliveryError ? error.status : null,
+      last_error: error.message,
+      next_attempt_at: retryable
+        ? new Date(Date.now() + RETRY_DELAYS_MINUTES[attempts - 1] * 60_000).toISOString()
+        : null
+    };
+  }
+  
+  const { error } = await supabase
+    .from('alert_deliveries')
+    .update({ ...update, attempts, updated_at: new Date().toISOString() })
+    .eq('id', delivery.id);
+  
+  if (error) {
+    console.error(`Error updating alert delivery ${delivery.id}:`, error);
+    throw error;
+  }
+  
+  return update.status as DeliveryStatus;
+}
+
+async function attemptAll(
+  supabase: SupabaseClient,
+  deliveries: AlertDelivery[]
+): Promise<DispatchSummary> {
+  const summary: DispatchSummary = { delivered: 0, retrying: 0, failed: 0 };
+  const destinations = await loadDestinations(
+    supabase,
+    [...new Set(deliveries.map(delivery => delivery.destination_id))]
+  );
+  
+  for (const delivery of deliveries) {
+    const status = await attemptDelivery(supabase, delivery, destinations.get(delivery.destination_id));
+    if (status !== 'pending') summary[status]++;
+  }
+  
+  return summary;
+}
+
+// Logs a delivery for every enabled rule each new signal matches, then sends
+// them. A rule alerts once per signal, so dispatching the same ids twice does
+// not repeat messages.
+export async function dispatchSignalAlerts(
+  supabase: SupabaseClient,
+  signalIds: string[]
+): Promise<DispatchSummary> {
+  if (signalIds.length === 0) return { delivered: 0, retrying: 0, failed: 0 };
+  
+  const [{ data: signals, error: signalError }, { data: rules, error: ruleError }] = await Promise.all([
+    supabase.from('trade_signals').select(SIGNAL_COLUMNS).in('id', signalIds),
+    supabase
+      .from('alert_rules')
+      .select('id, user_id, name, destination_id, asset, strategy, min_confidence, sessions')
+      .eq('enabled', true)
+  ]);
+  
+  if (signalError) throw signalError;
+  if (ruleError) throw ruleError;
+  
+  const rows = [];
+  for (const signal of (signals ?? []) as OwnedSignal[]) {
+    const { user_id: _owner, ...alertSignal } = signal;
+    
+    for (const rule of (rules ?? []) as AlertRule[]) {
+      if (!ruleMatches(rule, signal)) continue;
+      
+      rows.push({
+        rule_id: rule.id,
+        destination_id: rule.destination_id,
+        signal_id: signal.id,
+        status: 'pending',
+        payload: signalMessage(alertSignal, rule)
+      });
+    }
+  }
+  
+  if (rows.length === 0) return { delivered: 0, retrying: 0, failed: 0 };
+  
+  const { data, error } = await supabase
+    .from('alert_deliveries')
+    .upsert(rows, { onConflict: 'rule_id,signal_id', ignoreDuplicates: true })
+    .select('id, destination_id, attempts, payload');
+  
+  if (error) {
+    console.error('Error logging alert deliveries:', error);
+    throw error;
+  }
+  
+  return attemptAll(supabase, (data ?? []) as AlertDelivery[]);
+}
+
+// Sends the deliveries whose retry is due
+export async function retryDueDeliveries(supabase: SupabaseClient): Promise<DispatchSummary> {
+  const { data, error } = await supabase
+    .from('alert_deliveries')
+    .select('id, destination_id, attempts, payload')
+    .eq('status', 'retrying')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(50);
+  
+  if (error) throw error;
+  
+  return attemptAll(supabase, (data ?? []) as AlertDelivery[]);
+}
+
+// Sends a test message to one destination and returns the logged delivery
+export async function sendTestAlert(supabase: SupabaseClient, destinationId: string) {
+  const destinations = await loadDestinations(supabase, [destinationId]);
+  const destination = destinations.get(destinationId);
+  if (!destination) return null;
+  
+  const { data, error } = await supabase
+    .from('alert_deliveries')
+    .insert({
+      destination_id: destination.id,
+      status: 'pending',
+      payload: testMessage(destination),
+      is_test: true
+    })
+    .select('id, destination_id, attempts, payload')
+    .single();
+  
+  if (error) throw error;
+  
+  // Tests are sent even to disabled destinations, and only once
+  await attemptDelivery(supabase, data as AlertDelivery, { ...destination, enabled: true }, false);
+  
+  const { data: delivery, error: readError } = await supabase
+    .from('alert_deliveries')
+    .select('*')
+    .eq('id', data.id)
+    .single();
+  
+  if (readError) throw readError;
+  
+  return delivery;
+}
@@ -0,0 +1,43 @@
+import { createClient, type SupabaseClient, type User } from 'https://esm.sh/@supabase/supabase-js@2.49.8';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const anonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+export interface AuthContext {
+  // Queries run as the caller, so row level security limits them to their rows
+  supabase: SupabaseClient;
+  user: User;
+}
+
+// The gateway checks the JWT signature (verify_jwt), which the anon key passes
+// as well, so the caller still has to resolve to a signed-in user
+export async function authenticate(req: Request): Promise<AuthContext | null> {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) return null;
+  
+  const supabase = createClient(supabaseUrl, anonKey, {
+    global: { headers: { Authorization: authorization } },
+    auth: { persistSession: false }
+  });
+  
+  const { data, error } = await supabase.auth.getUser(authorization.replace(/^Bearer\s+/i, ''));
+  if (error || !data.user) return null;
+  
+  return { supabase, user: data.user };
+}
+
+// Scheduled calls from pg_cron carry the service role key
+export function isServiceRequest(req: Request): boolean {
+  return req.headers.get('Authorization') === `Bearer ${serviceRoleKey}`;
+}
+
+// Set through app_metadata, which only the service role can change
+export function isAdmin(user: User): boolean {
+  return user.app_metadata?.role === 'admin';
+}
+
+// Bypasses row level security, for work that spans every user's data
+export function createServiceClient(): SupabaseClient {
+  return createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } });
+}
@@ -0,0 +1,55 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.8';
+import type { MarketData } from './ict/index.ts';
+import type { OHLCV, Timeframe } from './timeframes.ts';
+
+const PAGE_SIZE = 1000; // PostgREST default max rows per request
+
+// Reads every candle in [from, to], paging past the PostgREST row cap
+export async function fetchCandleRange(
+  supabase: SupabaseClient,
+  asset: string,
+  timeframe: Timeframe,
+  from: number,
+  to = Date.now()
+): Promise<OHLCV[]> {
+  const candles: OHLCV[] = [];
+  
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('market_data')
+      .select('timestamp, open, high, low, close, volume')
+      .eq('asset', asset)
+      .eq('timeframe', timeframe)
+      .gte('timestamp', new Date(from).toISOString())
+      .lte('timestamp', new Date(to).toISOString())
+      .order('timestamp', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+    
+    if (error) throw error;
+    
+    candles.push(...(data as OHLCV[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  
+  return candles;
+}
+
+// Reads the most recent `limit` candles, oldest first
+export async function fetchRecentCandles(
+  supabase: SupabaseClient,
+  asset: string,
+  timeframe: Timeframe,
+  limit: number
+): Promise<MarketData[]> {
+  const { data, error } = await supabase
+    .from('market_data')
+    .select('*')
+    .eq('asset', asset)
+    .eq('timeframe', timeframe)
+    .order('timestamp', { ascending: false })
+    .limit(limit);
+  
+  if (error) throw error;
+  
+  return (data as MarketData[]).reverse();
+}
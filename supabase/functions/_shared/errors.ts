@@ -0,0 +1,8 @@
+// Thrown for a request parameter the function cannot work with, so handlers
+// can answer with a 400 instead of a 500
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
@@ -0,0 +1,32 @@
+import { strictEqual } from 'node:assert/strict';
+import { getQuarterlyBias } from './bias.ts';
+import { HOUR_MS, series } from './testing.ts';
+
+// Three days of hourly candles from Monday 5 January 2026. Tuesday trades a
+// 90-110 range and every other bar 99-101; the last bar closes at `close`.
+function week(close: number) {
+  const bars: [number, number, number][] = Array.from({ length: 72 }, (_, i) =>
+    i >= 24 && i < 48 ? [110, 90, 100] : [101, 99, 100]
+  );
+  bars[71] = [Math.max(101, close), Math.min(99, close), close];
+  return series('2026-01-05T00:00:00Z', HOUR_MS, bars);
+}
+
+Deno.test('getQuarterlyBias is neutral with fewer than 60 candles', () => {
+  strictEqual(getQuarterlyBias(week(200).slice(-59), 'daily'), 'neutral');
+});
+
+Deno.test('getQuarterlyBias compares the close with the previous quarter', () => {
+  // Previous daily quarter is 12:00-18:00 on Wednesday
+  strictEqual(getQuarterlyBias(week(105), 'daily'), 'bullish');
+  strictEqual(getQuarterlyBias(week(95), 'daily'), 'bearish');
+  strictEqual(getQuarterlyBias(week(100), 'daily'), 'neutral');
+});
+
+Deno.test('getQuarterlyBias uses the largest cycle the candles cover', () => {
+  // The yearly and monthly previous quarters start before the data, so the
+  // weekly one (Tuesday) decides
+  strictEqual(getQuarterlyBias(week(105)), 'neutral');
+  strictEqual(getQuarterlyBias(week(111)), 'bullish');
+  strictEqual(getQuarterlyBias(week(89)), 'bearish');
+});
@@ -0,0 +1,36 @@
+import type { OHLCV } from '../timeframes.ts';
+import { previousQuarter, QUARTER_CYCLES, quarterOf, type QuarterCycle } from './quarters.ts';
+import type { Bias } from './types.ts';
+
+// ICT Quarterly Theory: bullish when the latest close is above the previous
+// quarter's high, bearish below its low. Without an explicit cycle the largest
+// one whose previous quarter the candles fully cover is used, so daily candles
+// read yearly quarters and 5-minute candles read daily or 90-minute ones.
+export function getQuarterlyBias(data: OHLCV[], cycle?: QuarterCycle): Bias {
+  if (data.length < 60) return 'neutral';
+  
+  const last = data[data.length - 1];
+  const firstTime = new Date(data[0].timestamp).getTime();
+  
+  for (const candidate of cycle ? [cycle] : QUARTER_CYCLES) {
+    const previous = previousQuarter(quarterOf(last.timestamp, candidate));
+    const start = new Date(previous.start).getTime();
+    const end = new Date(previous.end).getTime();
+    if (!cycle && firstTime > start) continue;
+    
+    const quarterData = data.filter(d => {
+      const time = new Date(d.timestamp).getTime();
+      return time >= start && time < end;
+    });
+    if (quarterData.length === 0) continue;
+    
+    const high = Math.max(...quarterData.map(d => d.high));
+    const low = Math.min(...quarterData.map(d => d.low));
+    
+    if (last.close > high) return 'bullish';
+    if (last.close < low) return 'bearish';
+    return 'neutral';
+  }
+  
+  return 'neutral';
+}
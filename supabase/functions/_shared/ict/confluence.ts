@@ -0,0 +1,92 @@
+import type { PDZone } from './pd-arrays.ts';
+import type { SessionName } from './sessions.ts';
+import type { StructureTrend } from './structure.ts';
+import type { Bias } from './types.ts';
+
+export type ConfluenceName =
+  | 'bias'
+  | 'structure'
+  | 'pd_zone'
+  | 'liquidity_sweep'
+  | 'volatility'
+  | 'session';
+
+// Relative importance of each factor; the score is the share of the weight
+// of applicable factors that a signal meets
+export const CONFLUENCE_WEIGHTS: Record<ConfluenceName, number> = {
+  bias: 0.25,
+  structure: 0.2,
+  liquidity_sweep: 0.2,
+  pd_zone: 0.15,
+  volatility: 0.1,
+  session: 0.1
+};
+
+export interface ConfluenceFactor {
+  name: ConfluenceName;
+  weight: number;
+  met: boolean;
+  detail: string;
+}
+
+export interface Confluence {
+  score: number;
+  factors: ConfluenceFactor[];
+}
+
+// Market context at the signal bar, shared by every signal scored on it
+export interface ConfluenceContext {
+  bias: Bias;
+  trend: StructureTrend;
+  pdZone: PDZone | null;
+  sweep: { bullish: boolean; bearish: boolean };
+  highVolatility: boolean;
+  session: SessionName | null;
+  // False on 4h and above, where the session factor is left out
+  sessionsApply: boolean;
+}
+
+export function scoreConfluence(direction: 'bullish' | 'bearish', context: ConfluenceContext): Confluence {
+  const long = direction === 'bullish';
+  const factor = (name: ConfluenceName, met: boolean, detail: string): ConfluenceFactor => ({
+    name,
+    weight: CONFLUENCE_WEIGHTS[name],
+    met,
+    detail
+  });
+  
+  const factors = [
+    factor('bias', context.bias === direction, `Quarterly bias ${context.bias}`),
+    factor('structure', context.trend === direction, `Structure ${context.trend}`),
+    factor(
+      'liquidity_sweep',
+      long ? context.sweep.bullish : context.sweep.bearish,
+      (long ? context.sweep.bullish : context.sweep.bearish)
+        ? `Swept ${long ? 'sell-side' : 'buy-side'} liquidity`
+        : 'No liquidity sweep'
+    ),
+    factor(
+      'pd_zone',
+      context.pdZone === (long ? 'discount' : 'premium'),
+      context.pdZone ? `Price in ${context.pdZone}` : 'No dealing range'
+    ),
+    factor(
+      'volatility',
+      context.highVolatility,
+      context.highVolatility ? 'Expanding volatility' : 'Quiet volatility'
+    )
+  ];
+  
+  if (context.sessionsApply) {
+    factors.push(factor(
+      'session',
+      context.session !== null,
+      context.session ? `Inside ${context.session} kill zone` : 'Outside kill zones'
+    ));
+  }
+  
+  const total = factors.reduce((sum, f) => sum + f.weight, 0);
+  const met = factors.filter(f => f.met).reduce((sum, f) => sum + f.weight, 0);
+  
+  return { score: Math.round((met / total) * 100) / 100, factors };
+}
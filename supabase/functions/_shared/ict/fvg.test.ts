@@ -0,0 +1,50 @@
+import { deepStrictEqual, strictEqual } from 'node:assert/strict';
+import { detectFVGs } from './fvg.ts';
+import { HOUR_MS, series } from './testing.ts';
+
+const start = '2026-01-05T00:00:00Z';
+
+Deno.test('detectFVGs finds a bullish gap and tracks its fill', () => {
+  const data = series(start, HOUR_MS, [
+    [100, 95, 99],
+    [108, 99, 107],
+    [110, 103, 109],
+    [109, 101.5, 104],
+    [105, 99, 100]
+  ]);
+  
+  const [gap, ...rest] = detectFVGs(data);
+  strictEqual(rest.length, 0);
+  deepStrictEqual(
+    { direction: gap.direction, top: gap.top, bottom: gap.bottom, index: gap.index, timestamp: gap.timestamp },
+    { direction: 'bullish', top: 103, bottom: 100, index: 1, timestamp: data[1].timestamp }
+  );
+  strictEqual(gap.state, 'mitigated');
+  strictEqual(gap.filled, 1);
+  strictEqual(gap.mitigated_at, data[4].timestamp);
+  
+  const partial = detectFVGs(data.slice(0, 4))[0];
+  strictEqual(partial.state, 'partial');
+  strictEqual(partial.filled, 0.5);
+});
+
+Deno.test('detectFVGs finds a bearish gap', () => {
+  const data = series(start, HOUR_MS, [
+    [105, 100, 101],
+    [101, 92, 93],
+    [97, 90, 91]
+  ]);
+  
+  const [gap] = detectFVGs(data);
+  deepStrictEqual([gap.direction, gap.top, gap.bottom, gap.state], ['bearish', 100, 97, 'unmitigated']);
+});
+
+Deno.test('detectFVGs skips gaps below the minimum size', () => {
+  const data = series(start, HOUR_MS, [
+    [100, 95, 99],
+    [108, 99, 107],
+    [110, 103, 109]
+  ]);
+  
+  strictEqual(detectFVGs(data, { minSize: 5 }).length, 0);
+});
@@ -0,0 +1,88 @@
+import type { OHLCV } from '../timeframes.ts';
+
+export type FVGDirection = 'bullish' | 'bearish';
+
+export type FVGState = 'unmitigated' | 'partial' | 'mitigated';
+
+export interface FairValueGap {
+  direction: FVGDirection;
+  top: number;
+  bottom: number;
+  // Timestamp and index of the middle candle of the three-candle pattern
+  timestamp: string;
+  index: number;
+  state: FVGState;
+  // Deepest share of the gap that later candles have traded back into, 0 to 1
+  filled: number;
+  mitigated_at: string | null;
+}
+
+export interface FVGOptions {
+  // Only candles in the last `lookback` bars can form a gap
+  lookback?: number;
+  // Gaps narrower than this (in price) are ignored
+  minSize?: number;
+}
+
+// Bullish gaps are filled from the top down and bearish gaps from the bottom
+// up; a gap is mitigated once price has traded through its far edge.
+function updateMitigation(gap: FairValueGap, candle: OHLCV) {
+  const size = gap.top - gap.bottom;
+  const depth = gap.direction === 'bullish' ? gap.top - candle.low : candle.high - gap.bottom;
+  const filled = Math.min(1, Math.max(0, depth / size));
+  
+  if (filled <= gap.filled) return;
+  
+  gap.filled = filled;
+  gap.state = filled >= 1 ? 'mitigated' : 'partial';
+  if (gap.state === 'mitigated') gap.mitigated_at = candle.timestamp;
+}
+
+// Three-candle imbalances: a bullish gap when the third candle's low is above
+// the first candle's high, a bearish gap when its high is below the first
+// candle's low. Each gap is then tracked against every later candle.
+export function detectFVGs(data: OHLCV[], options: FVGOptions = {}): FairValueGap[] {
+  const { lookback = 100, minSize = 0 } = options;
+  const start = Math.max(2, data.length - lookback);
+  const gaps: FairValueGap[] = [];
+  let active: FairValueGap[] = [];
+  
+  for (let i = start; i < data.length; i++) {
+    const candle = data[i];
+    
+    for (const gap of active) {
+      updateMitigation(gap, candle);
+    }
+    active = active.filter(gap => gap.state !== 'mitigated');
+    
+    const first = data[i - 2];
+    let direction: FVGDirection;
+    let top: number;
+    let bottom: number;
+    
+    if (candle.low > first.high) {
+      [direction, top, bottom] = ['bullish', candle.low, first.high];
+    } else if (candle.high < first.low) {
+      [direction, top, bottom] = ['bearish', first.low, candle.high];
+    } else {
+      continue;
+    }
+    
+    if (top - bottom < minSize) continue;
+    
+    const gap: FairValueGap = {
+      direction,
+      top,
+      bottom,
+      timestamp: data[i - 1].timestamp,
+      index: i - 1,
+      state: 'unmitigated',
+      filled: 0,
+      mitigated_at: null
+    };
+    gaps.push(gap);
+    active.push(gap);
+  }
+  
+  return gaps;
+}
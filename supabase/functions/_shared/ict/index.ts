@@ -0,0 +1,13 @@
+// ICT analysis shared by ict-signals, ict-entries and the backtester, so every
+// consumer sees the same bias and zones for the same candles
+export * from './types.ts';
+export * from './volatility.ts';
+export * from './pd-arrays.ts';
+export * from './bias.ts';
+export * from './liquidity.ts';
+export * from './fvg.ts';
+export * from './order-blocks.ts';
+export * from './structure.ts';
+export * from './sessions.ts';
+export * from './quarters.ts';
+export * from './confluence.ts';
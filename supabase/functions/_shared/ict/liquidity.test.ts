@@ -0,0 +1,35 @@
+import { deepStrictEqual } from 'node:assert/strict';
+import { identifyLiquidityPools } from './liquidity.ts';
+import { HOUR_MS, series } from './testing.ts';
+
+const data = series('2026-01-05T00:00:00Z', HOUR_MS, [
+  [100, 50, 75],
+  [110, 60, 100],
+  [120, 70, 110],
+  [110.2, 80, 100],
+  [90, 40, 60]
+]);
+
+Deno.test('identifyLiquidityPools finds equal highs within the tolerance', () => {
+  deepStrictEqual(identifyLiquidityPools(data), [
+    { type: 'liquidity_pool', price: 110, strength: 2 }
+  ]);
+});
+
+Deno.test('identifyLiquidityPools ignores levels outside the tolerance', () => {
+  deepStrictEqual(identifyLiquidityPools(data, 0.001), []);
+});
+
+Deno.test('identifyLiquidityPools finds equal lows', () => {
+  const lows = series('2026-01-05T00:00:00Z', HOUR_MS, [
+    [120, 100, 110],
+    [115, 95, 105],
+    [118, 108, 112],
+    [116, 95.1, 110],
+    [119, 100, 111]
+  ]);
+  
+  deepStrictEqual(identifyLiquidityPools(lows), [
+    { type: 'liquidity_pool', price: 95, strength: 2 }
+  ]);
+});
@@ -0,0 +1,103 @@
+import type { OHLCV } from '../timeframes.ts';
+import type { LiquidityZone } from './types.ts';
+
+// Identify Liquidity Pools (Equal Highs/Lows)
+// `tolerance` is the relative distance at which two highs or lows count as equal
+export function identifyLiquidityPools(data: OHLCV[], tolerance = 0.005): LiquidityZone[] {
+  const pools: LiquidityZone[] = [];
+  
+  // Find equal highs (resistance levels)
+  const highs = data.map(d => d.high);
+  const lows = data.map(d => d.low);
+  
+  for (let i = 1; i < highs.length - 1; i++) {
+    let equalHighs = 1;
+    const baseHigh = highs[i];
+    
+    // Check for equal highs within tolerance
+    for (let j = i + 1; j < Math.min(i + 10, highs.length); j++) {
+      if (Math.abs(highs[j] - baseHigh) / baseHigh <= tolerance) {
+        equalHighs++;
+      }
+    }
+    
+    if (equalHighs >= 2) {
+      pools.push({
+        type: 'liquidity_pool',
+        price: baseHigh,
+        strength: equalHighs
+      });
+    }
+  }
+  
+  // Find equal lows (support levels)
+  for (let i = 1; i < lows.length - 1; i++) {
+    let equalLows = 1;
+    const baseLow = lows[i];
+    
+    for (let j = i + 1; j < Math.min(i + 10, lows.length); j++) {
+      if (Math.abs(lows[j] - baseLow) / baseLow <= tolerance) {
+        equalLows++;
+      }
+    }
+    
+    if (equalLows >= 2) {
+      pools.push({
+        type: 'liquidity_pool',
+        price: baseLow,
+        strength: equalLows
+      });
+    }
+  }
+  
+  return pools;
+}
+
+// Detect Liquidity Sweeps and Runs
+export function detectLiquidityEvents(data: OHLCV[], liquidityPools: LiquidityZone[]): boolean {
+  if (data.length < 5) return false;
+  
+  const recentData = data.slice(-5);
+  const avgVolume = data.slice(-20).reduce((sum, d) => sum + d.volume, 0) / 20;
+  
+  // Check for volume spikes (>2x average)
+  const hasVolumeSpike = recentData.some(d => d.volume > avgVolume * 2);
+  
+  // Check for liquidity sweeps (price breaks level then reverses within 3 candles)
+  for (const pool of liquidityPools) {
+    const breakData = recentData.slice(0, 3);
+    const reversalData = recentData.slice(-3);
+    
+    const hasBreak = breakData.some(d => d.high > pool.price || d.low < pool.price);
+    const hasReversal = reversalData.some(d => 
+      (d.close > pool.price && breakData.some(bd => bd.low < pool.price)) ||
+      (d.close < pool.price && breakData.some(bd => bd.high > pool.price))
+    );
+    
+    if (hasBreak && hasReversal && hasVolumeSpike) {
+      return true;
+    }
+  }
+  
+  return false;
+}
+
+// Stop runs through a pool that closed back on the other side within the last
+// `lookback` candles: a bullish sweep takes sell-side liquidity below a pool,
+// a bearish one takes buy-side liquidity above it
+export function detectLiquiditySweep(
+  data: OHLCV[],
+  liquidityPools: LiquidityZone[],
+  lookback = 3
+): { bullish: boolean; bearish: boolean } {
+  const recent = data.slice(-lookback);
+  
+  return {
+    bullish: liquidityPools.some(pool =>
+      recent.some(d => d.low < pool.price && d.close > pool.price)
+    ),
+    bearish: liquidityPools.some(pool =>
+      recent.some(d => d.high > pool.price && d.close < pool.price)
+    )
+  };
+}
@@ -0,0 +1,45 @@
+import { deepStrictEqual, strictEqual } from 'node:assert/strict';
+import { detectOrderBlocks, orderBlockZones } from './order-blocks.ts';
+import { candle } from './testing.ts';
+
+const at = (hour: number) => new Date(Date.UTC(2026, 0, 5, hour)).toISOString();
+
+// Quiet bars, a bearish candle, then a bullish displacement through their highs
+const setup = [
+  candle(at(0), 101, 99.5, 100.5, 100),
+  candle(at(1), 101, 99.5, 100.5, 100),
+  candle(at(2), 101, 99.5, 100.5, 100),
+  candle(at(3), 100.8, 99.5, 99.8, 100.5),
+  candle(at(4), 104.2, 99.9, 104, 100)
+];
+
+const options = { structureBars: 3 };
+
+Deno.test('detectOrderBlocks takes the last opposing candle before a displacement', () => {
+  const [block] = detectOrderBlocks(setup, options);
+  deepStrictEqual(
+    { direction: block.direction, top: block.top, bottom: block.bottom, index: block.index, state: block.state },
+    { direction: 'bullish', top: 100.8, bottom: 99.5, index: 3, state: 'active' }
+  );
+});
+
+Deno.test('detectOrderBlocks marks blocks mitigated and then broken', () => {
+  const touched = [...setup, candle(at(5), 101.2, 100.5, 100.8, 101)];
+  const [mitigated] = detectOrderBlocks(touched, options);
+  strictEqual(mitigated.state, 'mitigated');
+  strictEqual(mitigated.mitigated_at, at(5));
+  
+  const broken = [...touched, candle(at(6), 100.9, 98.9, 99, 100.8)];
+  const [breaker] = detectOrderBlocks(broken, options);
+  strictEqual(breaker.state, 'breaker');
+  strictEqual(breaker.broken_at, at(6));
+  strictEqual(breaker.mitigated_at, at(5));
+  
+  // A broken bullish block acts as bearish resistance
+  const [zone] = orderBlockZones([breaker]);
+  deepStrictEqual([zone.type, zone.direction, zone.strength], ['breaker_block', 'bearish', 1]);
+});
+
+Deno.test('detectOrderBlocks ignores moves smaller than the displacement', () => {
+  strictEqual(detectOrderBlocks(setup, { ...options, displacement: 10 }).length, 0);
+});
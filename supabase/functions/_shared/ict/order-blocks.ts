@@ -0,0 +1,124 @@
+import type { OHLCV } from '../timeframes.ts';
+import type { LiquidityZone } from './types.ts';
+import { calculateATR } from './volatility.ts';
+
+export type OrderBlockDirection = 'bullish' | 'bearish';
+
+// active: untouched since it formed
+// mitigated: price has traded back into the block
+// breaker: price closed through the far side; the block now acts from the
+// other side (a broken bullish block becomes resistance and vice versa)
+export type OrderBlockState = 'active' | 'mitigated' | 'breaker';
+
+export interface OrderBlock {
+  direction: OrderBlockDirection;
+  top: number;
+  bottom: number;
+  // Timestamp and index of the order block candle itself
+  timestamp: string;
+  index: number;
+  state: OrderBlockState;
+  mitigated_at: string | null;
+  broken_at: string | null;
+}
+
+export interface OrderBlockOptions {
+  // Only displacements in the last `lookback` bars are considered
+  lookback?: number;
+  // Bars before the displacement whose high/low it must close beyond
+  structureBars?: number;
+  // Minimum displacement body as a multiple of ATR
+  displacement?: number;
+}
+
+function updateState(block: OrderBlock, candle: OHLCV) {
+  const bullish = block.direction === 'bullish';
+  const broken = bullish ? candle.close < block.bottom : candle.close > block.top;
+  const touched = bullish ? candle.low <= block.top : candle.high >= block.bottom;
+  
+  if (broken) {
+    block.state = 'breaker';
+    block.broken_at = candle.timestamp;
+    block.mitigated_at = block.mitigated_at ?? candle.timestamp;
+  } else if (touched && block.state === 'active') {
+    block.state = 'mitigated';
+    block.mitigated_at = candle.timestamp;
+  }
+}
+
+// A bullish order block is the last bearish candle before a displacement
+// candle that closes above the highest high of the preceding `structureBars`
+// bars; bearish blocks mirror it. Each block is then tracked against every
+// candle after the displacement.
+export function detectOrderBlocks(data: OHLCV[], options: OrderBlockOptions = {}): OrderBlock[] {
+  const { lookback = 100, structureBars = 10, displacement = 1 } = options;
+  const start = Math.max(structureBars + 1, data.length - lookback);
+  const blocks: OrderBlock[] = [];
+  const seen = new Set<number>();
+  let tracked: OrderBlock[] = [];
+  
+  for (let i = start; i < data.length; i++) {
+    const candle = data[i];
+    
+    for (const block of tracked) {
+      updateState(block, candle);
+    }
+    tracked = tracked.filter(block => block.state !== 'breaker');
+    
+    const prior = data.slice(i - structureBars, i);
+    const body = Math.abs(candle.close - candle.open);
+    if (body < calculateATR(data.slice(i - structureBars - 1, i)) * displacement) continue;
+    
+    let direction: OrderBlockDirection;
+    if (candle.close > candle.open && candle.close > Math.max(...prior.map(d => d.high))) {
+      direction = 'bullish';
+    } else if (candle.close < candle.open && candle.close < Math.min(...prior.map(d => d.low))) {
+      direction = 'bearish';
+    } else {
+      continue;
+    }
+    
+    // Last opposing candle before the displacement
+    for (let j = i - 1; j >= i - structureBars; j--) {
+      const origin = data[j];
+      const opposing = direction === 'bullish' ? origin.close < origin.open : origin.close > origin.open;
+      if (!opposing) continue;
+      if (seen.has(j)) break;
+      
+      const block: OrderBlock = {
+        direction,
+        top: origin.high,
+        bottom: origin.low,
+        timestamp: origin.timestamp,
+        index: j,
+        state: 'active',
+        mitigated_at: null,
+        broken_at: null
+      };
+      seen.add(j);
+      blocks.push(block);
+      tracked.push(block);
+      break;
+    }
+  }
+  
+  return blocks;
+}
+
+// The most recent blocks as chart and signal zones. Untouched blocks rank
+// above mitigated ones; breakers are kept as their own zone type.
+export function orderBlockZones(blocks: OrderBlock[], limit = 5): LiquidityZone[] {
+  return blocks
+    .slice(-limit)
+    .map(block => ({
+      type: block.state === 'breaker' ? 'breaker_block' : 'order_block',
+      price: (block.top + block.bottom) / 2,
+      strength: block.state === 'active' ? 3 : block.state === 'mitigated' ? 2 : 1,
+      top: block.top,
+      bottom: block.bottom,
+      direction: block.state === 'breaker'
+        ? (block.direction === 'bullish' ? 'bearish' : 'bullish')
+        : block.direction,
+      formed_at: block.timestamp
+    }));
+}
@@ -0,0 +1,38 @@
+import { deepStrictEqual, strictEqual } from 'node:assert/strict';
+import { analyzePDArrays, pdArrayZones } from './pd-arrays.ts';
+import { HOUR_MS, series } from './testing.ts';
+
+// A 100-200 dealing range over 20 hourly candles ending at `close`
+function range(close: number) {
+  const bars: [number, number, number][] = Array.from({ length: 20 }, () => [150, 120, 140]);
+  bars[0] = [200, 100, 150];
+  bars[19] = [Math.max(150, close), Math.min(120, close), close];
+  return series('2026-01-05T00:00:00Z', HOUR_MS, bars);
+}
+
+Deno.test('analyzePDArrays needs a full lookback', () => {
+  strictEqual(analyzePDArrays(range(150).slice(1)), null);
+});
+
+Deno.test('analyzePDArrays splits the dealing range into quarters', () => {
+  const pd = analyzePDArrays(range(190))!;
+  deepStrictEqual(
+    { high: pd.rangeHigh, low: pd.rangeLow, premium: pd.premium, equilibrium: pd.equilibrium, discount: pd.discount },
+    { high: 200, low: 100, premium: 175, equilibrium: 150, discount: 125 }
+  );
+  strictEqual(pd.zone, 'premium');
+});
+
+Deno.test('analyzePDArrays places the latest close in a zone', () => {
+  strictEqual(analyzePDArrays(range(110))!.zone, 'discount');
+  strictEqual(analyzePDArrays(range(150))!.zone, 'equilibrium');
+});
+
+Deno.test('pdArrayZones ranks premium and discount above equilibrium', () => {
+  deepStrictEqual(pdArrayZones(analyzePDArrays(range(150))).map(zone => [zone.type, zone.strength]), [
+    ['premium', 3],
+    ['equilibrium', 2],
+    ['discount', 3]
+  ]);
+  deepStrictEqual(pdArrayZones(null), []);
+});
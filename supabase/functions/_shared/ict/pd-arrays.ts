@@ -0,0 +1,49 @@
+import type { OHLCV } from '../timeframes.ts';
+import type { LiquidityZone } from './types.ts';
+
+export const PD_LOOKBACK = 20;
+
+export type PDZone = 'premium' | 'equilibrium' | 'discount';
+
+export interface PDArrays {
+  rangeHigh: number;
+  rangeLow: number;
+  premium: number;
+  equilibrium: number;
+  discount: number;
+  current: number;
+  zone: PDZone;
+}
+
+// Premium and discount are the top and bottom quarter of the dealing range
+// over the last `lookback` candles. Null until there are enough candles.
+export function analyzePDArrays(data: OHLCV[], lookback = PD_LOOKBACK): PDArrays | null {
+  const recentData = data.slice(-lookback);
+  if (recentData.length < lookback) return null;
+  
+  const rangeHigh = Math.max(...recentData.map(d => d.high));
+  const rangeLow = Math.min(...recentData.map(d => d.low));
+  const range = rangeHigh - rangeLow;
+  
+  const premium = rangeLow + (range * 0.75);
+  const equilibrium = rangeLow + (range * 0.5);
+  const discount = rangeLow + (range * 0.25);
+  const current = data[data.length - 1].close;
+  
+  let zone: PDZone = 'equilibrium';
+  if (current >= premium) zone = 'premium';
+  else if (current <= discount) zone = 'discount';
+  
+  return { rangeHigh, rangeLow, premium, equilibrium, discount, current, zone };
+}
+
+// The PD levels as stored zones; premium and discount outrank equilibrium
+export function pdArrayZones(pdArrays: PDArrays | null): LiquidityZone[] {
+  if (!pdArrays) return [];
+  
+  return [
+    { type: 'premium', price: pdArrays.premium, strength: 3 },
+    { type: 'equilibrium', price: pdArrays.equilibrium, strength: 2 },
+    { type: 'discount', price: pdArrays.discount, strength: 3 }
+  ];
+}
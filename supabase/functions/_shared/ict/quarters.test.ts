@@ -0,0 +1,53 @@
+import { deepStrictEqual } from 'node:assert/strict';
+import { previousQuarter, quarterOf } from './quarters.ts';
+
+function bounds(timestamp: string, cycle: Parameters<typeof quarterOf>[1]) {
+  const { quarter, start, end } = quarterOf(timestamp, cycle);
+  return { quarter, start, end };
+}
+
+Deno.test('quarterOf yearly uses calendar quarters', () => {
+  deepStrictEqual(bounds('2026-05-10T12:00:00Z', 'yearly'), {
+    quarter: 2,
+    start: '2026-04-01T00:00:00.000Z',
+    end: '2026-07-01T00:00:00.000Z'
+  });
+});
+
+Deno.test('quarterOf monthly runs the last quarter to month end', () => {
+  deepStrictEqual(bounds('2026-01-29T00:00:00Z', 'monthly'), {
+    quarter: 4,
+    start: '2026-01-22T00:00:00.000Z',
+    end: '2026-02-01T00:00:00.000Z'
+  });
+});
+
+Deno.test('quarterOf weekly folds Friday into Thursday\'s quarter', () => {
+  deepStrictEqual(bounds('2026-01-09T15:00:00Z', 'weekly'), {
+    quarter: 4,
+    start: '2026-01-08T00:00:00.000Z',
+    end: '2026-01-12T00:00:00.000Z'
+  });
+});
+
+Deno.test('quarterOf daily and micro split the UTC day', () => {
+  deepStrictEqual(bounds('2026-01-07T13:40:00Z', 'daily'), {
+    quarter: 3,
+    start: '2026-01-07T12:00:00.000Z',
+    end: '2026-01-07T18:00:00.000Z'
+  });
+  deepStrictEqual(bounds('2026-01-07T13:40:00Z', 'micro'), {
+    quarter: 2,
+    start: '2026-01-07T13:30:00.000Z',
+    end: '2026-01-07T15:00:00.000Z'
+  });
+});
+
+Deno.test('previousQuarter crosses into the previous year', () => {
+  const { quarter, start, end } = previousQuarter(quarterOf('2026-02-01T00:00:00Z', 'yearly'));
+  deepStrictEqual({ quarter, start, end }, {
+    quarter: 4,
+    start: '2025-10-01T00:00:00.000Z',
+    end: '2026-01-01T00:00:00.000Z'
+  });
+});
@@ -0,0 +1,84 @@
+// Quarterly theory: every cycle splits into four quarters. All boundaries are
+// taken from candle timestamps in UTC, never from the clock of the server.
+//   yearly   calendar quarters, Jan-Mar ... Oct-Dec
+//   monthly  days 1-7, 8-14, 15-21, 22 to month end
+//   weekly   Monday, Tuesday, Wednesday, Thursday (Friday closes out Q4)
+//   daily    00-06, 06-12, 12-18, 18-24 UTC
+//   micro    90-minute quarters within each daily quarter
+
+export type QuarterCycle = 'yearly' | 'monthly' | 'weekly' | 'daily' | 'micro';
+
+export const QUARTER_CYCLES: QuarterCycle[] = ['yearly', 'monthly', 'weekly', 'daily', 'micro'];
+
+export type Quarter = 1 | 2 | 3 | 4;
+
+export interface QuarterInfo {
+  cycle: QuarterCycle;
+  quarter: Quarter;
+  // Inclusive start and exclusive end, as ISO strings
+  start: string;
+  end: string;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+function info(cycle: QuarterCycle, quarter: number, start: number, end: number): QuarterInfo {
+  return {
+    cycle,
+    quarter: quarter as Quarter,
+    start: new Date(start).toISOString(),
+    end: new Date(end).toISOString()
+  };
+}
+
+export function quarterOf(timestamp: string | number, cycle: QuarterCycle): QuarterInfo {
+  const date = new Date(timestamp);
+  const time = date.getTime();
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const dayStart = Date.UTC(year, month, date.getUTCDate());
+  
+  switch (cycle) {
+    case 'yearly': {
+      const quarter = Math.floor(month / 3) + 1;
+      return info(cycle, quarter, Date.UTC(year, (quarter - 1) * 3, 1), Date.UTC(year, quarter * 3, 1));
+    }
+    case 'monthly': {
+      const quarter = Math.min(4, Math.floor((date.getUTCDate() - 1) / 7) + 1);
+      const start = Date.UTC(year, month, 1 + (quarter - 1) * 7);
+      const end = quarter < 4 ? Date.UTC(year, month, 1 + quarter * 7) : Date.UTC(year, month + 1, 1);
+      return info(cycle, quarter, start, end);
+    }
+    case 'weekly': {
+      const weekday = (date.getUTCDay() + 6) % 7; // Monday = 0
+      const weekStart = dayStart - weekday * DAY;
+      const quarter = Math.min(4, weekday + 1);
+      const end = quarter < 4 ? weekStart + quarter * DAY : weekStart + 7 * DAY;
+      return info(cycle, quarter, weekStart + (quarter - 1) * DAY, end);
+    }
+    case 'daily': {
+      const quarter = Math.floor((time - dayStart) / (6 * HOUR)) + 1;
+      const start = dayStart + (quarter - 1) * 6 * HOUR;
+      return info(cycle, quarter, start, start + 6 * HOUR);
+    }
+    case 'micro': {
+      const daily = new Date(quarterOf(time, 'daily').start).getTime();
+      const quarter = Math.floor((time - daily) / (90 * MINUTE)) + 1;
+      const start = daily + (quarter - 1) * 90 * MINUTE;
+      return info(cycle, quarter, start, start + 90 * MINUTE);
+    }
+  }
+}
+
+// The quarter immediately before `current` in the same cycle
+export function previousQuarter(current: QuarterInfo): QuarterInfo {
+  return quarterOf(new Date(current.start).getTime() - 1, current.cycle);
+}
+
+export function quartersAt(timestamp: string): Record<QuarterCycle, QuarterInfo> {
+  return Object.fromEntries(
+    QUARTER_CYCLES.map(cycle => [cycle, quarterOf(timestamp, cycle)])
+  ) as Record<QuarterCycle, QuarterInfo>;
+}
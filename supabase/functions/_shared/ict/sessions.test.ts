@@ -0,0 +1,39 @@
+import { deepStrictEqual, strictEqual, throws } from 'node:assert/strict';
+import { DEFAULT_SESSIONS, findAsianRange, parseSessionCalendar, sessionAt } from './sessions.ts';
+import { HOUR_MS, series } from './testing.ts';
+
+Deno.test('sessionAt follows each session\'s own time zone', () => {
+  strictEqual(sessionAt('2026-01-15T08:00:00Z'), 'london');
+  strictEqual(sessionAt('2026-01-15T14:00:00Z'), 'ny_am');
+  strictEqual(sessionAt('2026-01-15T19:00:00Z'), 'ny_pm');
+  strictEqual(sessionAt('2026-01-15T12:00:00Z'), null);
+  // 07:30 in London under summer time
+  strictEqual(sessionAt('2026-07-15T06:30:00Z'), 'london');
+});
+
+Deno.test('sessionAt wraps the Asian session past midnight', () => {
+  // 21:00 the previous evening in New York
+  strictEqual(sessionAt('2026-01-15T02:00:00Z'), 'asian');
+});
+
+Deno.test('parseSessionCalendar validates names and times', () => {
+  strictEqual(parseSessionCalendar(undefined), DEFAULT_SESSIONS);
+  throws(() => parseSessionCalendar('[{"name":"tokyo","timeZone":"UTC","start":"00:00","end":"06:00"}]'));
+  throws(() => parseSessionCalendar('[{"name":"asian","timeZone":"UTC","start":"24:00","end":"06:00"}]'));
+});
+
+Deno.test('findAsianRange takes the latest finished Asian session', () => {
+  // 01:00-04:00 UTC is the Asian session in January
+  const bars: [number, number, number][] = Array.from({ length: 9 }, () => [101, 99, 100]);
+  bars[2] = [110, 99, 105];
+  bars[3] = [101, 90, 95];
+  const data = series('2026-01-15T00:00:00Z', HOUR_MS, bars);
+  
+  deepStrictEqual(findAsianRange(data), {
+    high: 110,
+    low: 90,
+    start: '2026-01-15T01:00:00.000Z',
+    end: '2026-01-15T04:00:00.000Z'
+  });
+  strictEqual(findAsianRange(data.slice(0, 3)), null);
+});
@@ -0,0 +1,157 @@
+import { ValidationError } from '../errors.ts';
+import { timeframeToMs, type OHLCV, type Timeframe } from '../timeframes.ts';
+import type { LiquidityZone } from './types.ts';
+
+export type SessionName = 'asian' | 'london' | 'ny_am' | 'ny_pm';
+
+export const SESSION_NAMES: SessionName[] = ['asian', 'london', 'ny_am', 'ny_pm'];
+
+// Wall clock window in the session's own time zone, so DST shifts follow the
+// exchange rather than UTC. An end at or before the start wraps past midnight.
+export interface SessionDefinition {
+  name: SessionName;
+  timeZone: string;
+  start: string;
+  end: string;
+}
+
+export const DEFAULT_SESSIONS: SessionDefinition[] = [
+  { name: 'asian', timeZone: 'America/New_York', start: '20:00', end: '00:00' },
+  { name: 'london', timeZone: 'Europe/London', start: '07:00', end: '10:00' },
+  { name: 'ny_am', timeZone: 'America/New_York', start: '08:30', end: '11:00' },
+  { name: 'ny_pm', timeZone: 'America/New_York', start: '13:30', end: '16:00' }
+];
+
+export interface AsianRange {
+  high: number;
+  low: number;
+  start: string;
+  end: string;
+}
+
+// Sessions only mean something for bars shorter than a session
+const MAX_SESSION_BAR = timeframeToMs('1h');
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function toMinutes(time: string): number {
+  const match = TIME_PATTERN.exec(time);
+  if (!match) throw new Error(`Invalid session time "${time}". Expected HH:MM`);
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+// Minutes after local midnight in `timeZone`
+function localMinutes(date: Date, timeZone: string): number {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-GB', {
+      timeZone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  
+  const parts = formatter.formatToParts(date);
+  const hour = Number(parts.find(part => part.type === 'hour')?.value);
+  const minute = Number(parts.find(part => part.type === 'minute')?.value);
+  return hour * 60 + minute;
+}
+
+function inSession(date: Date, session: SessionDefinition): boolean {
+  const minutes = localMinutes(date, session.timeZone);
+  const start = toMinutes(session.start);
+  const end = toMinutes(session.end);
+  
+  return end > start
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+export function sessionsApply(timeframe: Timeframe): boolean {
+  return timeframeToMs(timeframe) <= MAX_SESSION_BAR;
+}
+
+// The session a bar opened in, or null outside every session
+export function sessionAt(
+  timestamp: string,
+  calendar: SessionDefinition[] = DEFAULT_SESSIONS
+): SessionName | null {
+  const date = new Date(timestamp);
+  return calendar.find(session => inSession(date, session))?.name ?? null;
+}
+
+// A JSON array of SessionDefinition, e.g. from an environment variable.
+// Falls back to the default calendar when nothing is configured.
+export function parseSessionCalendar(json: string | undefined | null): SessionDefinition[] {
+  if (!json) return DEFAULT_SESSIONS;
+  
+  const calendar = JSON.parse(json) as SessionDefinition[];
+  if (!Array.isArray(calendar)) {
+    throw new Error('Session calendar must be a JSON array');
+  }
+  
+  for (const session of calendar) {
+    if (!SESSION_NAMES.includes(session.name)) {
+      throw new Error(`Unknown session "${session.name}". Expected one of ${SESSION_NAMES.join(', ')}`);
+    }
+    toMinutes(session.start);
+    toMinutes(session.end);
+    // Throws a RangeError for unknown zones
+    localMinutes(new Date(), session.timeZone);
+  }
+  
+  return calendar;
+}
+
+export function parseSessions(value: unknown): SessionName[] | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  
+  const names = Array.isArray(value) ? value : String(value).split(',');
+  for (const name of names) {
+    if (!SESSION_NAMES.includes(name)) {
+      throw new ValidationError(`Unknown session "${name}". Expected one of ${SESSION_NAMES.join(', ')}`);
+    }
+  }
+  return names as SessionName[];
+}
+
+// High and low of the latest Asian session that has finished
+export function findAsianRange(
+  data: OHLCV[],
+  calendar: SessionDefinition[] = DEFAULT_SESSIONS
+): AsianRange | null {
+  const isAsian = (index: number) => sessionAt(data[index].timestamp, calendar) === 'asian';
+  
+  // Skip a session still in progress and the bars since the last one ended
+  let i = data.length - 1;
+  while (i >= 0 && isAsian(i)) i--;
+  while (i >= 0 && !isAsian(i)) i--;
+  if (i < 0) return null;
+  
+  const end = i;
+  while (i >= 0 && isAsian(i)) i--;
+  const start = i + 1;
+  
+  const candles = data.slice(start, end + 1);
+  return {
+    high: Math.max(...candles.map(d => d.high)),
+    low: Math.min(...candles.map(d => d.low)),
+    start: candles[0].timestamp,
+    end: candles[candles.length - 1].timestamp
+  };
+}
+
+// The Asian high and low as liquidity levels. They rank above equal highs
+// and lows, which top out at the 10-bar window identifyLiquidityPools uses.
+export function asianRangeZones(range: AsianRange | null): LiquidityZone[] {
+  if (!range) return [];
+  
+  return [
+    { type: 'liquidity_pool', price: range.high, strength: 10, label: 'Asian high', formed_at: range.start },
+    { type: 'liquidity_pool', price: range.low, strength: 10, label: 'Asian low', formed_at: range.start }
+  ];
+}
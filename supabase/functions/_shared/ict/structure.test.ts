@@ -0,0 +1,36 @@
+import { deepStrictEqual, strictEqual } from 'node:assert/strict';
+import { analyzeMarketStructure, findSwingPoints } from './structure.ts';
+import { HOUR_MS, series } from './testing.ts';
+
+// Higher high at 1, higher low at 3, a close above 1 at 5, then a close
+// below 3 at 7
+const data = series('2026-01-05T00:00:00Z', HOUR_MS, [
+  [10, 8, 9],
+  [12, 10, 11],
+  [11, 9, 10],
+  [10, 7, 8],
+  [11, 8, 10],
+  [14, 10, 13],
+  [13, 11, 12],
+  [12, 6, 6.5]
+]);
+
+Deno.test('findSwingPoints needs fractal bars on both sides', () => {
+  deepStrictEqual(
+    findSwingPoints(data, 1).map(swing => [swing.type, swing.index, swing.price]),
+    [['high', 1, 12], ['low', 3, 7], ['high', 5, 14]]
+  );
+});
+
+Deno.test('analyzeMarketStructure labels BOS then CHoCH', () => {
+  const structure = analyzeMarketStructure(data, 1);
+  
+  deepStrictEqual(
+    structure.events.map(event => [event.type, event.direction, event.index, event.swing.index]),
+    [['BOS', 'bullish', 5, 1], ['CHoCH', 'bearish', 7, 3]]
+  );
+  strictEqual(structure.trend, 'bearish');
+  strictEqual(structure.lastEvent, structure.events[1]);
+  strictEqual(structure.swingHigh?.index, 5);
+  strictEqual(structure.swingLow, null);
+});
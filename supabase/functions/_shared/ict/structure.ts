@@ -0,0 +1,111 @@
+import type { OHLCV } from '../timeframes.ts';
+
+// Bars required on each side of a swing high/low
+export const DEFAULT_FRACTAL = 2;
+
+export type SwingType = 'high' | 'low';
+
+export type StructureTrend = 'bullish' | 'bearish' | 'neutral';
+
+export interface SwingPoint {
+  type: SwingType;
+  price: number;
+  timestamp: string;
+  index: number;
+}
+
+// BOS continues the current trend; CHoCH is the first break against it
+export type StructureEventType = 'BOS' | 'CHoCH';
+
+export interface StructureEvent {
+  type: StructureEventType;
+  direction: 'bullish' | 'bearish';
+  // The swing whose level was closed through
+  swing: SwingPoint;
+  timestamp: string;
+  index: number;
+}
+
+export interface MarketStructure {
+  trend: StructureTrend;
+  swings: SwingPoint[];
+  events: StructureEvent[];
+  lastEvent: StructureEvent | null;
+  // Latest confirmed swings that have not been broken yet
+  swingHigh: SwingPoint | null;
+  swingLow: SwingPoint | null;
+}
+
+// A swing high has `fractal` bars on each side with lower highs (the left side
+// strictly lower, the right side not higher); swing lows mirror it.
+export function findSwingPoints(data: OHLCV[], fractal = DEFAULT_FRACTAL): SwingPoint[] {
+  const swings: SwingPoint[] = [];
+  
+  for (let i = fractal; i < data.length - fractal; i++) {
+    const left = data.slice(i - fractal, i);
+    const right = data.slice(i + 1, i + fractal + 1);
+    const candle = data[i];
+    
+    if (left.every(d => d.high < candle.high) && right.every(d => d.high <= candle.high)) {
+      swings.push({ type: 'high', price: candle.high, timestamp: candle.timestamp, index: i });
+    }
+    if (left.every(d => d.low > candle.low) && right.every(d => d.low >= candle.low)) {
+      swings.push({ type: 'low', price: candle.low, timestamp: candle.timestamp, index: i });
+    }
+  }
+  
+  return swings;
+}
+
+// Walks the candles in order and labels every close through the latest
+// unbroken swing. A swing only counts once its right-hand bars have closed,
+// so nothing here looks ahead of the bar being evaluated.
+export function analyzeMarketStructure(data: OHLCV[], fractal = DEFAULT_FRACTAL): MarketStructure {
+  const swings = findSwingPoints(data, fractal);
+  const events: StructureEvent[] = [];
+  let trend: StructureTrend = 'neutral';
+  let swingHigh: SwingPoint | null = null;
+  let swingLow: SwingPoint | null = null;
+  let next = 0;
+  
+  for (let i = 0; i < data.length; i++) {
+    while (next < swings.length && swings[next].index + fractal <= i) {
+      const swing = swings[next++];
+      if (swing.type === 'high') swingHigh = swing;
+      else swingLow = swing;
+    }
+    
+    const candle = data[i];
+    
+    if (swingHigh && candle.close > swingHigh.price) {
+      events.push({
+        type: trend === 'bearish' ? 'CHoCH' : 'BOS',
+        direction: 'bullish',
+        swing: swingHigh,
+        timestamp: candle.timestamp,
+        index: i
+      });
+      trend = 'bullish';
+      swingHigh = null;
+    } else if (swingLow && candle.close < swingLow.price) {
+      events.push({
+        type: trend === 'bullish' ? 'CHoCH' : 'BOS',
+        direction: 'bearish',
+        swing: swingLow,
+        timestamp: candle.timestamp,
+        index: i
+      });
+      trend = 'bearish';
+      swingLow = null;
+    }
+  }
+  
+  return {
+    trend,
+    swings,
+    events,
+    lastEvent: events[events.length - 1] ?? null,
+    swingHigh,
+    swingLow
+  };
+}
@@ -0,0 +1,17 @@
+import type { OHLCV } from '../timeframes.ts';
+
+// Candle builders for the analysis tests
+
+export function candle(timestamp: string, high: number, low: number, close: number, open = close): OHLCV {
+  return { timestamp, open, high, low, close, volume: 0 };
+}
+
+// Consecutive candles `stepMs` apart from `start`, one per [high, low, close]
+export function series(start: string, stepMs: number, bars: [number, number, number][]): OHLCV[] {
+  const first = new Date(start).getTime();
+  return bars.map(([high, low, close], i) =>
+    candle(new Date(first + i * stepMs).toISOString(), high, low, close)
+  );
+}
+
+export const HOUR_MS = 60 * 60 * 1000;
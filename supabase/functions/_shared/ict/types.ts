@@ -0,0 +1,28 @@
+import type { OHLCV } from '../timeframes.ts';
+
+export interface MarketData extends OHLCV {
+  asset: string;
+}
+
+export type Bias = 'bullish' | 'bearish' | 'neutral';
+
+export type ZoneType =
+  | 'premium'
+  | 'equilibrium'
+  | 'discount'
+  | 'liquidity_pool'
+  | 'order_block'
+  | 'breaker_block';
+
+export interface LiquidityZone {
+  type: ZoneType;
+  price: number;
+  strength: number;
+  // Zones that span a price band rather than a single level
+  top?: number;
+  bottom?: number;
+  direction?: 'bullish' | 'bearish';
+  formed_at?: string;
+  // Named levels such as the Asian session high and low
+  label?: string;
+}
@@ -0,0 +1,25 @@
+import { strictEqual } from 'node:assert/strict';
+import { candle } from './testing.ts';
+import { calculateATR, trueRanges } from './volatility.ts';
+
+const data = [
+  candle('2026-01-05T00:00:00Z', 10, 9, 9.5),
+  candle('2026-01-05T01:00:00Z', 11, 10, 10.5),
+  candle('2026-01-05T02:00:00Z', 10.6, 10.2, 10.4)
+];
+
+Deno.test('trueRanges includes gaps from the previous close', () => {
+  const [first, second] = trueRanges(data);
+  strictEqual(first, 1.5);
+  strictEqual(Number(second.toFixed(10)), 0.4);
+});
+
+Deno.test('calculateATR averages the last period true ranges', () => {
+  strictEqual(Number(calculateATR(data).toFixed(10)), 0.95);
+  strictEqual(Number(calculateATR(data, 1).toFixed(10)), 0.4);
+});
+
+Deno.test('calculateATR is 0 without a true range', () => {
+  strictEqual(calculateATR(data.slice(0, 1)), 0);
+  strictEqual(calculateATR([]), 0);
+});
@@ -0,0 +1,48 @@
+import type { OHLCV } from '../timeframes.ts';
+
+// Default lookback for stops and targets in both signal functions
+export const ATR_PERIOD = 14;
+
+// True range of every candle after the first, oldest first
+export function trueRanges(data: OHLCV[]): number[] {
+  const ranges: number[] = [];
+  for (let i = 1; i < data.length; i++) {
+    const current = data[i];
+    const previous = data[i - 1];
+    
+    ranges.push(Math.max(
+      current.high - current.low,
+      Math.abs(current.high - previous.close),
+      Math.abs(current.low - previous.close)
+    ));
+  }
+  return ranges;
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+// Simple average of the last `period` true ranges. With fewer candles than
+// period + 1 it averages what is there; 0 only when there is no true range.
+export function calculateATR(data: OHLCV[], period = ATR_PERIOD): number {
+  return average(trueRanges(data).slice(-period));
+}
+
+// Volatility is high when the latest `period` true ranges average more than
+// the `baseline` true ranges before them
+export function analyzeVolatility(data: OHLCV[], period = ATR_PERIOD, baseline = 20): {
+  isHighVolatility: boolean;
+  currentATR: number;
+  avgATR: number;
+} {
+  const ranges = trueRanges(data);
+  const currentATR = average(ranges.slice(-period));
+  const avgATR = average(ranges.slice(-(period + baseline), -period));
+  
+  return {
+    isHighVolatility: avgATR > 0 && currentATR > avgATR,
+    currentATR,
+    avgATR
+  };
+}
@@ -0,0 +1,68 @@
+// Outcome statistics shared by backtests and live signal metrics. Every
+// figure is in R (multiples of the initial risk) so assets are comparable.
+
+export interface PerformanceStats {
+  trades: number;
+  wins: number;
+  losses: number;
+  win_rate: number;
+  avg_win_r: number;
+  avg_loss_r: number;
+  // Average win over average loss, both as positive R
+  risk_reward_ratio: number;
+  expectancy: number;
+  total_r: number;
+  profit_factor: number | null;
+  max_drawdown: number;
+  // Per-trade Sharpe: mean R over the sample standard deviation of R
+  sharpe: number | null;
+  max_consecutive_losses: number;
+}
+
+// `results` are R multiples of closed trades in the order they were exited
+export function summarizeResults(results: number[]): PerformanceStats {
+  const wins = results.filter(r => r > 0);
+  const losses = results.filter(r => r <= 0);
+  const grossWin = wins.reduce((sum, r) => sum + r, 0);
+  const grossLoss = Math.abs(losses.reduce((sum, r) => sum + r, 0));
+  const totalR = grossWin - grossLoss;
+  const avgWin = wins.length > 0 ? grossWin / wins.length : 0;
+  const avgLoss = losses.length > 0 ? grossLoss / losses.length : 0;
+  const mean = results.length > 0 ? totalR / results.length : 0;
+  
+  let peak = 0;
+  let equity = 0;
+  let maxDrawdown = 0;
+  let streak = 0;
+  let maxStreak = 0;
+  for (const r of results) {
+    equity += r;
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, peak - equity);
+    streak = r <= 0 ? streak + 1 : 0;
+    maxStreak = Math.max(maxStreak, streak);
+  }
+  
+  let sharpe: number | null = null;
+  if (results.length > 1) {
+    const variance = results.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (results.length - 1);
+    const deviation = Math.sqrt(variance);
+    sharpe = deviation > 0 ? mean / deviation : null;
+  }
+  
+  return {
+    trades: results.length,
+    wins: wins.length,
+    losses: losses.length,
+    win_rate: results.length > 0 ? wins.length / results.length : 0,
+    avg_win_r: avgWin,
+    avg_loss_r: losses.length > 0 ? -avgLoss : 0,
+    risk_reward_ratio: avgLoss > 0 ? avgWin / avgLoss : 0,
+    expectancy: mean,
+    total_r: totalR,
+    profit_factor: grossLoss > 0 ? grossWin / grossLoss : null,
+    max_drawdown: maxDrawdown,
+    sharpe,
+    max_consecutive_losses: maxStreak
+  };
+}
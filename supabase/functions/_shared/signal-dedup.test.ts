@@ -0,0 +1,82 @@
+import { deepStrictEqual, strictEqual } from 'node:assert/strict';
+import { storeSignals, type NewSignalRow } from './signal-dedup.ts';
+import { argsOf, fakeClient } from './testing.ts';
+
+// One hourly Turtle_Soup signal; the family's cooldown is 12 bars
+const row: NewSignalRow = {
+  user_id: 'user',
+  asset: 'EURUSD',
+  timeframe: '1h',
+  strategy: 'Turtle_Soup_Bullish',
+  bias: 'bullish',
+  entry_price: 100,
+  stop_loss: 98,
+  take_profit: 104,
+  signal_time: '2026-01-05T12:00:00Z',
+  expires_at: '2026-01-06T12:00:00Z',
+  status: 'triggered',
+  confidence: 0.7
+};
+
+Deno.test('storeSignals skips a signal inside the cooldown of the last one', async () => {
+  const { client, queries } = fakeClient({
+    trade_signals: [
+      { data: [{ id: 'closed', status: 'won', entry_price: 95, signal_time: '2026-01-05T08:00:00Z' }], error: null }
+    ]
+  });
+  
+  const summary = await storeSignals(client, [row]);
+  
+  deepStrictEqual(summary, { inserted: 0, updated: 0, skipped: 1, signal_ids: [] });
+  strictEqual(queries.length, 1);
+});
+
+Deno.test('storeSignals inserts once the cooldown has passed', async () => {
+  const { client, queries } = fakeClient({
+    trade_signals: [
+      { data: [{ id: 'closed', status: 'won', entry_price: 95, signal_time: '2026-01-04T12:00:00Z' }], error: null },
+      { data: { id: 'new' }, error: null }
+    ]
+  });
+  
+  const summary = await storeSignals(client, [row]);
+  
+  deepStrictEqual(summary, { inserted: 1, updated: 0, skipped: 0, signal_ids: ['new'] });
+  deepStrictEqual(argsOf(queries[1], 'insert'), [row]);
+});
+
+Deno.test('storeSignals skips a repeat of a triggered signal', async () => {
+  const { client } = fakeClient({
+    trade_signals: [
+      { data: [{ id: 'open', status: 'triggered', entry_price: 100.05, signal_time: '2026-01-04T12:00:00Z' }], error: null }
+    ]
+  });
+  
+  const summary = await storeSignals(client, [row]);
+  
+  strictEqual(summary.skipped, 1);
+});
+
+Deno.test('storeSignals refreshes the newest pending signal instead of opening another', async () => {
+  const { client, queries } = fakeClient({
+    trade_signals: [
+      {
+        data: [
+          { id: 'newest', status: 'pending', entry_price: 103, signal_time: '2026-01-05T11:00:00Z' },
+          { id: 'older', status: 'pending', entry_price: 106, signal_time: '2026-01-05T09:00:00Z' }
+        ],
+        error: null
+      }
+    ]
+  });
+  
+  const summary = await storeSignals(client, [row]);
+  
+  deepStrictEqual(summary, { inserted: 0, updated: 1, skipped: 0, signal_ids: [] });
+  const [refresh] = argsOf(queries[1], 'update') as [Record<string, unknown>];
+  strictEqual(refresh.entry_price, 100);
+  strictEqual(refresh.confidence, 0.7);
+  strictEqual('status' in refresh, false);
+  strictEqual('signal_time' in refresh, false);
+  deepStrictEqual(argsOf(queries[1], 'eq'), ['id', 'newest']);
+});
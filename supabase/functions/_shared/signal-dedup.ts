@@ -0,0 +1,157 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.8';
+import { OPEN_STATUSES, type SignalStatus } from './signal-lifecycle.ts';
+import { resolveStrategy, strategyFamily, type StrategyConfig } from './strategy-config.ts';
+import { timeframeToMs, type Timeframe } from './timeframes.ts';
+
+// trade_signals row as the generating functions build it
+export interface NewSignalRow {
+  user_id: string;
+  asset: string;
+  timeframe: string;
+  strategy: string;
+  bias: string;
+  entry_price: number;
+  stop_loss: number;
+  take_profit: number;
+  signal_time: string;
+  expires_at: string | null;
+  status: SignalStatus;
+  [column: string]: unknown;
+}
+
+export interface StoreSummary {
+  inserted: number;
+  updated: number;
+  skipped: number;
+  // Ids of the inserted signals, for alerting
+  signal_ids: string[];
+}
+
+interface ExistingSignal {
+  id: string;
+  status: SignalStatus;
+  entry_price: number;
+  signal_time: string | null;
+}
+
+// Columns a repeat of a pending setup refreshes; its history stays as it was
+const REFRESHED_COLUMNS = [
+  'entry_price',
+  'stop_loss',
+  'take_profit',
+  'expires_at',
+  'liquidity_zones',
+  'confidence',
+  'confluence',
+  'session',
+  'config_id',
+  'config_version'
+];
+
+function isNear(a: number, b: number, tolerance: number): boolean {
+  return Math.abs(a - b) <= Math.abs(b) * tolerance;
+}
+
+// Open signals and those inside the cooldown for the row's owner, asset,
+// timeframe, strategy and bias, newest first
+async function fetchRecentSignals(
+  supabase: SupabaseClient,
+  row: NewSignalRow,
+  cooldownStart: string
+): Promise<ExistingSignal[]> {
+  const { data, error } = await supabase
+    .from('trade_signals')
+    .select('id, status, entry_price, signal_time')
+    .eq('user_id', row.user_id)
+    .eq('asset', row.asset)
+    .eq('timeframe', row.timeframe)
+    .eq('strategy', row.strategy)
+    .eq('bias', row.bias)
+    .or(`status.in.(${OPEN_STATUSES.join(',')}),signal_time.gte.${cooldownStart}`)
+    .order('signal_time', { ascending: false })
+    .limit(20);
+  
+  if (error) throw error;
+  
+  return data as ExistingSignal[];
+}
+
+// Stores generated signals without repeating a setup the owner already has.
+// A signal near the entry of an open one of the same asset, timeframe,
+// strategy and bias is dropped once that one triggered. Otherwise it refreshes
+// the newest pending one, so an entry that drifts past the tolerance moves the
+// pending setup rather than opening a second. Without a pending one it is
+// dropped when the last such signal is inside the strategy's cooldown, and
+// inserted when it is not.
+export async function storeSignals(
+  supabase: SupabaseClient,
+  rows: NewSignalRow[],
+  configs: StrategyConfig[] = []
+): Promise<StoreSummary> {
+  const summary: StoreSummary = { inserted: 0, updated: 0, skipped: 0, signal_ids: [] };
+  
+  for (const row of rows) {
+    const family = strategyFamily(row.strategy);
+    const params = family
+      ? resolveStrategy(configs, family, row.asset)
+      : { cooldown_bars: 0, duplicate_tolerance: 0 };
+    const cooldownStart =
+      new Date(row.signal_time).getTime() - params.cooldown_bars * timeframeToMs(row.timeframe as Timeframe);
+    
+    const recent = await fetchRecentSignals(supabase, row, new Date(cooldownStart).toISOString());
+    const duplicate = recent.find(signal =>
+      OPEN_STATUSES.includes(signal.status) &&
+      isNear(signal.entry_price, row.entry_price, params.duplicate_tolerance)
+    );
+    
+    if (duplicate && duplicate.status !== 'pending') {
+      summary.skipped++;
+      continue;
+    }
+    
+    const pending = duplicate ?? recent.find(signal => signal.status === 'pending');
+    if (pending) {
+      const refresh = Object.fromEntries(
+        REFRESHED_COLUMNS.filter(column => column in row).map(column => [column, row[column]])
+      );
+      
+      const { error } = await supabase
+        .from('trade_signals')
+        .update({ ...refresh, updated_at: new Date().toISOString() })
+        .eq('id', pending.id);
+      
+      if (error) {
+        console.error(`Error refreshing signal ${pending.id}:`, error);
+        throw error;
+      }
+      
+      summary.updated++;
+      continue;
+    }
+    
+    const inCooldown = recent.some(signal =>
+      signal.signal_time !== null && new Date(signal.signal_time).getTime() >= cooldownStart
+    );
+    
+    if (inCooldown) {
+      summary.skipped++;
+      continue;
+    }
+    
+    const { data, error } = await supabase
+      .from('trade_signals')
+      .insert(row)
+      .select('id')
+      .single();
+    
+    if (error) {
+      console.error('Error storing signal:', error);
+      throw error;
+    }
+    
+    summary.inserted++;
+    summary.signal_ids.push(data.id);
+  }
+  
+  return summary;
+}
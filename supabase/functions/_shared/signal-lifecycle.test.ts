@@ -0,0 +1,69 @@
+import { strictEqual } from 'node:assert/strict';
+import { candle } from './ict/testing.ts';
+import { advanceSignal, type SignalState } from './signal-lifecycle.ts';
+
+function signal(overrides: Partial<SignalState>): SignalState {
+  return {
+    id: 'signal',
+    asset: 'EURUSD',
+    bias: 'bullish',
+    entry_price: 100,
+    stop_loss: 98,
+    take_profit: 104,
+    signal_time: '2026-01-05T10:00:00Z',
+    expires_at: '2026-01-06T10:00:00Z',
+    status: 'triggered',
+    triggered_at: '2026-01-05T10:00:00Z',
+    fill_price: 100,
+    closed_at: null,
+    exit_price: null,
+    realized_r: null,
+    evaluated_until: '2026-01-05T10:00:00Z',
+    ...overrides
+  };
+}
+
+Deno.test('advanceSignal assumes the stop fills first when both levels are in one bar', () => {
+  const next = advanceSignal(signal({}), [
+    candle('2026-01-05T10:00:00Z', 101, 99.5, 100.5),
+    candle('2026-01-05T10:05:00Z', 105, 97, 101)
+  ]);
+  
+  strictEqual(next.status, 'lost');
+  strictEqual(next.closed_at, '2026-01-05T10:05:00Z');
+  strictEqual(next.exit_price, 98);
+  strictEqual(next.realized_r, -1);
+});
+
+Deno.test('advanceSignal loses a pending signal filled and stopped in one bar', () => {
+  const next = advanceSignal(signal({ status: 'pending', triggered_at: null, fill_price: null }), [
+    candle('2026-01-05T10:00:00Z', 102, 101, 101.5),
+    candle('2026-01-05T10:05:00Z', 105, 97, 101)
+  ]);
+  
+  strictEqual(next.status, 'lost');
+  strictEqual(next.triggered_at, '2026-01-05T10:05:00Z');
+  strictEqual(next.fill_price, 100);
+  strictEqual(next.realized_r, -1);
+});
+
+Deno.test('advanceSignal wins when only the target is reached', () => {
+  const next = advanceSignal(signal({}), [
+    candle('2026-01-05T10:00:00Z', 102, 99, 101),
+    candle('2026-01-05T10:05:00Z', 104.5, 101, 104)
+  ]);
+  
+  strictEqual(next.status, 'won');
+  strictEqual(next.exit_price, 104);
+  strictEqual(next.realized_r, 2);
+});
+
+Deno.test('advanceSignal skips candles it has already applied', () => {
+  const next = advanceSignal(signal({ evaluated_until: '2026-01-05T10:05:00Z' }), [
+    candle('2026-01-05T10:00:00Z', 105, 97, 101),
+    candle('2026-01-05T10:05:00Z', 101, 99, 100)
+  ]);
+  
+  strictEqual(next.status, 'triggered');
+  strictEqual(next.evaluated_until, '2026-01-05T10:10:00.000Z');
+});
@@ -0,0 +1,178 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.8';
+import { fetchCandleRange } from './candles.ts';
+import {
+  barCloseTime,
+  BASE_TIMEFRAME,
+  timeframeToMs,
+  type OHLCV,
+  type Timeframe
+} from './timeframes.ts';
+
+export type SignalStatus = 'pending' | 'triggered' | 'won' | 'lost' | 'expired';
+
+export const OPEN_STATUSES: SignalStatus[] = ['pending', 'triggered'];
+
+// A pending signal whose entry is not reached within this many bars of its
+// own timeframe is expired
+export const PENDING_EXPIRY_BARS = 24;
+
+export interface SignalState {
+  id: string;
+  asset: string;
+  bias: string;
+  entry_price: number;
+  stop_loss: number;
+  take_profit: number;
+  signal_time: string;
+  expires_at: string | null;
+  status: SignalStatus;
+  triggered_at: string | null;
+  fill_price: number | null;
+  closed_at: string | null;
+  exit_price: number | null;
+  realized_r: number | null;
+  // Candles opening before this time have already been applied
+  evaluated_until: string | null;
+}
+
+// Lifecycle columns for a freshly generated signal. Market entries are filled
+// at the signal price straight away; limit entries wait for price to return.
+export function initialLifecycle(
+  signalTime: string,
+  timeframe: Timeframe,
+  entryPrice: number,
+  fillImmediately: boolean
+) {
+  return {
+    signal_time: signalTime,
+    expires_at: new Date(
+      new Date(signalTime).getTime() + PENDING_EXPIRY_BARS * timeframeToMs(timeframe)
+    ).toISOString(),
+    status: (fillImmediately ? 'triggered' : 'pending') as SignalStatus,
+    triggered_at: fillImmediately ? signalTime : null,
+    fill_price: fillImmediately ? entryPrice : null,
+    evaluated_until: signalTime
+  };
+}
+
+function realizedR(signal: SignalState, exitPrice: number): number {
+  const fill = signal.fill_price ?? signal.entry_price;
+  const risk = Math.abs(fill - signal.stop_loss);
+  if (risk === 0) return 0;
+  
+  const move = signal.bias === 'bullish' ? exitPrice - fill : fill - exitPrice;
+  return move / risk;
+}
+
+function close(signal: SignalState, status: SignalStatus, time: string, exitPrice: number | null) {
+  signal.status = status;
+  signal.evaluated_until = time;
+  signal.closed_at = time;
+  signal.exit_price = exitPrice;
+  signal.realized_r = exitPrice === null ? null : realizedR(signal, exitPrice);
+}
+
+// Walks base timeframe candles (oldest first) not yet applied to the signal and
+// moves it through pending → triggered → won/lost, or pending → expired.
+// When a stop and a target (or an entry and a stop) fall inside one candle the
+// intrabar order is unknown, so the worse outcome is assumed.
+export function advanceSignal(signal: SignalState, candles: OHLCV[]): SignalState {
+  const next = { ...signal };
+  const long = signal.bias === 'bullish';
+  const evaluatedUntil = new Date(signal.evaluated_until ?? signal.signal_time).getTime();
+  
+  for (const candle of candles) {
+    const time = new Date(candle.timestamp).getTime();
+    if (time < evaluatedUntil) continue;
+    
+    const stopHit = long ? candle.low <= next.stop_loss : candle.high >= next.stop_loss;
+    const targetHit = long ? candle.high >= next.take_profit : candle.low <= next.take_profit;
+    
+    if (next.status === 'pending') {
+      if (next.expires_at && time >= new Date(next.expires_at).getTime()) {
+        close(next, 'expired', next.expires_at, null);
+        break;
+      }
+      
+      const entryHit = long ? candle.low <= next.entry_price : candle.high >= next.entry_price;
+      if (!entryHit) {
+        next.evaluated_until = barCloseTime(candle.timestamp, BASE_TIMEFRAME);
+        continue;
+      }
+      
+      next.status = 'triggered';
+      next.triggered_at = candle.timestamp;
+      next.fill_price = next.entry_price;
+      
+      if (stopHit) {
+        close(next, 'lost', candle.timestamp, next.stop_loss);
+        break;
+      }
+    } else if (next.status === 'triggered') {
+      if (stopHit) {
+        close(next, 'lost', candle.timestamp, next.stop_loss);
+        break;
+      }
+      if (targetHit) {
+        close(next, 'won', candle.timestamp, next.take_profit);
+        break;
+      }
+    }
+    
+    next.evaluated_until = barCloseTime(candle.timestamp, BASE_TIMEFRAME);
+  }
+  
+  return next;
+}
+
+// Advances every open signal for `asset` using base timeframe candles
+export async function resolveOpenSignals(supabase: SupabaseClient, asset: string) {
+  const { data, error } = await supabase
+    .from('trade_signals')
+    .select('id, asset, bias, entry_price, stop_loss, take_profit, signal_time, expires_at, status, triggered_at, fill_price, closed_at, exit_price, realized_r, evaluated_until')
+    .eq('asset', asset)
+    .in('status', OPEN_STATUSES)
+    .not('signal_time', 'is', null);
+  
+  if (error) throw error;
+  
+  const signals = (data ?? []) as SignalState[];
+  if (signals.length === 0) return { checked: 0, updated: 0 };
+  
+  const earliest = Math.min(
+    ...signals.map(s => new Date(s.evaluated_until ?? s.signal_time).getTime())
+  );
+  const candles = await fetchCandleRange(supabase, asset, BASE_TIMEFRAME, earliest);
+  
+  let updated = 0;
+  for (const signal of signals) {
+    const next = advanceSignal(signal, candles);
+    if (next.status === signal.status && next.evaluated_until === signal.evaluated_until) continue;
+    
+    const { error: updateError } = await supabase
+      .from('trade_signals')
+      .update({
+        status: next.status,
+        triggered_at: next.triggered_at,
+        fill_price: next.fill_price,
+        closed_at: next.closed_at,
+        exit_price: next.exit_price,
+        realized_r: next.realized_r,
+        evaluated_until: next.evaluated_until,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', signal.id);
+    
+    if (updateError) {
+      console.error(`Error updating signal ${signal.id}:`, updateError);
+      throw updateError;
+    }
+    
+    if (next.status !== signal.status) {
+      console.log(`Signal ${signal.id} ${signal.status} -> ${next.status}`);
+    }
+    updated++;
+  }
+  
+  return { checked: signals.length, updated };
+}
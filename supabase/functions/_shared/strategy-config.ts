@@ -0,0 +1,135 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.8';
+
+// Entry strategy families from ict-entries; signal names start with these
+export const ENTRY_STRATEGIES = [
+  'Bullish_Engulfing',
+  'Bearish_Engulfing',
+  'Turtle_Soup',
+  'CRT_Breakout',
+  'PD_Array_Rejection',
+  'FVG_Return',
+  'Order_Block',
+  'IPDA'
+] as const;
+
+// The single strategy behind ict-signals
+export const BIAS_STRATEGY = 'ICT_Quarterly_Bias';
+
+export type StrategyName = typeof ENTRY_STRATEGIES[number] | typeof BIAS_STRATEGY;
+
+export const STRATEGY_NAMES: StrategyName[] = [...ENTRY_STRATEGIES, BIAS_STRATEGY];
+
+export interface StrategyParams {
+  enabled: boolean;
+  // Signals whose confluence score falls below this are dropped
+  min_confidence: number;
+  // ATR based exits
+  stop_atr_multiple: number;
+  target_atr_multiple: number;
+  // Structural exits (FVG and order block): stop this many ATR beyond the
+  // zone, target this many R away
+  stop_buffer_atr: number;
+  target_r: number;
+  turtle_soup_lookback: number;
+  // Widest range, as a share of its midpoint, the last six bars may span to
+  // count as a CRT consolidation
+  crt_max_range: number;
+  // Relative distance at which highs or lows count as equal
+  liquidity_tolerance: number;
+  // Body to range ratio at or below which the signal candle is a doji and
+  // the entry is skipped; 0 leaves doji candles in
+  doji_threshold: number;
+  // Bars of the signal timeframe after a signal during which the same
+  // asset, strategy and bias stays quiet
+  cooldown_bars: number;
+  // Relative entry distance at which a new signal repeats an open one
+  duplicate_tolerance: number;
+}
+
+const BASE_PARAMS: StrategyParams = {
+  enabled: true,
+  min_confidence: 0,
+  stop_atr_multiple: 1.5,
+  target_atr_multiple: 3,
+  stop_buffer_atr: 0.5,
+  target_r: 2,
+  turtle_soup_lookback: 20,
+  crt_max_range: 0.005,
+  liquidity_tolerance: 0.005,
+  doji_threshold: 0,
+  cooldown_bars: 12,
+  duplicate_tolerance: 0.001
+};
+
+const STRATEGY_DEFAULTS: Record<StrategyName, Partial<StrategyParams>> = {
+  Bullish_Engulfing: {},
+  Bearish_Engulfing: {},
+  Turtle_Soup: {},
+  CRT_Breakout: {},
+  PD_Array_Rejection: {},
+  FVG_Return: {},
+  Order_Block: { stop_buffer_atr: 0.25 },
+  IPDA: {},
+  ICT_Quarterly_Bias: {}
+};
+
+export interface StrategyConfig {
+  id: string;
+  user_id: string | null;
+  strategy: string;
+  // null applies to every asset
+  asset: string | null;
+  version: number;
+  params: Partial<StrategyParams>;
+}
+
+export interface ResolvedStrategy extends StrategyParams {
+  config_id: string | null;
+  config_version: number | null;
+}
+
+export function defaultParams(strategy: StrategyName): StrategyParams {
+  return { ...BASE_PARAMS, ...STRATEGY_DEFAULTS[strategy] };
+}
+
+// Maps a signal name such as 'Turtle_Soup_Bullish' to its family
+export function strategyFamily(name: string): StrategyName | null {
+  return STRATEGY_NAMES.find(strategy => name.startsWith(strategy)) ?? null;
+}
+
+// Defaults overlaid with the active config for the strategy, where an
+// asset-specific config beats one that applies to every asset
+export function resolveStrategy(
+  configs: StrategyConfig[],
+  strategy: StrategyName,
+  asset: string
+): ResolvedStrategy {
+  const config =
+    configs.find(c => c.strategy === strategy && c.asset === asset) ??
+    configs.find(c => c.strategy === strategy && c.asset === null);
+  
+  return {
+    ...defaultParams(strategy),
+    ...config?.params,
+    config_id: config?.id ?? null,
+    config_version: config?.version ?? null
+  };
+}
+
+// Active configs for one user; null reads the shared configs that have no owner
+export async function loadActiveConfigs(
+  supabase: SupabaseClient,
+  userId: string | null = null
+): Promise<StrategyConfig[]> {
+  let query = supabase
+    .from('strategy_configs')
+    .select('id, user_id, strategy, asset, version, params')
+    .eq('is_active', true);
+  
+  query = userId ? query.eq('user_id', userId) : query.is('user_id', null);
+  
+  const { data, error } = await query;
+  if (error) throw error;
+  
+  return (data ?? []) as StrategyConfig[];
+}
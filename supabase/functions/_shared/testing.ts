@@ -0,0 +1,48 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.8';
+
+// Stand-in Supabase client for the tests
+
+export interface QueryResult {
+  data: unknown;
+  error: unknown;
+}
+
+export interface RecordedQuery {
+  table: string;
+  // Builder methods in call order, e.g. ['update', [{ ... }]], ['eq', ['id', 'a']]
+  calls: [string, unknown[]][];
+}
+
+// Each awaited query takes the next result queued for its table, or no rows
+// once the queue is empty. Every query is recorded with the calls made on it.
+export function fakeClient(results: Record<string, QueryResult[]> = {}) {
+  const queries: RecordedQuery[] = [];
+  
+  const client = {
+    from(table: string) {
+      const query: RecordedQuery = { table, calls: [] };
+      queries.push(query);
+      
+      const builder: unknown = new Proxy({}, {
+        get(_target, method: string) {
+          if (method === 'then') {
+            const result = results[table]?.shift() ?? { data: null, error: null };
+            return (resolve: (value: QueryResult) => void) => resolve(result);
+          }
+          return (...args: unknown[]) => {
+            query.calls.push([method, args]);
+            return builder;
+          };
+        }
+      });
+      return builder;
+    }
+  };
+  
+  return { client: client as unknown as SupabaseClient, queries };
+}
+
+// Arguments of the first `method` call made on `query`
+export function argsOf(query: RecordedQuery, method: string): unknown[] | undefined {
+  return query.calls.find(([name]) => name === method)?.[1];
+}
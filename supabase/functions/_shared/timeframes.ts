@@ -0,0 +1,102 @@
+import { ValidationError } from './errors.ts';
+
+export const BASE_TIMEFRAME = '5min';
+
+export const TIMEFRAMES = ['5min', '15min', '1h', '4h', '1d', '1w'] as const;
+
+export type Timeframe = typeof TIMEFRAMES[number];
+
+// Each timeframe is built from the one before it, so a refresh only has to
+// read a handful of lower-timeframe bars per affected bucket.
+export const RESAMPLE_CHAIN: [Timeframe, Timeframe][] = [
+  ['5min', '15min'],
+  ['15min', '1h'],
+  ['1h', '4h'],
+  ['4h', '1d'],
+  ['1d', '1w'],
+];
+
+const MINUTE = 60 * 1000;
+
+const TIMEFRAME_MS: Record<Timeframe, number> = {
+  '5min': 5 * MINUTE,
+  '15min': 15 * MINUTE,
+  '1h': 60 * MINUTE,
+  '4h': 240 * MINUTE,
+  '1d': 1440 * MINUTE,
+  '1w': 7 * 1440 * MINUTE,
+};
+
+// 1970-01-01 was a Thursday; weekly buckets start on Monday 00:00 UTC
+const WEEK_OFFSET = 4 * 1440 * MINUTE;
+
+export interface OHLCV {
+  timestamp: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export function isTimeframe(value: unknown): value is Timeframe {
+  return typeof value === 'string' && (TIMEFRAMES as readonly string[]).includes(value);
+}
+
+export function parseTimeframe(value: unknown, fallback: Timeframe = BASE_TIMEFRAME): Timeframe {
+  if (value === undefined || value === null || value === '') return fallback;
+  if (!isTimeframe(value)) {
+    throw new ValidationError(`Unsupported timeframe: ${value}. Expected one of ${TIMEFRAMES.join(', ')}`);
+  }
+  return value;
+}
+
+export function timeframeToMs(timeframe: Timeframe): number {
+  return TIMEFRAME_MS[timeframe];
+}
+
+// Start of the UTC bucket containing `time`
+export function bucketStart(time: number, timeframe: Timeframe): number {
+  const size = TIMEFRAME_MS[timeframe];
+  if (timeframe === '1w') {
+    return Math.floor((time - WEEK_OFFSET) / size) * size + WEEK_OFFSET;
+  }
+  return Math.floor(time / size) * size;
+}
+
+// Aggregates candles (any order) into `timeframe` buckets, oldest first
+export function resample<T extends OHLCV>(candles: T[], timeframe: Timeframe): OHLCV[] {
+  const sorted = [...candles].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+  const buckets = new Map<number, OHLCV>();
+  
+  for (const candle of sorted) {
+    const start = bucketStart(new Date(candle.timestamp).getTime(), timeframe);
+    const bucket = buckets.get(start);
+    
+    if (!bucket) {
+      buckets.set(start, {
+        timestamp: new Date(start).toISOString(),
+        open: candle.open,
+        high: candle.high,
+        low: candle.low,
+        close: candle.close,
+        volume: candle.volume
+      });
+      continue;
+    }
+    
+    bucket.high = Math.max(bucket.high, candle.high);
+    bucket.low = Math.min(bucket.low, candle.low);
+    bucket.close = candle.close;
+    bucket.volume += candle.volume;
+  }
+  
+  return [...buckets.values()];
+}
+
+// Candles are stamped with their open time; this is when the bar closed
+export function barCloseTime(timestamp: string, timeframe: Timeframe): string {
+  return new Date(new Date(timestamp).getTime() + timeframeToMs(timeframe)).toISOString();
+}
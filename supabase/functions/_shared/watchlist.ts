@@ -0,0 +1,85 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.8';
+import { ValidationError } from './errors.ts';
+
+export interface WatchlistAsset {
+  asset: string;
+  asset_class: string;
+  tick_size: number;
+}
+
+// Active assets on one user's watchlist, or across all watchlists the client
+// can read when no user is given, one entry per asset
+export async function loadWatchlist(
+  supabase: SupabaseClient,
+  userId: string | null = null
+): Promise<WatchlistAsset[]> {
+  let query = supabase
+    .from('watchlist')
+    .select('asset, asset_class, tick_size')
+    .eq('active', true)
+    .order('created_at', { ascending: true });
+  
+  if (userId) {
+    query = query.eq('user_id', userId);
+  }
+  
+  const { data, error } = await query;
+  
+  if (error) {
+    console.error('Error loading watchlist:', error);
+    throw error;
+  }
+  
+  const assets = new Map<string, WatchlistAsset>();
+  for (const row of (data ?? []) as WatchlistAsset[]) {
+    if (assets.has(row.asset)) continue;
+    
+    assets.set(row.asset, {
+      asset: row.asset,
+      asset_class: row.asset_class,
+      tick_size: Number(row.tick_size)
+    });
+  }
+  
+  return [...assets.values()];
+}
+
+// Active assets per watchlist owner, for runs that analyse every user's assets
+export async function loadWatchlistOwners(supabase: SupabaseClient): Promise<Map<string, string[]>> {
+  const { data, error } = await supabase
+    .from('watchlist')
+    .select('user_id, asset')
+    .eq('active', true)
+    .not('user_id', 'is', null);
+  
+  if (error) {
+    console.error('Error loading watchlist owners:', error);
+    throw error;
+  }
+  
+  const owners = new Map<string, string[]>();
+  for (const row of (data ?? []) as { user_id: string; asset: string }[]) {
+    const assets = owners.get(row.user_id) ?? [];
+    if (!assets.includes(row.asset)) assets.push(row.asset);
+    owners.set(row.user_id, assets);
+  }
+  
+  return owners;
+}
+
+// Optional asset filter from a request, as an array or a comma separated list
+export function parseAssets(value: unknown): string[] | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  
+  const assets = typeof value === 'string' ? value.split(',').map(asset => asset.trim()) : value;
+  if (!Array.isArray(assets) || !assets.every(asset => typeof asset === 'string' && asset !== '')) {
+    throw new ValidationError(`Invalid assets: ${JSON.stringify(value)}. Expected asset names`);
+  }
+  return assets;
+}
+
+export function roundToTick(price: number, tickSize: number): number {
+  if (!tickSize || tickSize <= 0) return price;
+  const decimals = Math.max(0, Math.ceil(-Math.log10(tickSize)));
+  return Number((Math.round(price / tickSize) * tickSize).toFixed(decimals));
+}
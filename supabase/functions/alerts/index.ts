@@ -0,0 +1,120 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { authenticate, createServiceClient, isAdmin, isServiceRequest } from '../_shared/auth.ts';
+import { dispatchSignalAlerts, retryDueDeliveries, sendTestAlert } from '../_shared/alerts/dispatch.ts';
+import { ValidationError } from '../_shared/errors.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+  
+  try {
+    // pg_cron calls with the service role key, everyone else has to sign in
+    const service = isServiceRequest(req);
+    const auth = service ? null : await authenticate(req);
+    if (!service && !auth) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    
+    // Reads go through the caller's client so they only reach what the caller
+    // can see; deliveries are written with the service role only
+    const supabase = auth?.supabase ?? createServiceClient();
+    const writer = createServiceClient();
+    const url = new URL(req.url);
+    
+    if (req.method === 'POST') {
+      const body = await req.json().catch(() => ({}));
+      
+      if (url.pathname === '/alerts') {
+        // Alert on signals stored outside the signal functions
+        if (!Array.isArray(body.signal_ids)) {
+          throw new ValidationError('Expected "signal_ids" to be a list of trade signal ids');
+        }
+        
+        const { data: signals, error } = await supabase
+          .from('trade_signals')
+          .select('id')
+          .in('id', body.signal_ids);
+        if (error) throw error;
+        
+        const summary = await dispatchSignalAlerts(writer, ((signals ?? []) as { id: string }[]).map(signal => signal.id));
+        
+        return new Response(JSON.stringify({ summary }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      
+      if (url.pathname === '/alerts/retry') {
+        // Retries cover every user's deliveries
+        if (!service && !isAdmin(auth!.user)) {
+          return new Response(JSON.stringify({ error: 'Forbidden' }), {
+            status: 403,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+        
+        const summary = await retryDueDeliveries(writer);
+        
+        return new Response(JSON.stringify({ summary }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      
+      if (url.pathname === '/alerts/test') {
+        if (typeof body.destination_id !== 'string' || body.destination_id === '') {
+          throw new ValidationError('Expected "destination_id" to be an alert destination id');
+        }
+        
+        const { data: visible, error } = await supabase
+          .from('alert_destinations')
+          .select('id')
+          .eq('id', body.destination_id)
+          .maybeSingle();
+        if (error) throw error;
+        
+        const delivery = visible && await sendTestAlert(writer, visible.id);
+        if (!delivery) {
+          return new Response(JSON.stringify({ error: `Destination ${body.destination_id} not found` }), {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+        
+        return new Response(JSON.stringify({ delivery }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+    
+    return new Response(JSON.stringify({ error: 'Not found' }), {
+      status: 404,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    
+    console.error('Error in alerts function:', error);
+    return new Response(JSON.stringify({ 
+      error: error.message,
+      details: 'Check function logs for more information'
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,75 @@
+import { deepStrictEqual, ok, strictEqual } from 'node:assert/strict';
+import { HOUR_MS } from '../_shared/ict/testing.ts';
+import type { MarketData } from '../_shared/ict/index.ts';
+import { runBacktest } from './engine.ts';
+
+const asset = { asset: 'EURUSD', asset_class: 'forex', tick_size: 0.0001 };
+
+// 120 hourly bars swinging around a slow uptrend
+const candles: MarketData[] = Array.from({ length: 120 }, (_, i) => {
+  const price = (bar: number) => 100 + bar * 0.05 + 2 * Math.sin(bar / 4);
+  const open = price(i - 1);
+  const close = price(i);
+  return {
+    asset: asset.asset,
+    timestamp: new Date(Date.UTC(2026, 0, 5) + i * HOUR_MS).toISOString(),
+    open,
+    high: Math.max(open, close) + 0.3,
+    low: Math.min(open, close) - 0.3,
+    close,
+    volume: 0
+  };
+});
+
+const from = candles[60].timestamp;
+
+Deno.test('runBacktest only opens trades from the start date, one at a time per strategy', () => {
+  const result = runBacktest(asset, candles, { timeframe: '1h', from });
+  
+  strictEqual(result.bars_tested, 60);
+  ok(result.trades.length > 0);
+  
+  const lastExit = new Map<string, string>();
+  for (const trade of result.trades) {
+    ok(trade.entry_time >= from);
+    const previous = lastExit.get(trade.strategy);
+    ok(!previous || trade.entry_time >= previous, `${trade.strategy} overlaps its previous trade`);
+    if (trade.exit_time) lastExit.set(trade.strategy, trade.exit_time);
+  }
+});
+
+Deno.test('runBacktest summarises closed trades and their equity curve', () => {
+  const result = runBacktest(asset, candles, { timeframe: '1h', from });
+  const closed = result.trades.filter(trade => trade.outcome !== 'open');
+  const totalR = closed.reduce((sum, trade) => sum + trade.r_multiple, 0);
+  
+  strictEqual(result.summary.trades, closed.length);
+  strictEqual(result.equity_curve.length, closed.length);
+  strictEqual(Number(result.summary.total_r.toFixed(10)), Number(totalR.toFixed(10)));
+  strictEqual(Number(result.equity_curve.at(-1)!.equity.toFixed(10)), Number(totalR.toFixed(10)));
+  strictEqual(
+    result.strategies.reduce((sum, stats) => sum + stats.trades, 0),
+    result.summary.trades
+  );
+});
+
+Deno.test('runBacktest keeps only the requested strategies', () => {
+  const result = runBacktest(asset, candles, { timeframe: '1h', from, strategies: ['Turtle_Soup'] });
+  
+  ok(result.trades.length > 0);
+  ok(result.trades.every(trade => trade.strategy.startsWith('Turtle_Soup')));
+});
+
+Deno.test('runBacktest closes trades at market after maxBarsHeld', () => {
+  const result = runBacktest(asset, candles, { timeframe: '1h', from, maxBarsHeld: 1 });
+  
+  ok(result.trades.every(trade => trade.bars_held <= 1));
+  ok(result.trades.some(trade => trade.outcome === 'timeout'));
+});
+
+Deno.test('runBacktest needs a full analysis warm-up before signalling', () => {
+  const result = runBacktest(asset, candles.slice(0, 59), { timeframe: '1h' });
+  
+  deepStrictEqual(result.trades, []);
+  strictEqual(result.bars_tested, 59);
+});
@@ -0,0 +1,213 @@
+import {
+  ANALYSIS_WINDOW,
+  generateEntrySignals,
+  type EntryOptions,
+  type EntrySignal
+} from '../ict-entries/strategies.ts';
+import type { MarketData } from '../_shared/ict/index.ts';
+import { summarizeResults, type PerformanceStats } from '../_shared/performance.ts';
+import { timeframeToMs, type Timeframe } from '../_shared/timeframes.ts';
+import type { WatchlistAsset } from '../_shared/watchlist.ts';
+
+export type TradeOutcome = 'win' | 'loss' | 'timeout' | 'open';
+
+export interface BacktestTrade {
+  strategy: string;
+  bias: 'bullish' | 'bearish';
+  confidence: number;
+  session: string | null;
+  entry_time: string;
+  entry_price: number;
+  stop_loss: number;
+  take_profit: number;
+  exit_time: string | null;
+  exit_price: number | null;
+  outcome: TradeOutcome;
+  r_multiple: number;
+  bars_held: number;
+}
+
+export interface StrategyStats extends PerformanceStats {
+  strategy: string;
+  timeouts: number;
+}
+
+export interface EquityPoint {
+  time: string;
+  equity: number;
+  drawdown: number;
+}
+
+export interface BacktestOptions extends EntryOptions {
+  timeframe: Timeframe;
+  // Earlier candles only warm up the analysis window; no trades open before this
+  from?: string;
+  // Strategy name prefixes to keep, e.g. ['Turtle_Soup', 'IPDA']; empty keeps all
+  strategies?: string[];
+  // Close trades at market after this many bars; 0 lets them run to SL/TP
+  maxBarsHeld?: number;
+}
+
+export interface BacktestResult {
+  summary: StrategyStats;
+  strategies: StrategyStats[];
+  trades: BacktestTrade[];
+  equity_curve: EquityPoint[];
+  bars_tested: number;
+}
+
+function matchesStrategy(signal: EntrySignal, filters: string[]): boolean {
+  return filters.length === 0 || filters.some(prefix => signal.strategy.startsWith(prefix));
+}
+
+function riskOf(trade: Pick<BacktestTrade, 'entry_price' | 'stop_loss'>): number {
+  return Math.abs(trade.entry_price - trade.stop_loss);
+}
+
+function rMultiple(trade: BacktestTrade, exitPrice: number): number {
+  const risk = riskOf(trade);
+  if (risk === 0) return 0;
+  
+  const move = trade.bias === 'bullish'
+    ? exitPrice - trade.entry_price
+    : trade.entry_price - exitPrice;
+  return move / risk;
+}
+
+function closeTrade(trade: BacktestTrade, candle: MarketData, exitPrice: number, outcome: TradeOutcome) {
+  trade.exit_time = candle.timestamp;
+  trade.exit_price = exitPrice;
+  trade.outcome = outcome;
+  trade.r_multiple = rMultiple(trade, exitPrice);
+}
+
+// Checks one candle against an open trade. When the stop and the target are
+// both inside the same candle the order is unknown, so the stop is assumed
+// to fill first.
+function updateTrade(trade: BacktestTrade, candle: MarketData, maxBarsHeld: number) {
+  trade.bars_held++;
+  
+  const long = trade.bias === 'bullish';
+  const stopHit = long ? candle.low <= trade.stop_loss : candle.high >= trade.stop_loss;
+  const targetHit = long ? candle.high >= trade.take_profit : candle.low <= trade.take_profit;
+  
+  if (stopHit) {
+    closeTrade(trade, candle, trade.stop_loss, 'loss');
+  } else if (targetHit) {
+    closeTrade(trade, candle, trade.take_profit, 'win');
+  } else if (maxBarsHeld > 0 && trade.bars_held >= maxBarsHeld) {
+    closeTrade(trade, candle, candle.close, 'timeout');
+  }
+}
+
+function closedByExit(trades: BacktestTrade[]): BacktestTrade[] {
+  return trades
+    .filter(t => t.outcome !== 'open' && t.exit_time)
+    .sort((a, b) => new Date(a.exit_time!).getTime() - new Date(b.exit_time!).getTime());
+}
+
+export function calculateStats(strategy: string, trades: BacktestTrade[]): StrategyStats {
+  const closed = closedByExit(trades);
+  
+  return {
+    strategy,
+    ...summarizeResults(closed.map(t => t.r_multiple)),
+    timeouts: closed.filter(t => t.outcome === 'timeout').length
+  };
+}
+
+function buildEquityCurve(trades: BacktestTrade[]): EquityPoint[] {
+  let equity = 0;
+  let peak = 0;
+  return closedByExit(trades).map(trade => {
+    equity += trade.r_multiple;
+    peak = Math.max(peak, equity);
+    return { time: trade.exit_time!, equity, drawdown: equity - peak };
+  });
+}
+
+// Replays `candles` (oldest first) bar by bar. At each bar the strategies see
+// the same trailing window the live ict-entries function would have seen at
+// that bar's close and nothing after it. Signals fill at the signal price and
+// are managed against SL/TP from the next bar on, one open trade per strategy.
+export function runBacktest(
+  asset: WatchlistAsset,
+  candles: MarketData[],
+  options: BacktestOptions,
+  biasData?: { timeframe: Timeframe; candles: MarketData[] }
+): BacktestResult {
+  const filters = options.strategies ?? [];
+  const maxBarsHeld = options.maxBarsHeld ?? 0;
+  const trades: BacktestTrade[] = [];
+  const open = new Map<string, BacktestTrade>();
+  const barDuration = timeframeToMs(options.timeframe);
+  const biasDuration = biasData ? timeframeToMs(biasData.timeframe) : 0;
+  const tradeFrom = options.from ? new Date(options.from).getTime() : -Infinity;
+  let biasEnd = 0;
+  let barsTested = 0;
+  
+  for (let i = 0; i < candles.length; i++) {
+    const candle = candles[i];
+    
+    for (const [strategy, trade] of open) {
+      updateTrade(trade, candle, maxBarsHeld);
+      if (trade.outcome !== 'open') open.delete(strategy);
+    }
+    
+    if (new Date(candle.timestamp).getTime() < tradeFrom) continue;
+    barsTested++;
+    
+    const window = candles.slice(Math.max(0, i + 1 - ANALYSIS_WINDOW), i + 1);
+    const closeTime = new Date(candle.timestamp).getTime() + barDuration;
+    let bias = window;
+    
+    // Only higher timeframe bars that had closed by this bar's close are visible
+    if (biasData) {
+      while (
+        biasEnd < biasData.candles.length &&
+        new Date(biasData.candles[biasEnd].timestamp).getTime() + biasDuration <= closeTime
+      ) {
+        biasEnd++;
+      }
+      bias = biasData.candles.slice(Math.max(0, biasEnd - ANALYSIS_WINDOW), biasEnd);
+    }
+    
+    const signals = generateEntrySignals(asset, window, options.timeframe, bias, options)
+      .filter(signal => matchesStrategy(signal, filters));
+    
+    for (const signal of signals) {
+      if (open.has(signal.strategy)) continue;
+      
+      const trade: BacktestTrade = {
+        strategy: signal.strategy,
+        bias: signal.bias,
+        confidence: signal.confidence,
+        session: signal.session,
+        entry_time: candle.timestamp,
+        entry_price: signal.entry_price,
+        stop_loss: signal.stop_loss,
+        take_profit: signal.take_profit,
+        exit_time: null,
+        exit_price: null,
+        outcome: 'open',
+        r_multiple: 0,
+        bars_held: 0
+      };
+      
+      if (riskOf(trade) === 0) continue;
+      
+      trades.push(trade);
+      open.set(signal.strategy, trade);
+    }
+  }
+  
+  const strategyNames = [...new Set(trades.map(t => t.strategy))].sort();
+  
+  return {
+    summary: calculateStats('All', trades),
+    strategies: strategyNames.map(name => calculateStats(name, trades.filter(t => t.strategy === name))),
+    trades,
+    equity_curve: buildEquityCurve(trades),
+    bars_tested: barsTested
+  };
+}
@@ -0,0 +1,206 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.8';
+import { authenticate } from '../_shared/auth.ts';
+import { fetchCandleRange } from '../_shared/candles.ts';
+import { ValidationError } from '../_shared/errors.ts';
+import { ENTRY_STRATEGIES, loadActiveConfigs } from '../_shared/strategy-config.ts';
+import { parseTimeframe, timeframeToMs, type Timeframe } from '../_shared/timeframes.ts';
+import { loadWatchlist } from '../_shared/watchlist.ts';
+import { parseSessionCalendar, parseSessions, type MarketData } from '../_shared/ict/index.ts';
+import { ANALYSIS_WINDOW } from '../ict-entries/strategies.ts';
+import { runBacktest } from './engine.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Tested bars times strategies. Every bar runs the entry analysis over a full
+// window, so this keeps a run inside the edge function time limit.
+const MAX_BAR_EVALUATIONS = 100_000;
+
+// Strategy families to keep; empty keeps all of them
+function parseStrategies(value: unknown): string[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || !value.every(name => (ENTRY_STRATEGIES as readonly unknown[]).includes(name))) {
+    throw new ValidationError(
+      `Invalid strategies: ${JSON.stringify(value)}. Expected a list of ${ENTRY_STRATEGIES.join(', ')}`
+    );
+  }
+  return value;
+}
+
+// Candles before `from` that are loaded so the first tested bar has a full window
+async function loadCandles(
+  supabase: SupabaseClient,
+  asset: string,
+  timeframe: Timeframe,
+  from: number,
+  to: number
+): Promise<MarketData[]> {
+  const warmup = ANALYSIS_WINDOW * timeframeToMs(timeframe);
+  const candles = await fetchCandleRange(supabase, asset, timeframe, from - warmup, to);
+  return candles.map(candle => ({ ...candle, asset }));
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+  
+  try {
+    const auth = await authenticate(req);
+    if (!auth) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const { supabase, user } = auth;
+    const url = new URL(req.url);
+    
+    if (url.pathname === '/backtest') {
+      if (req.method === 'GET') {
+        // A single run with its trades, or the latest runs without them
+        const id = url.searchParams.get('id');
+        const query = id
+          ? supabase.from('backtest_runs').select('*').eq('id', id)
+          : supabase
+            .from('backtest_runs')
+            .select('id, asset, timeframe, bias_timeframe, range_start, range_end, strategies, summary, created_at')
+            .order('created_at', { ascending: false })
+            .limit(50);
+        
+        const { data, error } = await query;
+        if (error) throw error;
+        
+        return new Response(JSON.stringify({ runs: data }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      
+      if (req.method === 'POST') {
+        const body = await req.json().catch(() => ({}));
+        const timeframe = parseTimeframe(body.timeframe);
+        const biasTimeframe = parseTimeframe(body.bias_timeframe, timeframe);
+        const from = new Date(body.from);
+        const to = body.to ? new Date(body.to) : new Date();
+        const strategies = parseStrategies(body.strategies);
+        const maxBarsHeld = Number(body.max_bars_held) || 0;
+        const sessions = parseSessions(body.sessions) ?? [];
+        
+        if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+          throw new ValidationError('Backtest needs a valid "from" date before "to"');
+        }
+        
+        // Checked before any candles are loaded, from the bars the range spans
+        const bars = Math.ceil((to.getTime() - from.getTime()) / timeframeToMs(timeframe));
+        const strategyCount = strategies.length || ENTRY_STRATEGIES.length;
+        if (bars * strategyCount > MAX_BAR_EVALUATIONS) {
+          return new Response(JSON.stringify({
+            error: `Backtest covers ${bars} bars for ${strategyCount} strategies; ` +
+              `keep bars times strategies to ${MAX_BAR_EVALUATIONS}`
+          }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+        
+        const watchlist = await loadWatchlist(supabase, user.id);
+        const asset = watchlist.find(item => item.asset === body.asset);
+        if (!asset) {
+          return new Response(JSON.stringify({ error: `Asset ${body.asset} is not in the watchlist` }), {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+        
+        console.log(`Backtesting ${asset.asset} ${timeframe} from ${from.toISOString()} to ${to.toISOString()}`);
+        
+        const candles = await loadCandles(supabase, asset.asset, timeframe, from.getTime(), to.getTime());
+        const biasCandles = biasTimeframe === timeframe
+          ? undefined
+          : {
+            timeframe: biasTimeframe,
+            candles: await loadCandles(supabase, asset.asset, biasTimeframe, from.getTime(), to.getTime())
+          };
+        
+        // The caller's saved configs, so the backtest trades what ict-entries would
+        const configs = await loadActiveConfigs(supabase, user.id);
+        
+        const result = runBacktest(
+          asset,
+          candles,
+          {
+            timeframe,
+            from: from.toISOString(),
+            strategies,
+            maxBarsHeld,
+            sessions,
+            calendar: parseSessionCalendar(Deno.env.get('SESSION_CALENDAR')),
+            configs
+          },
+          biasCandles
+        );
+        
+        console.log(`Backtest produced ${result.trades.length} trades over ${result.bars_tested} bars`);
+        
+        const { data: run, error } = await supabase
+          .from('backtest_runs')
+          .insert({
+            asset: asset.asset,
+            timeframe,
+            bias_timeframe: biasTimeframe,
+            range_start: from.toISOString(),
+            range_end: to.toISOString(),
+            strategies,
+            params: { max_bars_held: maxBarsHeld, sessions },
+            bars_tested: result.bars_tested,
+            summary: result.summary,
+            strategy_stats: result.strategies,
+            trades: result.trades,
+            equity_curve: result.equity_curve
+          })
+          .select()
+          .single();
+        
+        if (error) {
+          console.error('Error storing backtest run:', error);
+          throw error;
+        }
+        
+        return new Response(JSON.stringify({ 
+          success: true,
+          run,
+          message: `Backtest finished with ${result.summary.trades} closed trades`
+        }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+    
+    return new Response(JSON.stringify({ error: 'Not found' }), {
+      status: 404,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    
+    console.error('Error in backtest function:', error);
+    return new Response(JSON.stringify({ 
+      error: error.message,
+      details: 'Check function logs for more information'
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
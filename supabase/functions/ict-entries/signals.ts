@@ -0,0 +1,84 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.8';
+import { fetchRecentCandles } from '../_shared/candles.ts';
+import { storeSignals, type StoreSummary } from '../_shared/signal-dedup.ts';
+import { initialLifecycle } from '../_shared/signal-lifecycle.ts';
+import type { StrategyConfig } from '../_shared/strategy-config.ts';
+import type { Timeframe } from '../_shared/timeframes.ts';
+import { loadWatchlist } from '../_shared/watchlist.ts';
+import {
+  ANALYSIS_WINDOW,
+  generateEntrySignals,
+  type EntryOptions,
+  type EntrySignal
+} from './strategies.ts';
+
+export interface EntryRunOptions extends EntryOptions {
+  // Owner of the watchlist analysed and of the stored signals
+  userId: string;
+  timeframe: Timeframe;
+  biasTimeframe: Timeframe;
+  // Limits the run to these watchlist assets; all of them when omitted
+  assets?: string[];
+}
+
+// Entry signals fill at the signal bar's close, so they start out triggered
+async function storeEntrySignals(
+  supabase: SupabaseClient,
+  userId: string,
+  signals: EntrySignal[],
+  configs: StrategyConfig[]
+): Promise<StoreSummary> {
+  const signalsToStore = signals.map(signal => ({
+    user_id: userId,
+    asset: signal.asset,
+    timeframe: signal.timeframe,
+    bias: signal.bias,
+    entry_price: signal.entry_price,
+    stop_loss: signal.stop_loss,
+    take_profit: signal.take_profit,
+    liquidity_zones: {
+      strategy: signal.strategy,
+      confidence: signal.confidence
+    },
+    strategy: signal.strategy,
+    confidence: signal.confidence,
+    confluence: signal.confluence,
+    session: signal.session,
+    config_id: signal.config_id,
+    config_version: signal.config_version,
+    ...initialLifecycle(signal.signal_time, signal.timeframe as Timeframe, signal.entry_price, true)
+  }));
+  
+  return storeSignals(supabase, signalsToStore, configs);
+}
+
+// Generates and stores entry signals for each of the user's watchlist assets
+// with candles, folding repeats into the signals they repeat
+export async function generateEntries(
+  supabase: SupabaseClient,
+  options: EntryRunOptions
+): Promise<{ signals: EntrySignal[]; stored: StoreSummary }> {
+  const { userId, timeframe, biasTimeframe, assets, ...entryOptions } = options;
+  
+  const watchlist = await loadWatchlist(supabase, userId);
+  const signals: EntrySignal[] = [];
+  
+  for (const asset of watchlist) {
+    if (assets && !assets.includes(asset.asset)) continue;
+    
+    const assetData = await fetchRecentCandles(supabase, asset.asset, timeframe, ANALYSIS_WINDOW);
+    if (assetData.length === 0) continue;
+    
+    const biasData = biasTimeframe === timeframe
+      ? assetData
+      : await fetchRecentCandles(supabase, asset.asset, biasTimeframe, ANALYSIS_WINDOW);
+    
+    const assetSignals = generateEntrySignals(asset, assetData, timeframe, biasData, entryOptions);
+    signals.push(...assetSignals);
+    console.log(`Generated ${assetSignals.length} ${asset.asset} entry signals`);
+  }
+  
+  const stored = await storeEntrySignals(supabase, userId, signals, entryOptions.configs ?? []);
+  
+  return { signals, stored };
+}
@@ -0,0 +1,424 @@
+import {
+  analyzeMarketStructure,
+  analyzePDArrays,
+  analyzeVolatility,
+  asianRangeZones,
+  calculateATR,
+  detectFVGs,
+  detectLiquiditySweep,
+  detectOrderBlocks,
+  findAsianRange,
+  getQuarterlyBias,
+  identifyLiquidityPools,
+  quarterOf,
+  scoreConfluence,
+  sessionAt,
+  sessionsApply,
+  DEFAULT_SESSIONS,
+  type ConfluenceContext,
+  type ConfluenceFactor,
+  type FairValueGap,
+  type MarketData,
+  type OrderBlock,
+  type PDArrays,
+  type SessionDefinition,
+  type SessionName
+} from '../_shared/ict/index.ts';
+import {
+  resolveStrategy,
+  type StrategyConfig,
+  type StrategyName
+} from '../_shared/strategy-config.ts';
+import { roundToTick, type WatchlistAsset } from '../_shared/watchlist.ts';
+import { barCloseTime, type Timeframe } from '../_shared/timeframes.ts';
+
+// Number of most recent candles the strategies look at for one evaluation
+export const ANALYSIS_WINDOW = 500;
+
+// Recent candles searched for equal highs and lows when scoring a sweep
+const SWEEP_POOL_WINDOW = 50;
+
+export interface EntrySignal {
+  asset: string;
+  timeframe: string;
+  strategy: string;
+  entry_price: number;
+  stop_loss: number;
+  take_profit: number;
+  bias: 'bullish' | 'bearish';
+  // Confluence score from 0 to 1, with the factors behind it
+  confidence: number;
+  confluence: ConfluenceFactor[];
+  // Close time of the bar the signal was generated on
+  signal_time: string;
+  // Session the signal bar traded in; null outside sessions or above 1h
+  session: SessionName | null;
+  // strategy_configs row the parameters came from; null for defaults
+  config_id: string | null;
+  config_version: number | null;
+}
+
+interface EntryCandidate {
+  family: StrategyName;
+  strategy: string;
+  bias: 'bullish' | 'bearish';
+  // Zone edge for structural stops; ATR stops are used without one
+  invalidation?: number;
+}
+
+export interface EntryOptions {
+  // Only emit signals from bars inside these sessions; empty allows any time
+  sessions?: SessionName[];
+  calendar?: SessionDefinition[];
+  // Active strategy_configs; strategies without one use their defaults
+  configs?: StrategyConfig[];
+}
+
+// OHLC Pattern Analysis
+function detectEngulfing(data: MarketData[]): { bullish: boolean; bearish: boolean } {
+  if (data.length < 2) return { bullish: false, bearish: false };
+  
+  const current = data[data.length - 1];
+  const previous = data[data.length - 2];
+  
+  const bullishEngulfing = 
+    previous.close < previous.open && // Previous bearish
+    current.close > current.open && // Current bullish
+    current.open < previous.close && // Current opens below previous close
+    current.close > previous.open; // Current closes above previous open
+  
+  const bearishEngulfing = 
+    previous.close > previous.open && // Previous bullish
+    current.close < current.open && // Current bearish
+    current.open > previous.close && // Current opens above previous close
+    current.close < previous.open; // Current closes below previous open
+  
+  return { bullish: bullishEngulfing, bearish: bearishEngulfing };
+}
+
+function detectDoji(candle: MarketData, threshold = 0.001): boolean {
+  const bodySize = Math.abs(candle.close - candle.open);
+  const range = candle.high - candle.low;
+  return bodySize / range <= threshold;
+}
+
+// Turtle Soup Pattern
+function detectTurtleSoup(data: MarketData[], lookback = 20): { bullish: boolean; bearish: boolean } {
+  if (data.length < lookback + 2) return { bullish: false, bearish: false };
+  
+  const recent = data.slice(-(lookback + 2));
+  const range = recent.slice(0, lookback);
+  const breakoutCandles = recent.slice(-2);
+  
+  const rangeHigh = Math.max(...range.map(d => d.high));
+  const rangeLow = Math.min(...range.map(d => d.low));
+  
+  // Check for false breakout above the range high (bearish soup)
+  const falseBreakoutUp = 
+    breakoutCandles[0].high > rangeHigh && // First candle breaks high
+    breakoutCandles[1].close < rangeHigh; // Second candle closes back below
+  
+  // Check for false breakout below the range low (bullish soup)
+  const falseBreakoutDown = 
+    breakoutCandles[0].low < rangeLow && // First candle breaks low
+    breakoutCandles[1].close > rangeLow; // Second candle closes back above
+  
+  return { bullish: falseBreakoutDown, bearish: falseBreakoutUp };
+}
+
+// CRT (Constant Range Time)
+function detectCRT(data: MarketData[], maxRange: number): boolean {
+  if (data.length < 6) return false;
+  
+  const recent = data.slice(-6);
+  const highs = recent.map(d => d.high);
+  const lows = recent.map(d => d.low);
+  
+  const rangeHigh = Math.max(...highs);
+  const rangeLow = Math.min(...lows);
+  const range = rangeHigh - rangeLow;
+  const midPoint = (rangeHigh + rangeLow) / 2;
+  
+  // Check if all candles stay within the configured share of the midpoint
+  return range / midPoint <= maxRange;
+}
+
+// PD Array Entry Detection
+function detectPDArrayEntries(data: MarketData[], pdArrays: PDArrays): {
+  rejection: boolean;
+  breakout: boolean;
+  direction: 'bullish' | 'bearish' | null;
+} {
+  if (data.length < 3) return { rejection: false, breakout: false, direction: null };
+  
+  const recent = data.slice(-3);
+  const current = recent[2];
+  const previous = recent[1];
+  
+  // Rejection in premium zone (bearish)
+  if (pdArrays.zone === 'premium') {
+    const rejection = 
+      previous.high >= pdArrays.premium && // Touched premium
+      current.close < previous.low; // Reversed down
+    
+    if (rejection) return { rejection: true, breakout: false, direction: 'bearish' };
+  }
+  
+  // Rejection in discount zone (bullish)
+  if (pdArrays.zone === 'discount') {
+    const rejection = 
+      previous.low <= pdArrays.discount && // Touched discount
+      current.close > previous.high; // Reversed up
+    
+    if (rejection) return { rejection: true, breakout: false, direction: 'bullish' };
+  }
+  
+  // Breakout detection
+  const breakoutUp = current.close > pdArrays.premium;
+  const breakoutDown = current.close < pdArrays.discount;
+  
+  if (breakoutUp) return { rejection: false, breakout: true, direction: 'bullish' };
+  if (breakoutDown) return { rejection: false, breakout: true, direction: 'bearish' };
+  
+  return { rejection: false, breakout: false, direction: null };
+}
+
+// FVG Return: the last candle trades back into a gap nothing had touched yet
+// and closes without running through it. The newest such gap wins.
+function detectFVGReturn(data: MarketData[], minSize: number): FairValueGap | null {
+  if (data.length < 4) return null;
+  
+  const current = data[data.length - 1];
+  const gaps = detectFVGs(data.slice(0, -1), { minSize })
+    .filter(gap => gap.state === 'unmitigated');
+  
+  for (let i = gaps.length - 1; i >= 0; i--) {
+    const gap = gaps[i];
+    
+    if (gap.direction === 'bullish' && current.low <= gap.top && current.close > gap.bottom) {
+      return gap;
+    }
+    if (gap.direction === 'bearish' && current.high >= gap.bottom && current.close < gap.top) {
+      return gap;
+    }
+  }
+  
+  return null;
+}
+
+// Order Block Return: the last candle trades into a block that had not been
+// revisited since it formed and closes back on the block's side
+function detectOrderBlockReturn(data: MarketData[]): OrderBlock | null {
+  const current = data[data.length - 1];
+  const blocks = detectOrderBlocks(data.slice(0, -1))
+    .filter(block => block.state === 'active');
+  
+  for (let i = blocks.length - 1; i >= 0; i--) {
+    const block = blocks[i];
+    
+    if (block.direction === 'bullish' && current.low <= block.top && current.close > block.bottom) {
+      return block;
+    }
+    if (block.direction === 'bearish' && current.high >= block.bottom && current.close < block.top) {
+      return block;
+    }
+  }
+  
+  return null;
+}
+
+// Market Maker Model/IPDA Analysis
+function analyzeIPDA(data: MarketData[], pdArrays: PDArrays): {
+  shouldBuy: boolean;
+  shouldSell: boolean;
+  phase: string;
+} {
+  const currentQuarter = quarterOf(data[data.length - 1].timestamp, 'yearly').quarter;
+  
+  // Q2 Markup Phase - Buy in discount zones
+  if (currentQuarter === 2 && pdArrays.zone === 'discount') {
+    return { shouldBuy: true, shouldSell: false, phase: 'Q2_Markup' };
+  }
+  
+  // Q3 Distribution Phase - Sell in premium zones
+  if (currentQuarter === 3 && pdArrays.zone === 'premium') {
+    return { shouldBuy: false, shouldSell: true, phase: 'Q3_Distribution' };
+  }
+  
+  return { shouldBuy: false, shouldSell: false, phase: 'Neutral' };
+}
+
+// Generate Entry Signals
+export function generateEntrySignals(
+  asset: WatchlistAsset,
+  data: MarketData[],
+  timeframe: Timeframe,
+  biasData: MarketData[] = data,
+  options: EntryOptions = {}
+): EntrySignal[] {
+  if (data.length < 60) return [];
+  
+  // Sessions are ignored on 4h and above, where one bar spans several of them
+  const calendar = options.calendar ?? DEFAULT_SESSIONS;
+  const intraday = sessionsApply(timeframe);
+  const session = intraday ? sessionAt(data[data.length - 1].timestamp, calendar) : null;
+  const allowed = options.sessions ?? [];
+  if (intraday && allowed.length > 0 && (!session || !allowed.includes(session))) {
+    return [];
+  }
+  
+  const currentPrice = data[data.length - 1].close;
+  const atr = calculateATR(data);
+  const volatility = analyzeVolatility(data);
+  const bias = getQuarterlyBias(biasData);
+  const pdArrays = analyzePDArrays(data);
+  const configs = options.configs ?? [];
+  const params = (strategy: StrategyName) => resolveStrategy(configs, strategy, asset.asset);
+  
+  // Only generate signals in high volatility conditions
+  if (!volatility.isHighVolatility || !pdArrays) return [];
+  
+  // Pattern Detection
+  const engulfing = detectEngulfing(data);
+  const turtleSoup = detectTurtleSoup(data, params('Turtle_Soup').turtle_soup_lookback);
+  const crt = detectCRT(data, params('CRT_Breakout').crt_max_range);
+  const pdEntries = detectPDArrayEntries(data, pdArrays);
+  const ipda = analyzeIPDA(data, pdArrays);
+  const fvg = detectFVGReturn(data, atr * 0.25);
+  const orderBlock = detectOrderBlockReturn(data);
+  
+  // Equal highs and lows depend on each strategy's liquidity tolerance, so
+  // the sweep is worked out per tolerance when a candidate is scored
+  const calendarPools = intraday ? asianRangeZones(findAsianRange(data, calendar)) : [];
+  const sweeps = new Map<number, ConfluenceContext['sweep']>();
+  const sweepAt = (tolerance: number) => {
+    if (!sweeps.has(tolerance)) {
+      sweeps.set(tolerance, detectLiquiditySweep(data, [
+        ...identifyLiquidityPools(data.slice(-SWEEP_POOL_WINDOW), tolerance),
+        ...calendarPools
+      ]));
+    }
+    return sweeps.get(tolerance)!;
+  };
+  const context: Omit<ConfluenceContext, 'sweep'> = {
+    bias,
+    trend: analyzeMarketStructure(data).trend,
+    pdZone: pdArrays.zone,
+    highVolatility: volatility.isHighVolatility,
+    session,
+    sessionsApply: intraday
+  };
+  
+  const candidates: EntryCandidate[] = [];
+  
+  // Engulfing Pattern Entries
+  if (engulfing.bullish && bias !== 'bearish') {
+    candidates.push({ family: 'Bullish_Engulfing', strategy: 'Bullish_Engulfing', bias: 'bullish' });
+  }
+  if (engulfing.bearish && bias !== 'bullish') {
+    candidates.push({ family: 'Bearish_Engulfing', strategy: 'Bearish_Engulfing', bias: 'bearish' });
+  }
+  
+  // Turtle Soup Entries
+  if (turtleSoup.bullish) {
+    candidates.push({ family: 'Turtle_Soup', strategy: 'Turtle_Soup_Bullish', bias: 'bullish' });
+  }
+  if (turtleSoup.bearish) {
+    candidates.push({ family: 'Turtle_Soup', strategy: 'Turtle_Soup_Bearish', bias: 'bearish' });
+  }
+  
+  // CRT Breakout Entries (wait for breakout after consolidation)
+  if (crt && bias === 'bullish' && currentPrice > pdArrays.equilibrium) {
+    candidates.push({ family: 'CRT_Breakout', strategy: 'CRT_Breakout_Bullish', bias: 'bullish' });
+  }
+  if (crt && bias === 'bearish' && currentPrice < pdArrays.equilibrium) {
+    candidates.push({ family: 'CRT_Breakout', strategy: 'CRT_Breakout_Bearish', bias: 'bearish' });
+  }
+  
+  // PD Array Rejection Entries
+  if (pdEntries.rejection && pdEntries.direction) {
+    candidates.push({
+      family: 'PD_Array_Rejection',
+      strategy: `PD_Array_Rejection_${pdEntries.direction}`,
+      bias: pdEntries.direction
+    });
+  }
+  
+  // Fair Value Gap Entries (stop beyond the far edge of the gap)
+  if (fvg && fvg.direction === bias) {
+    const long = fvg.direction === 'bullish';
+    candidates.push({
+      family: 'FVG_Return',
+      strategy: long ? 'FVG_Return_Bullish' : 'FVG_Return_Bearish',
+      bias: fvg.direction,
+      invalidation: long ? fvg.bottom : fvg.top
+    });
+  }
+  
+  // Order Block Entries (stop beyond the block)
+  if (orderBlock && orderBlock.direction === bias) {
+    const long = orderBlock.direction === 'bullish';
+    candidates.push({
+      family: 'Order_Block',
+      strategy: long ? 'Order_Block_Bullish' : 'Order_Block_Bearish',
+      bias: orderBlock.direction,
+      invalidation: long ? orderBlock.bottom : orderBlock.top
+    });
+  }
+  
+  // IPDA/Market Maker Model Entries
+  if (ipda.shouldBuy && bias !== 'bearish') {
+    candidates.push({ family: 'IPDA', strategy: 'IPDA_Discount_Buy', bias: 'bullish' });
+  }
+  if (ipda.shouldSell && bias !== 'bullish') {
+    candidates.push({ family: 'IPDA', strategy: 'IPDA_Premium_Sell', bias: 'bearish' });
+  }
+  
+  const signals: Omit<EntrySignal, 'signal_time' | 'session'>[] = [];
+  
+  for (const candidate of candidates) {
+    const config = params(candidate.family);
+    if (!config.enabled) continue;
+    if (config.doji_threshold > 0 && detectDoji(data[data.length - 1], config.doji_threshold)) continue;
+    
+    const confluence = scoreConfluence(candidate.bias, { ...context, sweep: sweepAt(config.liquidity_tolerance) });
+    if (confluence.score < config.min_confidence) continue;
+    
+    const direction = candidate.bias === 'bullish' ? 1 : -1;
+    let stop_loss: number;
+    let take_profit: number;
+    
+    if (candidate.invalidation !== undefined) {
+      stop_loss = candidate.invalidation - (direction * atr * config.stop_buffer_atr);
+      take_profit = currentPrice + (direction * Math.abs(currentPrice - stop_loss) * config.target_r);
+    } else {
+      stop_loss = currentPrice - (direction * atr * config.stop_atr_multiple);
+      take_profit = currentPrice + (direction * atr * config.target_atr_multiple);
+    }
+    
+    signals.push({
+      asset: asset.asset,
+      timeframe,
+      strategy: candidate.strategy,
+      entry_price: currentPrice,
+      stop_loss,
+      take_profit,
+      bias: candidate.bias,
+      confidence: confluence.score,
+      confluence: confluence.factors,
+      config_id: config.config_id,
+      config_version: config.config_version
+    });
+  }
+  
+  const signalTime = barCloseTime(data[data.length - 1].timestamp, timeframe);
+  
+  return signals.map(signal => ({
+    ...signal,
+    signal_time: signalTime,
+    session,
+    entry_price: roundToTick(signal.entry_price, asset.tick_size),
+    stop_loss: roundToTick(signal.stop_loss, asset.tick_size),
+    take_profit: roundToTick(signal.take_profit, asset.tick_size)
+  }));
+}
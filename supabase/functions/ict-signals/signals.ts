@@ -0,0 +1,222 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.8';
+import { fetchRecentCandles } from '../_shared/candles.ts';
+import { ValidationError } from '../_shared/errors.ts';
+import {
+  analyzeMarketStructure,
+  asianRangeZones,
+  analyzePDArrays,
+  analyzeVolatility,
+  calculateATR,
+  DEFAULT_FRACTAL,
+  detectLiquidityEvents,
+  detectLiquiditySweep,
+  detectOrderBlocks,
+  findAsianRange,
+  getQuarterlyBias,
+  identifyLiquidityPools,
+  orderBlockZones,
+  parseSessionCalendar,
+  pdArrayZones,
+  scoreConfluence,
+  sessionAt,
+  sessionsApply,
+  type Bias,
+  type ConfluenceFactor,
+  type LiquidityZone,
+  type MarketData,
+  type SessionName
+} from '../_shared/ict/index.ts';
+import { storeSignals, type StoreSummary } from '../_shared/signal-dedup.ts';
+import { initialLifecycle } from '../_shared/signal-lifecycle.ts';
+import { BIAS_STRATEGY, resolveStrategy, type StrategyConfig } from '../_shared/strategy-config.ts';
+import { barCloseTime, type Timeframe } from '../_shared/timeframes.ts';
+import { loadWatchlist, roundToTick, type WatchlistAsset } from '../_shared/watchlist.ts';
+
+// Number of most recent candles analysed per asset
+export const ANALYSIS_WINDOW = 500;
+
+const sessionCalendar = parseSessionCalendar(Deno.env.get('SESSION_CALENDAR'));
+
+export interface TradeSignal {
+  asset: string;
+  timeframe: string;
+  bias: Bias;
+  entry_price: number;
+  stop_loss: number;
+  take_profit: number;
+  liquidity_zones: LiquidityZone[];
+  confidence: number;
+  confluence: ConfluenceFactor[];
+  // Close time of the bar the signal was generated on
+  signal_time: string;
+  session: SessionName | null;
+  config_id: string | null;
+  config_version: number | null;
+}
+
+export interface BiasSignalOptions {
+  // Owner of the watchlist analysed and of the stored signals
+  userId: string;
+  timeframe: Timeframe;
+  biasTimeframe: Timeframe;
+  fractal: number;
+  configs: StrategyConfig[];
+  // Limits the run to these watchlist assets; all of them when omitted
+  assets?: string[];
+}
+
+// Generate ICT Trading Signal
+// `biasData` may come from a higher timeframe than `data`, so daily or weekly
+// bias can gate entries found on intraday candles. Market structure on the
+// entry timeframe has to agree with that bias before a signal is emitted.
+function generateICTSignal(
+  asset: WatchlistAsset,
+  data: MarketData[],
+  timeframe: Timeframe,
+  biasData: MarketData[] = data,
+  fractal = DEFAULT_FRACTAL,
+  configs: StrategyConfig[] = []
+): TradeSignal | null {
+  if (data.length < 60) return null;
+  
+  const params = resolveStrategy(configs, BIAS_STRATEGY, asset.asset);
+  if (!params.enabled) return null;
+  
+  const bias = getQuarterlyBias(biasData);
+  const structure = analyzeMarketStructure(data, fractal);
+  const intraday = sessionsApply(timeframe);
+  const liquidityPools = [
+    ...identifyLiquidityPools(data, params.liquidity_tolerance),
+    ...(intraday ? asianRangeZones(findAsianRange(data, sessionCalendar)) : [])
+  ];
+  const dealingRange = analyzePDArrays(data);
+  const pdArrays = pdArrayZones(dealingRange);
+  const orderBlocks = orderBlockZones(detectOrderBlocks(data));
+  const hasLiquidityEvent = detectLiquidityEvents(data, liquidityPools);
+  
+  if (bias === 'neutral' || !hasLiquidityEvent) return null;
+  if (structure.trend !== bias) return null;
+  
+  const session = intraday ? sessionAt(data[data.length - 1].timestamp, sessionCalendar) : null;
+  const confluence = scoreConfluence(bias, {
+    bias,
+    trend: structure.trend,
+    pdZone: dealingRange?.zone ?? null,
+    sweep: detectLiquiditySweep(data, liquidityPools),
+    highVolatility: analyzeVolatility(data).isHighVolatility,
+    session,
+    sessionsApply: intraday
+  });
+  if (confluence.score < params.min_confidence) return null;
+  
+  const currentPrice = data[data.length - 1].close;
+  const atr = calculateATR(data);
+  
+  let entry_price = currentPrice;
+  let stop_loss: number;
+  let take_profit: number;
+  
+  if (bias === 'bullish') {
+    // Look for discount entries
+    const discountZone = pdArrays.find(pd => pd.type === 'discount');
+    if (discountZone) entry_price = discountZone.price;
+    
+    stop_loss = entry_price - (atr * params.stop_atr_multiple);
+    take_profit = entry_price + (atr * params.target_atr_multiple);
+  } else {
+    // Look for premium entries
+    const premiumZone = pdArrays.find(pd => pd.type === 'premium');
+    if (premiumZone) entry_price = premiumZone.price;
+    
+    stop_loss = entry_price + (atr * params.stop_atr_multiple);
+    take_profit = entry_price - (atr * params.target_atr_multiple);
+  }
+  
+  return {
+    asset: asset.asset,
+    timeframe,
+    bias,
+    entry_price: roundToTick(entry_price, asset.tick_size),
+    stop_loss: roundToTick(stop_loss, asset.tick_size),
+    take_profit: roundToTick(take_profit, asset.tick_size),
+    liquidity_zones: [...liquidityPools, ...pdArrays, ...orderBlocks],
+    confidence: confluence.score,
+    confluence: confluence.factors,
+    signal_time: barCloseTime(data[data.length - 1].timestamp, timeframe),
+    session,
+    config_id: params.config_id,
+    config_version: params.config_version
+  };
+}
+
+export function parseFractal(value: unknown): number {
+  if (value === undefined || value === null || value === '') return DEFAULT_FRACTAL;
+  
+  const fractal = Number(value);
+  if (!Number.isInteger(fractal) || fractal < 1 || fractal > 10) {
+    throw new ValidationError(`Invalid fractal length: ${value}. Expected a whole number from 1 to 10`);
+  }
+  return fractal;
+}
+
+// Entries sit at the PD array edge, so they wait as pending limit orders
+async function storeTradeSignals(
+  supabase: SupabaseClient,
+  userId: string,
+  signals: TradeSignal[],
+  configs: StrategyConfig[]
+): Promise<StoreSummary> {
+  const signalsToStore = signals.map(signal => ({
+    user_id: userId,
+    asset: signal.asset,
+    timeframe: signal.timeframe,
+    bias: signal.bias,
+    entry_price: signal.entry_price,
+    stop_loss: signal.stop_loss,
+    take_profit: signal.take_profit,
+    liquidity_zones: signal.liquidity_zones,
+    strategy: BIAS_STRATEGY,
+    confidence: signal.confidence,
+    confluence: signal.confluence,
+    session: signal.session,
+    config_id: signal.config_id,
+    config_version: signal.config_version,
+    ...initialLifecycle(signal.signal_time, signal.timeframe as Timeframe, signal.entry_price, false)
+  }));
+  
+  return storeSignals(supabase, signalsToStore, configs);
+}
+
+// Generates and stores a bias signal for each of the user's watchlist assets
+// with candles
+export async function generateBiasSignals(
+  supabase: SupabaseClient,
+  options: BiasSignalOptions
+): Promise<{ signals: TradeSignal[]; stored: StoreSummary }> {
+  const { userId, timeframe, biasTimeframe, fractal, configs, assets } = options;
+  
+  const watchlist = await loadWatchlist(supabase, userId);
+  const signals: TradeSignal[] = [];
+  
+  for (const asset of watchlist) {
+    if (assets && !assets.includes(asset.asset)) continue;
+    
+    const assetData = await fetchRecentCandles(supabase, asset.asset, timeframe, ANALYSIS_WINDOW);
+    if (assetData.length === 0) continue;
+    
+    const biasData = biasTimeframe === timeframe
+      ? assetData
+      : await fetchRecentCandles(supabase, asset.asset, biasTimeframe, ANALYSIS_WINDOW);
+    
+    const signal = generateICTSignal(asset, assetData, timeframe, biasData, fractal, configs);
+    if (signal) {
+      signals.push(signal);
+      console.log(`Generated ${asset.asset} signal:`, signal.bias);
+    }
+  }
+  
+  // Repeats of a pending setup refresh it instead of adding another row
+  const stored = await storeTradeSignals(supabase, userId, signals, configs);
+  
+  return { signals, stored };
+}
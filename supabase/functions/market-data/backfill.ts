@@ -0,0 +1,218 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.8';
+import { createProvider, RateLimitError, type ProviderConfig } from './providers/index.ts';
+import { resampleAsset, storeMarketData } from './storage.ts';
+import { BASE_TIMEFRAME, timeframeToMs, type Timeframe } from '../_shared/timeframes.ts';
+
+export type BackfillStatus = 'pending' | 'running' | 'paused' | 'completed' | 'failed';
+
+export interface BackfillGap {
+  from: string;
+  to: string;
+  missing_bars: number;
+}
+
+export interface BackfillJob {
+  id: string;
+  asset: string;
+  timeframe: Timeframe;
+  range_start: string;
+  range_end: string;
+  cursor: string;
+  status: BackfillStatus;
+  chunks_completed: number;
+  records_stored: number;
+  gaps: BackfillGap[];
+  last_error: string | null;
+}
+
+// Intraday history is requested a month at a time; daily history comes back
+// in a single call, so a daily backfill is one chunk.
+export const BACKFILL_TIMEFRAMES: Timeframe[] = [BASE_TIMEFRAME, '1d'];
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Overnight equity closes are not gaps; anything longer than this is
+const GAP_THRESHOLD: Record<string, number> = {
+  intraday: 18 * HOUR,
+  daily: 4 * DAY,
+};
+
+function nextChunkEnd(cursor: number, timeframe: Timeframe, end: number): number {
+  if (timeframe === '1d') return end;
+  
+  const date = new Date(cursor);
+  const nextMonth = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+  return Math.min(nextMonth, end);
+}
+
+// Gaps that only cover the Friday close to Sunday open are expected
+function isWeekendGap(from: number, to: number): boolean {
+  if (to - from > 3.5 * DAY) return false;
+  
+  for (let time = from; time <= to; time += HOUR) {
+    if (new Date(time).getUTCDay() === 6) return true;
+  }
+  return false;
+}
+
+export function findGaps(
+  timestamps: number[],
+  from: number,
+  to: number,
+  timeframe: Timeframe
+): BackfillGap[] {
+  const step = timeframeToMs(timeframe);
+  const threshold = timeframe === '1d' ? GAP_THRESHOLD.daily : GAP_THRESHOLD.intraday;
+  const points = [from - step, ...[...timestamps].sort((a, b) => a - b), to];
+  const gaps: BackfillGap[] = [];
+  
+  for (let i = 1; i < points.length; i++) {
+    const gapStart = points[i - 1] + step;
+    const gapEnd = points[i];
+    const duration = gapEnd - gapStart;
+    
+    if (duration < threshold || isWeekendGap(gapStart, gapEnd)) continue;
+    
+    gaps.push({
+      from: new Date(gapStart).toISOString(),
+      to: new Date(gapEnd).toISOString(),
+      missing_bars: Math.floor(duration / step)
+    });
+  }
+  
+  return gaps;
+}
+
+export async function createBackfillJob(
+  supabase: SupabaseClient,
+  asset: string,
+  timeframe: Timeframe,
+  from: string,
+  to: string
+): Promise<BackfillJob> {
+  const { data, error } = await supabase
+    .from('backfill_jobs')
+    .insert({
+      asset,
+      timeframe,
+      range_start: from,
+      range_end: to,
+      cursor: from,
+      status: 'pending'
+    })
+    .select()
+    .single();
+  
+  if (error) {
+    console.error('Error creating backfill job:', error);
+    throw error;
+  }
+  
+  return data as BackfillJob;
+}
+
+export async function getBackfillJob(supabase: SupabaseClient, id: string): Promise<BackfillJob | null> {
+  const { data, error } = await supabase
+    .from('backfill_jobs')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+  
+  if (error) throw error;
+  
+  return data as BackfillJob | null;
+}
+
+async function saveProgress(supabase: SupabaseClient, job: BackfillJob) {
+  const { error } = await supabase
+    .from('backfill_jobs')
+    .update({
+      cursor: job.cursor,
+      status: job.status,
+      chunks_completed: job.chunks_completed,
+      records_stored: job.records_stored,
+      gaps: job.gaps,
+      last_error: job.last_error,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', job.id);
+  
+  if (error) {
+    console.error('Error saving backfill progress:', error);
+    throw error;
+  }
+}
+
+// For jobs that cannot run at all, e.g. when the asset has no data source
+export async function failBackfillJob(
+  supabase: SupabaseClient,
+  job: BackfillJob,
+  message: string
+): Promise<BackfillJob> {
+  const failed: BackfillJob = { ...job, status: 'failed', last_error: message };
+  await saveProgress(supabase, failed);
+  return failed;
+}
+
+// Works through at most `maxChunks` chunks from the job's cursor. Progress is
+// saved after every chunk, so a job paused by a rate limit (or cut short by
+// the function timeout) resumes where it stopped when posted again.
+export async function runBackfillJob(
+  supabase: SupabaseClient,
+  job: BackfillJob,
+  config: ProviderConfig,
+  maxChunks: number
+): Promise<BackfillJob> {
+  const provider = createProvider(config);
+  const end = new Date(job.range_end).getTime();
+  let cursor = new Date(job.cursor).getTime();
+  let chunks = 0;
+  
+  job.status = 'running';
+  job.last_error = null;
+  await saveProgress(supabase, job);
+  
+  while (cursor < end && chunks < maxChunks) {
+    const chunkEnd = nextChunkEnd(cursor, job.timeframe, end);
+    
+    try {
+      console.log(`Backfilling ${job.asset} ${job.timeframe} from ${new Date(cursor).toISOString()}`);
+      const candles = await provider.fetchCandles({
+        symbol: config.symbol,
+        interval: job.timeframe,
+        from: new Date(cursor).toISOString(),
+        to: new Date(chunkEnd - 1).toISOString()
+      });
+      
+      if (candles.length > 0) {
+        await storeMarketData(
+          supabase,
+          candles.map(candle => ({ ...candle, asset: job.asset, timeframe: job.timeframe }))
+        );
+        await resampleAsset(supabase, job.asset, cursor, chunkEnd, job.timeframe);
+      }
+      
+      const timestamps = candles.map(c => new Date(c.timestamp).getTime());
+      job.gaps = [...job.gaps, ...findGaps(timestamps, cursor, chunkEnd, job.timeframe)];
+      job.records_stored += candles.length;
+    } catch (error) {
+      job.status = error instanceof RateLimitError ? 'paused' : 'failed';
+      job.last_error = error instanceof Error ? error.message : String(error);
+      console.error(`Backfill ${job.id} ${job.status}:`, error);
+      await saveProgress(supabase, job);
+      return job;
+    }
+    
+    cursor = chunkEnd;
+    chunks++;
+    job.cursor = new Date(cursor).toISOString();
+    job.chunks_completed++;
+    await saveProgress(supabase, job);
+  }
+  
+  job.status = cursor >= end ? 'completed' : 'running';
+  await saveProgress(supabase, job);
+  
+  return job;
+}
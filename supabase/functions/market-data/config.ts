@@ -0,0 +1,59 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.8';
+import { BASE_TIMEFRAME } from '../_shared/timeframes.ts';
+import { loadWatchlist } from '../_shared/watchlist.ts';
+import type { ProviderConfig, ProviderName } from './providers/index.ts';
+
+export const BASE_INTERVAL = BASE_TIMEFRAME;
+export const FETCH_LIMIT = 100; // Latest records per asset per run
+
+interface MarketSourceRow {
+  asset: string;
+  provider: ProviderName;
+  provider_symbol: string | null;
+  provider_source: string | null;
+}
+
+// Sources for every asset on an active watchlist. Provider settings come from
+// market_sources, which only admins can change; assets without a row use
+// Alpha Vantage under their own name. The client has to be the service
+// client, as both tables are beyond a user's reach. MARKET_DATA_SOURCES can
+// hold a JSON object keyed by asset that overrides them, e.g. to run offline
+// with {"XAUUSD":{"provider":"synthetic","symbol":"XAUUSD"}}
+export async function getAssetSources(supabase: SupabaseClient): Promise<Record<string, ProviderConfig>> {
+  const watchlist = await loadWatchlist(supabase);
+  const { data, error } = await supabase
+    .from('market_sources')
+    .select('asset, provider, provider_symbol, provider_source')
+    .in('asset', watchlist.map(item => item.asset));
+  
+  if (error) {
+    console.error('Error loading market sources:', error);
+    throw error;
+  }
+  
+  const rows = new Map(((data ?? []) as MarketSourceRow[]).map(row => [row.asset, row]));
+  const sources: Record<string, ProviderConfig> = {};
+  
+  for (const { asset } of watchlist) {
+    const row = rows.get(asset);
+    sources[asset] = {
+      provider: row?.provider ?? 'alpha_vantage',
+      symbol: row?.provider_symbol ?? asset,
+      source: row?.provider_source ?? undefined
+    };
+  }
+  
+  const override = Deno.env.get('MARKET_DATA_SOURCES');
+  if (!override) return sources;
+  
+  try {
+    const overrides: Record<string, ProviderConfig> = JSON.parse(override);
+    for (const [asset, config] of Object.entries(overrides)) {
+      if (sources[asset]) sources[asset] = config;
+    }
+  } catch (error) {
+    console.error('Invalid MARKET_DATA_SOURCES, using market_sources settings:', error);
+  }
+  
+  return sources;
+}
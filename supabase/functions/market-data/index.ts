@@ -1,139 +1,37 @@
 
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.8';
+import { authenticate, createServiceClient, isAdmin, isServiceRequest } from '../_shared/auth.ts';
+import { ValidationError } from '../_shared/errors.ts';
+import { parseAssets } from '../_shared/watchlist.ts';
+import { getAssetSources } from './config.ts';
+import { ingestLatest } from './ingest.ts';
+import { parseTimeframe } from '../_shared/timeframes.ts';
+import { resolveOpenSignals } from '../_shared/signal-lifecycle.ts';
+import {
+  BACKFILL_TIMEFRAMES,
+  createBackfillJob,
+  failBackfillJob,
+  getBackfillJob,
+  runBackfillJob,
+  type BackfillJob
+} from './backfill.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const ALPHA_VANTAGE_API_KEY = Deno.env.get('ALPHA_VANTAGE_API_KEY');
-const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-const supabaseKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+const DEFAULT_BACKFILL_CHUNKS = 3;
+const MAX_BACKFILL_CHUNKS = 10;
 
-const supabase = createClient(supabaseUrl, supabaseKey);
-
-// Rate limiting: 5 calls per minute
-let lastCallTime = 0;
-const RATE_LIMIT_DELAY = 12000; // 12 seconds between calls (5 calls/min)
-
-async function delay(ms: number) {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
-
-async function makeAPICallWithRetry(url: string, maxRetries = 3): Promise<any> {
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      console.log(`Attempt ${attempt} for URL: ${url}`);
-      
-      // Rate limiting
-      const now = Date.now();
-      const timeSinceLastCall = now - lastCallTime;
-      if (timeSinceLastCall < RATE_LIMIT_DELAY) {
-        const waitTime = RATE_LIMIT_DELAY - timeSinceLastCall;
-        console.log(`Rate limiting: waiting ${waitTime}ms`);
-        await delay(waitTime);
-      }
-      lastCallTime = Date.now();
-
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      
-      if (data['Error Message']) {
-        throw new Error(`Alpha Vantage error: ${data['Error Message']}`);
-      }
-      
-      if (data['Note']) {
-        throw new Error(`Rate limit exceeded: ${data['Note']}`);
-      }
-      
-      return data;
-    } catch (error) {
-      console.error(`Attempt ${attempt} failed:`, error);
-      
-      if (attempt === maxRetries) {
-        throw error;
-      }
-      
-      // Wait 5 seconds before retry
-      console.log('Waiting 5 seconds before retry...');
-      await delay(5000);
-    }
-  }
-}
-
-async function fetchXAUUSD() {
-  const url = `https://www.alphavantage.co/query?function=FX_INTRADAY&from_symbol=XAU&to_symbol=USD&interval=5min&apikey=${ALPHA_VANTAGE_API_KEY}`;
-  
-  const data = await makeAPICallWithRetry(url);
-  const timeSeries = data['Time Series FX (5min)'];
-  
-  if (!timeSeries) {
-    throw new Error('No forex data received for XAUUSD');
-  }
-  
-  const marketData = [];
-  for (const [timestamp, values] of Object.entries(timeSeries)) {
-    marketData.push({
-      timestamp: new Date(timestamp).toISOString(),
-      asset: 'XAUUSD',
-      open: parseFloat(values['1. open']),
-      high: parseFloat(values['2. high']),
-      low: parseFloat(values['3. low']),
-      close: parseFloat(values['4. close']),
-      volume: 0 // Forex doesn't have volume data
-    });
-  }
-  
-  return marketData.slice(0, 100); // Limit to latest 100 records
-}
-
-async function fetchNASDAQ() {
-  const url = `https://www.alphavantage.co/query?function=TIME_SERIES_INTRADAY&symbol=IXIC&interval=5min&apikey=${ALPHA_VANTAGE_API_KEY}`;
-  
-  const data = await makeAPICallWithRetry(url);
-  const timeSeries = data['Time Series (5min)'];
-  
-  if (!timeSeries) {
-    throw new Error('No index data received for NASDAQ');
-  }
-  
-  const marketData = [];
-  for (const [timestamp, values] of Object.entries(timeSeries)) {
-    marketData.push({
-      timestamp: new Date(timestamp).toISOString(),
-      asset: 'NASDAQ',
-      open: parseFloat(values['1. open']),
-      high: parseFloat(values['2. high']),
-      low: parseFloat(values['3. low']),
-      close: parseFloat(values['4. close']),
-      volume: parseInt(values['5. volume'])
-    });
-  }
-  
-  return marketData.slice(0, 100); // Limit to latest 100 records
-}
-
-async function storeMarketData(marketData: any[]) {
-  const { data, error } = await supabase
-    .from('market_data')
-    .upsert(marketData, { 
-      onConflict: 'timestamp,asset',
-      ignoreDuplicates: true 
-    });
-  
-  if (error) {
-    console.error('Error storing market data:', error);
-    throw error;
-  }
-  
-  return data;
+// Ingestion and backfills spend the shared vendor quota and write shared
+// candles, so only the schedule and admins may start them
+function forbidden(): Response {
+  return new Response(JSON.stringify({ error: 'Forbidden' }), {
+    status: 403,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
 }
 
 serve(async (req) => {
@@ -141,18 +39,41 @@ serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
-
+  
   try {
+    // pg_cron calls with the service role key, everyone else has to sign in
+    const service = isServiceRequest(req);
+    const auth = service ? null : await authenticate(req);
+    if (!service && !auth) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const supabase = auth?.supabase ?? createServiceClient();
+    const canIngest = service || isAdmin(auth!.user);
     const url = new URL(req.url);
     
     if (url.pathname === '/market-data') {
       if (req.method === 'GET') {
-        // Fetch latest data from database
-        const { data, error } = await supabase
+        // Fetch latest data from database, optionally for a single asset
+        const asset = url.searchParams.get('asset');
+        const timeframe = parseTimeframe(url.searchParams.get('timeframe'));
+        const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') ?? '200') || 200, 1), 1000);
+        
+        let query = supabase
           .from('market_data')
           .select('*')
+          .eq('timeframe', timeframe)
           .order('timestamp', { ascending: false })
-          .limit(200);
+          .limit(limit);
+        
+        if (asset) {
+          query = query.eq('asset', asset);
+        }
+        
+        const { data, error } = await query;
         
         if (error) {
           throw error;
@@ -164,38 +85,129 @@ serve(async (req) => {
       }
       
       if (req.method === 'POST') {
-        // Fetch and store new data
+        if (!canIngest) return forbidden();
+        
+        // Fetch and store new data. Candles are shared, so they are written
+        // with the service role, as are the signals of everyone holding the
+        // updated assets.
         console.log('Starting market data fetch...');
         
-        const allMarketData = [];
+        const service = createServiceClient();
+        const { recordsProcessed, resampledRecords, updatedAssets } = await ingestLatest(service);
+        
+        // Move open signals forward with the candles that just arrived
+        let signalsUpdated = 0;
+        for (const asset of updatedAssets) {
+          try {
+            const { updated } = await resolveOpenSignals(service, asset);
+            signalsUpdated += updated;
+          } catch (error) {
+            console.error(`Failed to resolve ${asset} signals:`, error);
+          }
+        }
+        console.log(`Updated ${signalsUpdated} open signals`);
+        
+        return new Response(JSON.stringify({ 
+          success: true, 
+          recordsProcessed,
+          resampledRecords,
+          signalsUpdated,
+          message: 'Market data updated successfully'
+        }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+    
+    if (url.pathname === '/market-data/backfill') {
+      if (req.method === 'GET') {
+        const jobId = url.searchParams.get('job_id');
+        let query = supabase
+          .from('backfill_jobs')
+          .select('*')
+          .order('created_at', { ascending: false })
+          .limit(20);
         
-        try {
-          console.log('Fetching XAUUSD data...');
-          const xauusdData = await fetchXAUUSD();
-          allMarketData.push(...xauusdData);
-          console.log(`Fetched ${xauusdData.length} XAUUSD records`);
-        } catch (error) {
-          console.error('Failed to fetch XAUUSD:', error);
+        if (jobId) {
+          query = query.eq('id', jobId);
         }
         
-        try {
-          console.log('Fetching NASDAQ data...');
-          const nasdaqData = await fetchNASDAQ();
-          allMarketData.push(...nasdaqData);
-          console.log(`Fetched ${nasdaqData.length} NASDAQ records`);
-        } catch (error) {
-          console.error('Failed to fetch NASDAQ:', error);
+        const { data, error } = await query;
+        if (error) throw error;
+        
+        return new Response(JSON.stringify({ jobs: data }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      
+      if (req.method === 'POST') {
+        if (!canIngest) return forbidden();
+        
+        // Start a backfill for a date range, or resume one with job_id. Jobs
+        // and candles are written with the service role only.
+        const body = await req.json().catch(() => ({}));
+        const maxChunks = Math.min(
+          Math.max(Math.floor(Number(body.max_chunks)) || DEFAULT_BACKFILL_CHUNKS, 1),
+          MAX_BACKFILL_CHUNKS
+        );
+        const service = createServiceClient();
+        const sources = await getAssetSources(service);
+        const jobs: BackfillJob[] = [];
+        
+        if (body.job_id) {
+          const job = await getBackfillJob(service, body.job_id);
+          if (!job) {
+            return new Response(JSON.stringify({ error: `Backfill job ${body.job_id} not found` }), {
+              status: 404,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            });
+          }
+          jobs.push(job);
+        } else {
+          const timeframe = parseTimeframe(body.timeframe);
+          const from = body.from ? new Date(body.from) : null;
+          const to = body.to ? new Date(body.to) : new Date();
+          
+          if (!BACKFILL_TIMEFRAMES.includes(timeframe)) {
+            throw new ValidationError(`Backfill supports ${BACKFILL_TIMEFRAMES.join(', ')} only`);
+          }
+          if (!from || isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+            throw new ValidationError('Backfill needs a valid "from" date before "to"');
+          }
+          
+          const assets = parseAssets(body.assets) ?? Object.keys(sources);
+          const unknown = assets.filter(asset => !sources[asset]);
+          if (unknown.length > 0) {
+            throw new ValidationError(`No data source for ${unknown.join(', ')}`);
+          }
+          
+          for (const asset of assets) {
+            jobs.push(await createBackfillJob(
+              service,
+              asset,
+              timeframe,
+              from.toISOString(),
+              to.toISOString()
+            ));
+          }
         }
         
-        if (allMarketData.length > 0) {
-          await storeMarketData(allMarketData);
-          console.log(`Stored ${allMarketData.length} total records`);
+        const results: BackfillJob[] = [];
+        for (const job of jobs) {
+          const config = sources[job.asset];
+          if (!config) {
+            // A resumed job whose asset left every watchlist since
+            console.error(`No data source configured for ${job.asset}`);
+            results.push(await failBackfillJob(service, job, 'Asset is not in the watchlist'));
+            continue;
+          }
+          results.push(await runBackfillJob(service, job, config, maxChunks));
         }
         
         return new Response(JSON.stringify({ 
-          success: true, 
-          recordsProcessed: allMarketData.length,
-          message: 'Market data updated successfully'
+          success: results.every(job => job.status !== 'failed'),
+          jobs: results,
+          message: `Processed ${results.length} backfill jobs`
         }), {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
@@ -206,8 +218,15 @@ serve(async (req) => {
       status: 404,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
-    
+  
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    
     console.error('Error in market-data function:', error);
     return new Response(JSON.stringify({ 
       error: error.message,
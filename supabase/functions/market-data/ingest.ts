@@ -0,0 +1,91 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.8';
+import { createProvider, type ProviderConfig } from './providers/index.ts';
+import { BASE_INTERVAL, FETCH_LIMIT, getAssetSources } from './config.ts';
+import { resampleAsset, storeMarketData, type MarketData } from './storage.ts';
+
+export interface IngestResult {
+  recordsProcessed: number;
+  resampledRecords: number;
+  // Assets whose newest fetched candle is later than anything stored before
+  updatedAssets: string[];
+  failures: { asset: string; error: string }[];
+}
+
+async function fetchAssetData(asset: string, config: ProviderConfig): Promise<MarketData[]> {
+  const provider = createProvider(config);
+  const candles = await provider.fetchCandles({
+    symbol: config.symbol,
+    interval: BASE_INTERVAL,
+    limit: FETCH_LIMIT
+  });
+  
+  return candles.map(candle => ({ ...candle, asset, timeframe: BASE_INTERVAL }));
+}
+
+async function latestStoredTime(supabase: SupabaseClient, asset: string): Promise<number | null> {
+  const { data, error } = await supabase
+    .from('market_data')
+    .select('timestamp')
+    .eq('asset', asset)
+    .eq('timeframe', BASE_INTERVAL)
+    .order('timestamp', { ascending: false })
+    .limit(1);
+  
+  if (error) throw error;
+  
+  return data?.length ? new Date(data[0].timestamp).getTime() : null;
+}
+
+// Fetches the latest base candles for every watchlist asset, stores them and
+// rebuilds the higher timeframes they touch. A provider failure only skips
+// that asset. Candles are written with the service role only, so the client
+// has to be the service client.
+export async function ingestLatest(supabase: SupabaseClient): Promise<IngestResult> {
+  const allMarketData: MarketData[] = [];
+  const updatedAssets: string[] = [];
+  const failures: IngestResult['failures'] = [];
+  
+  const sources = await getAssetSources(supabase);
+  
+  for (const [asset, config] of Object.entries(sources)) {
+    try {
+      console.log(`Fetching ${asset} data from ${config.provider}...`);
+      const assetData = await fetchAssetData(asset, config);
+      if (assetData.length === 0) continue;
+      
+      const latest = await latestStoredTime(supabase, asset);
+      const newest = Math.max(...assetData.map(d => new Date(d.timestamp).getTime()));
+      if (latest === null || newest > latest) updatedAssets.push(asset);
+      
+      allMarketData.push(...assetData);
+      console.log(`Fetched ${assetData.length} ${asset} records`);
+    } catch (error) {
+      console.error(`Failed to fetch ${asset}:`, error);
+      failures.push({ asset, error: error.message });
+    }
+  }
+  
+  let resampledRecords = 0;
+  
+  if (allMarketData.length > 0) {
+    await storeMarketData(supabase, allMarketData);
+    console.log(`Stored ${allMarketData.length} total records`);
+    
+    for (const asset of new Set(allMarketData.map(d => d.asset))) {
+      const earliest = Math.min(
+        ...allMarketData
+          .filter(d => d.asset === asset)
+          .map(d => new Date(d.timestamp).getTime())
+      );
+      resampledRecords += await resampleAsset(supabase, asset, earliest);
+    }
+    console.log(`Resampled ${resampledRecords} higher timeframe records`);
+  }
+  
+  return {
+    recordsProcessed: allMarketData.length,
+    resampledRecords,
+    updatedAssets,
+    failures
+  };
+}
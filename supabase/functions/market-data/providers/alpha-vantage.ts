@@ -0,0 +1,122 @@
+import { RateLimitError, applyRange, type Candle, type CandleRequest, type MarketDataProvider } from './types.ts';
+
+const ALPHA_VANTAGE_API_KEY = Deno.env.get('ALPHA_VANTAGE_API_KEY');
+
+// Rate limiting: 5 calls per minute
+let lastCallTime = 0;
+const RATE_LIMIT_DELAY = 12000; // 12 seconds between calls (5 calls/min)
+
+type AlphaVantageBar = Record<string, string>;
+type AlphaVantageResponse = Record<string, unknown>;
+
+async function delay(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function makeAPICallWithRetry(url: string, maxRetries = 3): Promise<AlphaVantageResponse> {
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      console.log(`Attempt ${attempt} for URL: ${url.replace(/apikey=[^&]*/, 'apikey=***')}`);
+      
+      // Rate limiting
+      const now = Date.now();
+      const timeSinceLastCall = now - lastCallTime;
+      if (timeSinceLastCall < RATE_LIMIT_DELAY) {
+        const waitTime = RATE_LIMIT_DELAY - timeSinceLastCall;
+        console.log(`Rate limiting: waiting ${waitTime}ms`);
+        await delay(waitTime);
+      }
+      lastCallTime = Date.now();
+
+      const response = await fetch(url);
+      
+      if (response.status === 429) {
+        throw new RateLimitError('Rate limit exceeded: HTTP 429');
+      }
+      
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      
+      const data = await response.json();
+      
+      if (data['Error Message']) {
+        throw new Error(`Alpha Vantage error: ${data['Error Message']}`);
+      }
+      
+      if (data['Note'] || data['Information']) {
+        throw new RateLimitError(`Rate limit exceeded: ${data['Note'] ?? data['Information']}`);
+      }
+      
+      return data;
+    } catch (error) {
+      console.error(`Attempt ${attempt} failed:`, error);
+      
+      if (attempt === maxRetries) {
+        throw error;
+      }
+      
+      // Wait 5 seconds before retry
+      console.log('Waiting 5 seconds before retry...');
+      await delay(5000);
+    }
+  }
+  
+  throw new Error('Alpha Vantage request failed');
+}
+
+const DAILY_INTERVALS = ['1d', 'daily'];
+
+// Symbols written as BASE/QUOTE (e.g. XAU/USD) use the FX endpoints,
+// anything else is treated as an equity or index ticker. Requests with a
+// `from` date ask for full output, paged by month for intraday equities.
+function buildRequest(request: CandleRequest) {
+  const [base, quote] = request.symbol.split('/');
+  const market = quote
+    ? { fn: 'FX', params: `from_symbol=${base}&to_symbol=${quote}`, prefix: 'Time Series FX' }
+    : { fn: 'TIME_SERIES', params: `symbol=${request.symbol}`, prefix: 'Time Series' };
+  const outputSize = request.from ? '&outputsize=full' : '';
+  
+  if (DAILY_INTERVALS.includes(request.interval)) {
+    return {
+      url: `https://www.alphavantage.co/query?function=${market.fn}_DAILY&${market.params}${outputSize}&apikey=${ALPHA_VANTAGE_API_KEY}`,
+      seriesKey: `${market.prefix} (Daily)`,
+    };
+  }
+  
+  const interval = request.interval === '1h' ? '60min' : request.interval;
+  const month = request.from && !quote ? `&month=${request.from.slice(0, 7)}` : '';
+  
+  return {
+    url: `https://www.alphavantage.co/query?function=${market.fn}_INTRADAY&${market.params}&interval=${interval}${month}${outputSize}&apikey=${ALPHA_VANTAGE_API_KEY}`,
+    seriesKey: `${market.prefix} (${interval})`,
+  };
+}
+
+export const alphaVantageProvider: MarketDataProvider = {
+  name: 'alpha_vantage',
+  
+  async fetchCandles(request: CandleRequest): Promise<Candle[]> {
+    const { url, seriesKey } = buildRequest(request);
+    const data = await makeAPICallWithRetry(url);
+    const timeSeries = data[seriesKey] as Record<string, AlphaVantageBar> | undefined;
+    
+    if (!timeSeries) {
+      throw new Error(`No data received from Alpha Vantage for ${request.symbol}`);
+    }
+    
+    const candles: Candle[] = [];
+    for (const [timestamp, values] of Object.entries(timeSeries)) {
+      candles.push({
+        timestamp: new Date(timestamp).toISOString(),
+        open: parseFloat(values['1. open']),
+        high: parseFloat(values['2. high']),
+        low: parseFloat(values['3. low']),
+        close: parseFloat(values['4. close']),
+        volume: values['5. volume'] ? parseInt(values['5. volume']) : 0 // Forex doesn't have volume data
+      });
+    }
+    
+    return applyRange(candles, request);
+  }
+};
@@ -0,0 +1,89 @@
+import { applyRange, type Candle, type CandleRequest, type MarketDataProvider } from './types.ts';
+
+type FileRow = Record<string, string | number | undefined>;
+
+// Sources resolve against MARKET_DATA_FILE_ROOT, a directory or a bucket URL,
+// and may not leave it, so a source cannot point at any other file or host
+function resolveSource(source: string): URL {
+  const root = Deno.env.get('MARKET_DATA_FILE_ROOT');
+  if (!root) {
+    throw new Error('File provider needs MARKET_DATA_FILE_ROOT to be set');
+  }
+  
+  const base = new URL(root.endsWith('/') ? root : `${root}/`, 'file:///');
+  const url = new URL(source, base);
+  // Encoded slashes would bring back the `..` segments URL parsing removed
+  const escapes = decodeURIComponent(url.pathname).split('/').includes('..');
+  if (!url.href.startsWith(base.href) || escapes) {
+    throw new Error(`Candle file ${source} is outside MARKET_DATA_FILE_ROOT`);
+  }
+  return url;
+}
+
+async function readSource(source: string): Promise<string> {
+  const url = resolveSource(source);
+  if (url.protocol === 'file:') {
+    return Deno.readTextFile(url);
+  }
+  
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+  return response.text();
+}
+
+function parseCSV(text: string): FileRow[] {
+  const lines = text.split(/\r?\n/).filter(line => line.trim().length > 0);
+  if (lines.length === 0) return [];
+  
+  const headers = lines[0].split(',').map(h => h.trim().toLowerCase());
+  
+  return lines.slice(1).map(line => {
+    const cells = line.split(',');
+    const row: FileRow = {};
+    headers.forEach((header, i) => {
+      row[header] = cells[i]?.trim();
+    });
+    return row;
+  });
+}
+
+function toCandle(row: FileRow): Candle {
+  const timestamp = row.timestamp ?? row.time ?? row.date;
+  if (timestamp === undefined) {
+    throw new Error('Candle file row is missing a timestamp column');
+  }
+  
+  return {
+    timestamp: new Date(timestamp).toISOString(),
+    open: Number(row.open),
+    high: Number(row.high),
+    low: Number(row.low),
+    close: Number(row.close),
+    volume: row.volume !== undefined && row.volume !== '' ? Number(row.volume) : 0
+  };
+}
+
+// Reads candles from a CSV (header row required) or JSON array file under
+// MARKET_DATA_FILE_ROOT. Rows may carry a `symbol` column so one file can
+// hold several instruments.
+export function createFileProvider(source: string): MarketDataProvider {
+  return {
+    name: 'file',
+    
+    async fetchCandles(request: CandleRequest): Promise<Candle[]> {
+      const text = await readSource(source);
+      const rows: FileRow[] = source.toLowerCase().endsWith('.json')
+        ? JSON.parse(text)
+        : parseCSV(text);
+      
+      const candles = rows
+        .filter(row => row.symbol === undefined || row.symbol === request.symbol)
+        .map(toCandle)
+        .filter(c => [c.open, c.high, c.low, c.close].every(Number.isFinite));
+      
+      return applyRange(candles, request);
+    }
+  };
+}
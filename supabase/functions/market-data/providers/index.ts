@@ -0,0 +1,22 @@
+import { alphaVantageProvider } from './alpha-vantage.ts';
+import { createFileProvider } from './file.ts';
+import { syntheticProvider } from './synthetic.ts';
+import type { MarketDataProvider, ProviderConfig } from './types.ts';
+
+export * from './types.ts';
+
+export function createProvider(config: ProviderConfig): MarketDataProvider {
+  switch (config.provider) {
+    case 'alpha_vantage':
+      return alphaVantageProvider;
+    case 'file':
+      if (!config.source) {
+        throw new Error(`File provider for ${config.symbol} needs a source path`);
+      }
+      return createFileProvider(config.source);
+    case 'synthetic':
+      return syntheticProvider;
+    default:
+      throw new Error(`Unknown market data provider: ${config.provider}`);
+  }
+}
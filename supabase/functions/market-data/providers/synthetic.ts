@@ -0,0 +1,66 @@
+import { intervalToMs, type Candle, type CandleRequest, type MarketDataProvider } from './types.ts';
+
+const DEFAULT_LIMIT = 100;
+
+// FNV-1a hash so each symbol gets its own stable seed
+function hashSymbol(symbol: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < symbol.length; i++) {
+    hash ^= symbol.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+// Mulberry32 PRNG
+function mulberry32(seed: number) {
+  return () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Deterministic random walk: the candle at a given timestamp depends only on
+// the symbol and the timestamp, so overlapping requests return identical bars.
+function candleAt(symbol: string, time: number, intervalMs: number): Candle {
+  const bar = Math.floor(time / intervalMs);
+  const basePrice = 1000 + (hashSymbol(symbol) % 9000);
+  const trend = Math.sin(bar / 500) * 0.05 + Math.sin(bar / 60) * 0.01;
+  const random = mulberry32(hashSymbol(symbol) ^ bar);
+  
+  const open = basePrice * (1 + trend + (random() - 0.5) * 0.002);
+  const close = open * (1 + (random() - 0.5) * 0.004);
+  const high = Math.max(open, close) * (1 + random() * 0.0015);
+  const low = Math.min(open, close) * (1 - random() * 0.0015);
+  
+  return {
+    timestamp: new Date(bar * intervalMs).toISOString(),
+    open,
+    high,
+    low,
+    close,
+    volume: Math.round(1000 + random() * 9000)
+  };
+}
+
+export const syntheticProvider: MarketDataProvider = {
+  name: 'synthetic',
+  
+  fetchCandles(request: CandleRequest): Promise<Candle[]> {
+    const intervalMs = intervalToMs(request.interval);
+    const to = Math.floor((request.to ? new Date(request.to).getTime() : Date.now()) / intervalMs) * intervalMs;
+    const from = request.from
+      ? new Date(request.from).getTime()
+      : to - ((request.limit ?? DEFAULT_LIMIT) - 1) * intervalMs;
+    
+    const candles: Candle[] = [];
+    for (let time = to; time >= from; time -= intervalMs) {
+      candles.push(candleAt(request.symbol, time, intervalMs));
+      if (request.limit && candles.length >= request.limit) break;
+    }
+    
+    return Promise.resolve(candles);
+  }
+};
@@ -0,0 +1,75 @@
+export interface Candle {
+  timestamp: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface CandleRequest {
+  symbol: string;
+  interval: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+export interface MarketDataProvider {
+  name: string;
+  fetchCandles(request: CandleRequest): Promise<Candle[]>;
+}
+
+export type ProviderName = 'alpha_vantage' | 'file' | 'synthetic';
+
+export interface ProviderConfig {
+  provider: ProviderName;
+  // Vendor symbol, e.g. 'XAU/USD' for Alpha Vantage FX or 'IXIC' for an index
+  symbol: string;
+  // File provider only: path of a .csv or .json candle file relative to
+  // MARKET_DATA_FILE_ROOT
+  source?: string;
+}
+
+// Thrown when a vendor refuses a call because of its quota, so callers such
+// as the backfill can pause and resume later instead of failing outright.
+export class RateLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+const INTERVAL_MINUTES: Record<string, number> = {
+  '1min': 1,
+  '5min': 5,
+  '15min': 15,
+  '30min': 30,
+  '60min': 60,
+  '1h': 60,
+  '4h': 240,
+  '1d': 1440,
+};
+
+export function intervalToMs(interval: string): number {
+  const minutes = INTERVAL_MINUTES[interval];
+  if (!minutes) {
+    throw new Error(`Unsupported interval: ${interval}`);
+  }
+  return minutes * 60 * 1000;
+}
+
+// Applies the from/to/limit window of a request to candles sorted newest first
+export function applyRange(candles: Candle[], request: CandleRequest): Candle[] {
+  const from = request.from ? new Date(request.from).getTime() : -Infinity;
+  const to = request.to ? new Date(request.to).getTime() : Infinity;
+  
+  const inRange = candles
+    .filter(c => {
+      const time = new Date(c.timestamp).getTime();
+      return time >= from && time <= to;
+    })
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  
+  return request.limit ? inRange.slice(0, request.limit) : inRange;
+}
@@ -0,0 +1,72 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.8';
+import { fetchCandleRange } from '../_shared/candles.ts';
+import {
+  RESAMPLE_CHAIN,
+  bucketStart,
+  resample,
+  type OHLCV,
+  type Timeframe
+} from '../_shared/timeframes.ts';
+
+export interface MarketData extends OHLCV {
+  asset: string;
+  timeframe: Timeframe;
+}
+
+export async function storeMarketData(
+  supabase: SupabaseClient,
+  marketData: MarketData[],
+  ignoreDuplicates = true
+) {
+  const { data, error } = await supabase
+    .from('market_data')
+    .upsert(marketData, { 
+      onConflict: 'timestamp,asset,timeframe',
+      ignoreDuplicates 
+    });
+  
+  if (error) {
+    console.error('Error storing market data:', error);
+    throw error;
+  }
+  
+  return data;
+}
+
+// Rebuilds every higher timeframe bucket touched by `source` candles between
+// `since` and `until`. Buckets may still be forming, so they are overwritten
+// rather than ignored on conflict.
+export async function resampleAsset(
+  supabase: SupabaseClient,
+  asset: string,
+  since: number,
+  until = Date.now(),
+  source: Timeframe = RESAMPLE_CHAIN[0][0]
+) {
+  const start = RESAMPLE_CHAIN.findIndex(([from]) => from === source);
+  if (start === -1) return 0;
+  
+  let resampled = 0;
+  
+  for (const [from, target] of RESAMPLE_CHAIN.slice(start)) {
+    const candles = await fetchCandleRange(
+      supabase,
+      asset,
+      from,
+      bucketStart(since, target),
+      until
+    );
+    if (candles.length === 0) continue;
+    
+    const buckets = resample(candles, target).map(candle => ({
+      ...candle,
+      asset,
+      timeframe: target
+    }));
+    
+    await storeMarketData(supabase, buckets, false);
+    resampled += buckets.length;
+  }
+  
+  return resampled;
+}
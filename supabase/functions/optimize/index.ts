@@ -0,0 +1,247 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.8';
+import { authenticate } from '../_shared/auth.ts';
+import { fetchCandleRange } from '../_shared/candles.ts';
+import { ValidationError } from '../_shared/errors.ts';
+import { parseSessionCalendar, parseSessions, type MarketData } from '../_shared/ict/index.ts';
+import {
+  ENTRY_STRATEGIES,
+  loadActiveConfigs,
+  resolveStrategy
+} from '../_shared/strategy-config.ts';
+import { parseTimeframe, timeframeToMs, type Timeframe } from '../_shared/timeframes.ts';
+import { loadWatchlist } from '../_shared/watchlist.ts';
+import { ANALYSIS_WINDOW } from '../ict-entries/strategies.ts';
+import {
+  MAX_BAR_EVALUATIONS,
+  MAX_CANDIDATES,
+  OBJECTIVES,
+  candidateCount,
+  parseParamSpace,
+  runSearch,
+  type EntryStrategy,
+  type Objective,
+  type SearchMode
+} from './search.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_FOLDS = 10;
+const MAX_BARS_HELD = 10000;
+
+// Candles before `from` that are loaded so the first tested bar has a full window
+async function loadCandles(
+  supabase: SupabaseClient,
+  asset: string,
+  timeframe: Timeframe,
+  from: number,
+  to: number
+): Promise<MarketData[]> {
+  const warmup = ANALYSIS_WINDOW * timeframeToMs(timeframe);
+  const candles = await fetchCandleRange(supabase, asset, timeframe, from - warmup, to);
+  return candles.map(candle => ({ ...candle, asset }));
+}
+
+function parseChoice<T extends string>(value: unknown, choices: readonly T[], label: string, fallback?: T): T {
+  if ((value === undefined || value === null || value === '') && fallback) return fallback;
+  if (!choices.includes(value as T)) {
+    throw new ValidationError(`Unsupported ${label}: ${value}. Expected one of ${choices.join(', ')}`);
+  }
+  return value as T;
+}
+
+function parseCount(value: unknown, label: string, fallback: number, min: number, max: number): number {
+  if (value === undefined || value === null || value === '') return fallback;
+  
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < min || count > max) {
+    throw new ValidationError(`Invalid ${label}: ${value}. Expected a whole number from ${min} to ${max}`);
+  }
+  return count;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+  
+  try {
+    const auth = await authenticate(req);
+    if (!auth) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const { supabase, user } = auth;
+    const url = new URL(req.url);
+    
+    if (url.pathname === '/optimize') {
+      if (req.method === 'GET') {
+        // A single run with its candidates, or the latest runs without them
+        const id = url.searchParams.get('id');
+        const query = id
+          ? supabase.from('optimization_runs').select('*').eq('id', id)
+          : supabase
+            .from('optimization_runs')
+            .select('id, asset, timeframe, strategy, range_start, range_end, mode, objective, best, promoted_config_id, created_at')
+            .order('created_at', { ascending: false })
+            .limit(50);
+        
+        const { data, error } = await query;
+        if (error) throw error;
+        
+        return new Response(JSON.stringify({ runs: data }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      
+      if (req.method === 'POST') {
+        const body = await req.json().catch(() => ({}));
+        const timeframe = parseTimeframe(body.timeframe);
+        const biasTimeframe = parseTimeframe(body.bias_timeframe, timeframe);
+        const from = new Date(body.from);
+        const to = body.to ? new Date(body.to) : new Date();
+        const strategy = parseChoice<EntryStrategy>(body.strategy, ENTRY_STRATEGIES, 'strategy');
+        const mode = parseChoice<SearchMode>(body.mode, ['grid', 'random'], 'search mode', 'grid');
+        const objective = parseChoice<Objective>(body.objective, OBJECTIVES, 'objective', 'expectancy');
+        const space = parseParamSpace(body.space);
+        const samples = parseCount(body.samples, 'sample count', 20, 1, MAX_CANDIDATES);
+        const folds = parseCount(body.folds, 'fold count', 3, 1, MAX_FOLDS);
+        const minTrades = parseCount(body.min_trades, 'minimum trade count', 10, 0, 10000);
+        const maxBarsHeld = parseCount(body.max_bars_held, 'max bars held', 0, 0, MAX_BARS_HELD);
+        const sessions = parseSessions(body.sessions) ?? [];
+        
+        if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+          throw new ValidationError('Optimisation needs a valid "from" date before "to"');
+        }
+        
+        // Checked before any candles are loaded, from the bars the range spans
+        const candidates = candidateCount(space, mode, samples);
+        const bars = Math.ceil((to.getTime() - from.getTime()) / timeframeToMs(timeframe));
+        if (candidates > MAX_CANDIDATES || candidates * bars > MAX_BAR_EVALUATIONS) {
+          return new Response(JSON.stringify({
+            error: `Search covers ${candidates} candidates over ${bars} bars; ` +
+              `keep it to ${MAX_CANDIDATES} candidates and ${MAX_BAR_EVALUATIONS} candidate bars`
+          }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+        
+        const watchlist = await loadWatchlist(supabase, user.id);
+        const asset = watchlist.find(item => item.asset === body.asset);
+        if (!asset) {
+          return new Response(JSON.stringify({ error: `Asset ${body.asset} is not in the watchlist` }), {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+        
+        // Swept values are laid over whatever the strategy runs with today
+        const configs = await loadActiveConfigs(supabase, user.id);
+        const { config_id, config_version, ...baseParams } = resolveStrategy(configs, strategy, asset.asset);
+        
+        console.log(`Optimising ${strategy} on ${asset.asset} ${timeframe} (${mode}, ${objective})`);
+        
+        const candles = await loadCandles(supabase, asset.asset, timeframe, from.getTime(), to.getTime());
+        const biasCandles = biasTimeframe === timeframe
+          ? undefined
+          : {
+            timeframe: biasTimeframe,
+            candles: await loadCandles(supabase, asset.asset, biasTimeframe, from.getTime(), to.getTime())
+          };
+        
+        const result = runSearch(
+          asset,
+          candles,
+          {
+            strategy,
+            timeframe,
+            from: from.toISOString(),
+            to: to.toISOString(),
+            mode,
+            space,
+            samples,
+            objective,
+            minTrades,
+            folds,
+            maxBarsHeld,
+            baseParams,
+            backtest: {
+              sessions,
+              calendar: parseSessionCalendar(Deno.env.get('SESSION_CALENDAR'))
+            }
+          },
+          biasCandles
+        );
+        
+        console.log(`Optimisation tried ${result.candidates.length} candidates over ${result.bars_tested} bars`);
+        
+        const { data: run, error } = await supabase
+          .from('optimization_runs')
+          .insert({
+            asset: asset.asset,
+            timeframe,
+            bias_timeframe: biasTimeframe,
+            strategy,
+            range_start: from.toISOString(),
+            range_end: to.toISOString(),
+            mode,
+            objective,
+            space,
+            params: { samples, folds, min_trades: minTrades, max_bars_held: maxBarsHeld, sessions },
+            base_params: baseParams,
+            base_config_id: config_id,
+            base_config_version: config_version,
+            bars_tested: result.bars_tested,
+            best: result.candidates[0] ?? null,
+            candidates: result.candidates,
+            walk_forward: result.walk_forward
+          })
+          .select()
+          .single();
+        
+        if (error) {
+          console.error('Error storing optimisation run:', error);
+          throw error;
+        }
+        
+        return new Response(JSON.stringify({
+          success: true,
+          run,
+          message: `Optimisation ranked ${result.candidates.length} parameter sets`
+        }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+    
+    return new Response(JSON.stringify({ error: 'Not found' }), {
+      status: 404,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    
+    console.error('Error in optimize function:', error);
+    return new Response(JSON.stringify({
+      error: error.message,
+      details: 'Check function logs for more information'
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,54 @@
+import { deepStrictEqual, strictEqual, throws } from 'node:assert/strict';
+import { ValidationError } from '../_shared/errors.ts';
+import {
+  buildCandidates,
+  candidateCount,
+  gridSize,
+  MAX_BAR_EVALUATIONS,
+  MAX_CANDIDATES,
+  parseParamSpace
+} from './search.ts';
+
+Deno.test('gridSize counts float steps without losing the last value', () => {
+  strictEqual(gridSize({ min_confidence: { min: 0.1, max: 0.3, step: 0.1 } }), 3);
+  strictEqual(gridSize({
+    target_r: { min: 1.5, max: 3, step: 0.5 },
+    stop_atr_multiple: { min: 1, max: 2, step: 0.5 }
+  }), 12);
+});
+
+Deno.test('candidateCount is the whole grid, or the samples capped by grid and MAX_CANDIDATES', () => {
+  const space = { target_r: { min: 1, max: 10, step: 1 }, turtle_soup_lookback: { min: 10, max: 100, step: 10 } };
+  
+  strictEqual(candidateCount(space, 'grid', 5), 100);
+  strictEqual(candidateCount(space, 'random', 20), 20);
+  strictEqual(candidateCount(space, 'random', 500), MAX_CANDIDATES);
+  strictEqual(candidateCount({ target_r: { min: 1, max: 3, step: 1 } }, 'random', 20), 3);
+});
+
+Deno.test('buildCandidates returns as many distinct points as candidateCount', () => {
+  const space = { target_r: { min: 1, max: 10, step: 1 }, turtle_soup_lookback: { min: 10, max: 100, step: 10 } };
+  const candidates = buildCandidates(space, 'random', 30);
+  
+  strictEqual(candidates.length, candidateCount(space, 'random', 30));
+  strictEqual(new Set(candidates.map(params => JSON.stringify(params))).size, 30);
+});
+
+Deno.test('buildCandidates refuses a grid over MAX_CANDIDATES', () => {
+  throws(() => buildCandidates({ target_r: { min: 1, max: 100, step: 1 } }, 'grid', 0), ValidationError);
+});
+
+Deno.test('parseParamSpace keeps known ranges', () => {
+  deepStrictEqual(
+    parseParamSpace({ min_confidence: { min: 0.4, max: 0.8, step: 0.2 } }),
+    { min_confidence: { min: 0.4, max: 0.8, step: 0.2 } }
+  );
+});
+
+Deno.test('parseParamSpace rejects steps below six decimals and axes over the cap', () => {
+  throws(() => parseParamSpace({ target_r: { min: 0, max: 1, step: 1e-7 } }), ValidationError);
+  throws(() => parseParamSpace({ target_r: { min: 0, max: 1e6, step: 1e-6 } }), ValidationError);
+  throws(() => parseParamSpace({ target_r: { min: 0, max: MAX_BAR_EVALUATIONS, step: 1 } }), ValidationError);
+  throws(() => parseParamSpace({ liquidity: { min: 0, max: 1, step: 1 } }), ValidationError);
+  throws(() => parseParamSpace({}), ValidationError);
+});
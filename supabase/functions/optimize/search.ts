@@ -0,0 +1,326 @@
+import { runBacktest, type BacktestOptions, type BacktestTrade } from '../backtest/engine.ts';
+import type { MarketData } from '../_shared/ict/index.ts';
+import { ValidationError } from '../_shared/errors.ts';
+import { summarizeResults, type PerformanceStats } from '../_shared/performance.ts';
+import {
+  ENTRY_STRATEGIES,
+  type StrategyConfig,
+  type StrategyParams
+} from '../_shared/strategy-config.ts';
+import type { Timeframe } from '../_shared/timeframes.ts';
+import type { WatchlistAsset } from '../_shared/watchlist.ts';
+
+export type EntryStrategy = typeof ENTRY_STRATEGIES[number];
+
+// Parameters that change which entries fire or how they exit
+export const SWEEP_PARAMS = [
+  'min_confidence',
+  'stop_atr_multiple',
+  'target_atr_multiple',
+  'stop_buffer_atr',
+  'target_r',
+  'turtle_soup_lookback',
+  'crt_max_range',
+  'liquidity_tolerance',
+  'doji_threshold'
+] as const;
+
+export type SweepParam = typeof SWEEP_PARAMS[number];
+
+export const OBJECTIVES = ['expectancy', 'profit_factor', 'max_drawdown'] as const;
+
+export type Objective = typeof OBJECTIVES[number];
+
+export type SearchMode = 'grid' | 'random';
+
+export interface ParamRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+export type ParamSpace = Partial<Record<SweepParam, ParamRange>>;
+
+// Each candidate is a full backtest, so the search is capped to stay inside
+// the edge function time limit
+export const MAX_CANDIDATES = 50;
+
+// Candidates times tested bars; a backtest costs about the same per bar, so
+// this bounds the whole search however the work is split
+export const MAX_BAR_EVALUATIONS = 100_000;
+
+// Swept values are rounded to six decimals, so finer steps would repeat them
+export const MIN_STEP = 1e-6;
+
+// Walk-forward efficiency (out-of-sample over in-sample expectancy) below
+// which a candidate is flagged as overfit
+export const OVERFIT_EFFICIENCY = 0.5;
+
+export interface SearchOptions {
+  strategy: EntryStrategy;
+  timeframe: Timeframe;
+  from: string;
+  to: string;
+  mode: SearchMode;
+  space: ParamSpace;
+  // Random mode only: how many distinct points of the grid to try
+  samples: number;
+  objective: Objective;
+  // Candidates with fewer closed trades rank below every candidate with enough
+  minTrades: number;
+  folds: number;
+  maxBarsHeld: number;
+  // Resolved params the swept values are laid over
+  baseParams: StrategyParams;
+  backtest: Pick<BacktestOptions, 'sessions' | 'calendar'>;
+}
+
+export interface FoldResult {
+  in_sample: PerformanceStats;
+  out_of_sample: PerformanceStats;
+}
+
+export interface Candidate {
+  rank: number;
+  params: Partial<Record<SweepParam, number>>;
+  score: number | null;
+  stats: PerformanceStats;
+  folds: FoldResult[];
+  // Summed out-of-sample over summed in-sample expectancy; null without an
+  // in-sample edge to compare against
+  efficiency: number | null;
+  overfit: boolean;
+}
+
+export interface WalkForwardFold {
+  in_sample_start: string;
+  in_sample_end: string;
+  out_of_sample_end: string;
+  // Rank of the candidate that scored best in sample
+  selected_rank: number;
+  in_sample_score: number | null;
+  out_of_sample_score: number | null;
+}
+
+export interface SearchResult {
+  candidates: Candidate[];
+  walk_forward: WalkForwardFold[];
+  bars_tested: number;
+}
+
+export function parseParamSpace(value: unknown): ParamSpace {
+  if (!value || typeof value !== 'object') {
+    throw new ValidationError('Optimisation needs a parameter space to search');
+  }
+  
+  const space: ParamSpace = {};
+  for (const [key, range] of Object.entries(value as Record<string, ParamRange>)) {
+    if (!(SWEEP_PARAMS as readonly string[]).includes(key)) {
+      throw new ValidationError(`Unsupported parameter: ${key}. Expected one of ${SWEEP_PARAMS.join(', ')}`);
+    }
+    const { min, max, step } = range ?? {};
+    if (![min, max, step].every(Number.isFinite) || min > max || step < MIN_STEP) {
+      throw new ValidationError(`Invalid range for ${key}: needs numeric min <= max and a step of at least ${MIN_STEP}`);
+    }
+    // Every candidate tests at least one bar, so a longer axis can never pass
+    // the evaluation cap; checked before any values are built
+    const count = axisCount({ min, max, step });
+    if (count > MAX_BAR_EVALUATIONS) {
+      throw new ValidationError(`Range for ${key} has ${count} values; keep it to ${MAX_BAR_EVALUATIONS}`);
+    }
+    space[key as SweepParam] = { min, max, step };
+  }
+  
+  if (Object.keys(space).length === 0) {
+    throw new ValidationError('Optimisation needs at least one parameter to sweep');
+  }
+  return space;
+}
+
+// How many values a range covers, without building them
+function axisCount({ min, max, step }: ParamRange): number {
+  return Math.floor((max - min) / step + 1e-9) + 1;
+}
+
+// Values a range covers, rounded so float steps do not drift
+function rangeValues(range: ParamRange): number[] {
+  return Array.from({ length: axisCount(range) }, (_, i) => Number((range.min + i * range.step).toFixed(6)));
+}
+
+export function gridSize(space: ParamSpace): number {
+  return Object.values(space).reduce((size, range) => size * axisCount(range!), 1);
+}
+
+// How many candidates buildCandidates returns for these options
+export function candidateCount(space: ParamSpace, mode: SearchMode, samples: number): number {
+  const size = gridSize(space);
+  return mode === 'grid' ? size : Math.min(samples, size, MAX_CANDIDATES);
+}
+
+// Every combination of the swept values, or `samples` distinct ones picked at random
+export function buildCandidates(
+  space: ParamSpace,
+  mode: SearchMode,
+  samples: number
+): Partial<Record<SweepParam, number>>[] {
+  const axes = Object.entries(space).map(([key, range]) => [key, rangeValues(range!)] as const);
+  const size = gridSize(space);
+  const pick = (index: number) => {
+    const params: Partial<Record<SweepParam, number>> = {};
+    for (const [key, values] of axes) {
+      params[key as SweepParam] = values[index % values.length];
+      index = Math.floor(index / values.length);
+    }
+    return params;
+  };
+  
+  if (mode === 'grid') {
+    if (size > MAX_CANDIDATES) {
+      throw new ValidationError(`Grid has ${size} combinations; narrow it to ${MAX_CANDIDATES} or use random search`);
+    }
+    return Array.from({ length: size }, (_, i) => pick(i));
+  }
+  
+  const count = candidateCount(space, mode, samples);
+  const chosen = new Set<number>();
+  while (chosen.size < count) {
+    chosen.add(Math.floor(Math.random() * size));
+  }
+  return [...chosen].map(pick);
+}
+
+// Higher is better for every objective; null when there is nothing to score.
+// Without a losing trade there is no profit factor, and such small samples
+// rank below every scored candidate rather than above them.
+export function scoreStats(stats: PerformanceStats, objective: Objective): number | null {
+  if (stats.trades === 0) return null;
+  
+  switch (objective) {
+    case 'expectancy':
+      return stats.expectancy;
+    case 'profit_factor':
+      return stats.profit_factor;
+    case 'max_drawdown':
+      return -stats.max_drawdown;
+  }
+}
+
+function statsBetween(trades: BacktestTrade[], from: number, to: number): PerformanceStats {
+  const results = trades
+    .filter(t => {
+      const entry = new Date(t.entry_time).getTime();
+      return t.outcome !== 'open' && entry >= from && entry < to;
+    })
+    .sort((a, b) => new Date(a.exit_time!).getTime() - new Date(b.exit_time!).getTime())
+    .map(t => t.r_multiple);
+  return summarizeResults(results);
+}
+
+// Fold boundaries: the range split into `folds + 1` equal segments. Fold k
+// trains on every segment up to k (anchored) and tests on segment k + 1.
+function foldBounds(from: number, to: number, folds: number): [number, number, number][] {
+  const segment = (to - from) / (folds + 1);
+  return Array.from({ length: folds }, (_, k) => [
+    from,
+    from + segment * (k + 1),
+    from + segment * (k + 2)
+  ]);
+}
+
+function compareScores(a: Candidate, b: Candidate, minTrades: number): number {
+  const enoughA = a.stats.trades >= minTrades;
+  const enoughB = b.stats.trades >= minTrades;
+  if (enoughA !== enoughB) return enoughA ? -1 : 1;
+  if (a.score === b.score) return b.stats.trades - a.stats.trades;
+  if (a.score === null) return 1;
+  if (b.score === null) return -1;
+  return b.score - a.score;
+}
+
+// Backtests every candidate once over the whole range. In-sample and
+// out-of-sample figures are cut from those trades by entry time, which
+// matches separate backtests of each slice apart from trades still open at
+// a fold boundary.
+export function runSearch(
+  asset: WatchlistAsset,
+  candles: MarketData[],
+  options: SearchOptions,
+  biasData?: { timeframe: Timeframe; candles: MarketData[] }
+): SearchResult {
+  const from = new Date(options.from).getTime();
+  const to = new Date(options.to).getTime();
+  const bounds = foldBounds(from, to, options.folds);
+  let barsTested = 0;
+  
+  const candidates: Candidate[] = buildCandidates(options.space, options.mode, options.samples).map(params => {
+    const config: StrategyConfig = {
+      id: 'optimization',
+      user_id: null,
+      strategy: options.strategy,
+      asset: asset.asset,
+      version: 0,
+      params: { ...options.baseParams, ...params, enabled: true }
+    };
+    
+    const result = runBacktest(
+      asset,
+      candles,
+      {
+        ...options.backtest,
+        timeframe: options.timeframe,
+        from: options.from,
+        strategies: [options.strategy],
+        maxBarsHeld: options.maxBarsHeld,
+        configs: [config]
+      },
+      biasData
+    );
+    barsTested = result.bars_tested;
+    
+    const folds = bounds.map(([start, split, end]) => ({
+      in_sample: statsBetween(result.trades, start, split),
+      out_of_sample: statsBetween(result.trades, split, end)
+    }));
+    const inSample = folds.reduce((sum, f) => sum + f.in_sample.expectancy, 0);
+    const outOfSample = folds.reduce((sum, f) => sum + f.out_of_sample.expectancy, 0);
+    const efficiency = inSample > 0 ? outOfSample / inSample : null;
+    
+    return {
+      rank: 0,
+      params,
+      score: scoreStats(result.summary, options.objective),
+      stats: result.summary,
+      folds,
+      efficiency,
+      overfit: outOfSample <= 0 || (efficiency !== null && efficiency < OVERFIT_EFFICIENCY)
+    };
+  });
+  
+  candidates.sort((a, b) => compareScores(a, b, options.minTrades));
+  candidates.forEach((candidate, i) => {
+    candidate.rank = i + 1;
+  });
+  
+  // Walk-forward selection: what picking the in-sample winner at each fold
+  // would have earned on the data that followed
+  const walkForward = bounds.map(([start, split, end], k) => {
+    const scored = candidates.map(candidate => ({
+      candidate,
+      score: scoreStats(candidate.folds[k].in_sample, options.objective)
+    }));
+    const best = scored.reduce((top, item) =>
+      item.score !== null && (top.score === null || item.score > top.score) ? item : top
+    );
+    
+    return {
+      in_sample_start: new Date(start).toISOString(),
+      in_sample_end: new Date(split).toISOString(),
+      out_of_sample_end: new Date(end).toISOString(),
+      selected_rank: best.candidate.rank,
+      in_sample_score: best.score,
+      out_of_sample_score: scoreStats(best.candidate.folds[k].out_of_sample, options.objective)
+    };
+  });
+  
+  return { candidates, walk_forward: walkForward, bars_tested: barsTested };
+}
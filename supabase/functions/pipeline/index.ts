@@ -0,0 +1,113 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { authenticate, createServiceClient, isAdmin, isServiceRequest } from '../_shared/auth.ts';
+import { ValidationError } from '../_shared/errors.ts';
+import { parseTimeframe } from '../_shared/timeframes.ts';
+import { parseFractal } from '../ict-signals/signals.ts';
+import { runPipeline, type PipelineTrigger } from './run.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const TRIGGERS: PipelineTrigger[] = ['schedule', 'manual'];
+
+function parseTrigger(value: unknown): PipelineTrigger {
+  if (value === undefined || value === null || value === '') return 'manual';
+  if (!TRIGGERS.includes(value as PipelineTrigger)) {
+    throw new ValidationError(`Unsupported trigger: ${value}. Expected one of ${TRIGGERS.join(', ')}`);
+  }
+  return value as PipelineTrigger;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+  
+  try {
+    // pg_cron calls with the service role key, everyone else has to sign in
+    const service = isServiceRequest(req);
+    const auth = service ? null : await authenticate(req);
+    if (!service && !auth) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const url = new URL(req.url);
+    
+    if (url.pathname === '/pipeline') {
+      if (req.method === 'GET') {
+        // A single run, or the latest runs
+        const id = url.searchParams.get('id');
+        let query = (auth?.supabase ?? createServiceClient())
+          .from('pipeline_runs')
+          .select('*')
+          .order('started_at', { ascending: false })
+          .limit(50);
+        
+        if (id) {
+          query = query.eq('id', id);
+        }
+        
+        const { data, error } = await query;
+        if (error) throw error;
+        
+        return new Response(JSON.stringify({ runs: data }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      
+      if (req.method === 'POST') {
+        // Ingest, analyse and resolve in one go; pg_cron posts here on a schedule.
+        // Runs cover every user, so they always use the service client and
+        // only the schedule or an admin may start one.
+        if (!service && !isAdmin(auth!.user)) {
+          return new Response(JSON.stringify({ error: 'Forbidden' }), {
+            status: 403,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
+        
+        const body = await req.json().catch(() => ({}));
+        const timeframe = parseTimeframe(body.timeframe);
+        
+        const run = await runPipeline(createServiceClient(), {
+          trigger: parseTrigger(body.trigger),
+          timeframe,
+          biasTimeframe: parseTimeframe(body.bias_timeframe, timeframe),
+          fractal: parseFractal(body.fractal)
+        });
+        
+        return new Response(JSON.stringify({ run }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+    
+    return new Response(JSON.stringify({ error: 'Not found' }), {
+      status: 404,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    
+    console.error('Error in pipeline function:', error);
+    return new Response(JSON.stringify({
+      error: error.message,
+      details: 'Check function logs for more information'
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,308 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.8';
+import { dispatchSignalAlerts, retryDueDeliveries } from '../_shared/alerts/dispatch.ts';
+import { parseSessionCalendar } from '../_shared/ict/index.ts';
+import { resolveOpenSignals } from '../_shared/signal-lifecycle.ts';
+import { loadActiveConfigs } from '../_shared/strategy-config.ts';
+import type { Timeframe } from '../_shared/timeframes.ts';
+import { loadWatchlistOwners } from '../_shared/watchlist.ts';
+import { generateEntries } from '../ict-entries/signals.ts';
+import { generateBiasSignals } from '../ict-signals/signals.ts';
+import { ingestLatest } from '../market-data/ingest.ts';
+
+export type PipelineTrigger = 'schedule' | 'manual';
+export type PipelineStatus = 'running' | 'succeeded' | 'partial' | 'failed' | 'skipped';
+export type PipelineStepName = 'ingest' | 'analyse' | 'resolve' | 'alert';
+
+// A run still marked running after this long is assumed to have died, so it
+// is marked failed and a new run may start
+export const STALE_RUN_MINUTES = 15;
+
+// Postgres unique_violation, raised by the index that allows one running run
+const UNIQUE_VIOLATION = '23505';
+
+export interface PipelineOptions {
+  trigger: PipelineTrigger;
+  timeframe: Timeframe;
+  biasTimeframe: Timeframe;
+  fractal: number;
+}
+
+export interface PipelineStep {
+  name: PipelineStepName;
+  status: 'succeeded' | 'partial' | 'failed' | 'skipped';
+  started_at: string;
+  duration_ms: number;
+  counts: Record<string, number>;
+}
+
+export interface PipelineError {
+  step: PipelineStepName;
+  asset: string | null;
+  message: string;
+}
+
+export interface PipelineRun {
+  id: string;
+  trigger: PipelineTrigger;
+  status: PipelineStatus;
+  timeframe: Timeframe;
+  bias_timeframe: Timeframe;
+  started_at: string;
+  finished_at: string | null;
+  duration_ms: number | null;
+  assets_updated: string[];
+  candles_ingested: number;
+  signals_generated: number;
+  signals_resolved: number;
+  steps: PipelineStep[];
+  errors: PipelineError[];
+}
+
+// Times one step. `work` reports its counts and any per-asset failures; a
+// throw fails the whole step.
+async function runStep(
+  name: PipelineStepName,
+  steps: PipelineStep[],
+  errors: PipelineError[],
+  work: () => Promise<{ counts: Record<string, number>; failures?: { asset: string; error: string }[] }>
+): Promise<PipelineStep> {
+  const started = Date.now();
+  const step: PipelineStep = {
+    name,
+    status: 'succeeded',
+    started_at: new Date(started).toISOString(),
+    duration_ms: 0,
+    counts: {}
+  };
+  
+  try {
+    const { counts, failures = [] } = await work();
+    step.counts = counts;
+    if (failures.length > 0) step.status = 'partial';
+    errors.push(...failures.map(failure => ({ step: name, asset: failure.asset, message: failure.error })));
+  } catch (error) {
+    console.error(`Pipeline ${name} step failed:`, error);
+    step.status = 'failed';
+    errors.push({ step: name, asset: null, message: error.message });
+  }
+  
+  step.duration_ms = Date.now() - started;
+  steps.push(step);
+  return step;
+}
+
+function skipStep(name: PipelineStepName, steps: PipelineStep[]) {
+  steps.push({ name, status: 'skipped', started_at: new Date().toISOString(), duration_ms: 0, counts: {} });
+}
+
+// Failed when nothing that ran succeeded, partial when anything went wrong
+function overallStatus(steps: PipelineStep[]): PipelineStatus {
+  const ran = steps.filter(step => step.status !== 'skipped');
+  if (ran.length > 0 && ran.every(step => step.status === 'failed')) return 'failed';
+  if (ran.some(step => step.status !== 'succeeded')) return 'partial';
+  return 'succeeded';
+}
+
+// Frees the running slot held by runs that died without finishing
+async function failStaleRuns(supabase: SupabaseClient): Promise<void> {
+  const staleBefore = new Date(Date.now() - STALE_RUN_MINUTES * 60_000).toISOString();
+  const { error } = await supabase
+    .from('pipeline_runs')
+    .update({
+      status: 'failed',
+      finished_at: new Date().toISOString(),
+      errors: [{ step: 'ingest', asset: null, message: `No progress for ${STALE_RUN_MINUTES} minutes` }]
+    })
+    .eq('status', 'running')
+    .lt('started_at', staleBefore);
+  
+  if (error) throw error;
+}
+
+async function findActiveRun(supabase: SupabaseClient): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('pipeline_runs')
+    .select('id')
+    .eq('status', 'running')
+    .limit(1);
+  
+  if (error) throw error;
+  
+  return data?.length ? data[0].id : null;
+}
+
+// Null when the run is 'running' and another one already holds that status
+async function saveRun(supabase: SupabaseClient, run: Omit<PipelineRun, 'id'>): Promise<PipelineRun | null> {
+  const { data, error } = await supabase
+    .from('pipeline_runs')
+    .insert(run)
+    .select()
+    .single();
+  
+  if (error?.code === UNIQUE_VIOLATION) return null;
+  if (error) {
+    console.error('Error storing pipeline run:', error);
+    throw error;
+  }
+  
+  return data as PipelineRun;
+}
+
+// Ingests the latest candles, runs the bias and entry analysers for every user
+// watching the assets that received new ones, resolves open signals against
+// the new candles and sends alerts for new signals along with any retries that
+// are due. The client has to bypass row level security, as a run covers every
+// user's data. Every run is recorded in pipeline_runs, including those skipped
+// because another run is still in progress; the database allows only one
+// running row, so two callers cannot both start.
+export async function runPipeline(supabase: SupabaseClient, options: PipelineOptions): Promise<PipelineRun> {
+  const started = Date.now();
+  const base = {
+    trigger: options.trigger,
+    timeframe: options.timeframe,
+    bias_timeframe: options.biasTimeframe,
+    started_at: new Date(started).toISOString(),
+    assets_updated: [] as string[],
+    candles_ingested: 0,
+    signals_generated: 0,
+    signals_resolved: 0,
+    steps: [] as PipelineStep[],
+    errors: [] as PipelineError[]
+  };
+  
+  await failStaleRuns(supabase);
+  
+  const run = await saveRun(supabase, { ...base, status: 'running', finished_at: null, duration_ms: null });
+  if (!run) {
+    const activeRunId = await findActiveRun(supabase);
+    console.log(`Pipeline run ${activeRunId} is still in progress, skipping`);
+    const skipped = await saveRun(supabase, {
+      ...base,
+      status: 'skipped',
+      finished_at: base.started_at,
+      duration_ms: 0,
+      errors: [{ step: 'ingest', asset: null, message: `Run ${activeRunId} is still in progress` }]
+    });
+    return skipped!;
+  }
+  
+  const { steps, errors } = run;
+  const signalIds: string[] = [];
+  
+  const ingest = await runStep('ingest', steps, errors, async () => {
+    const result = await ingestLatest(supabase);
+    run.assets_updated = result.updatedAssets;
+    run.candles_ingested = result.recordsProcessed;
+    return {
+      counts: {
+        candles: result.recordsProcessed,
+        resampled: result.resampledRecords,
+        assets_updated: result.updatedAssets.length
+      },
+      failures: result.failures
+    };
+  });
+  
+  if (ingest.status === 'failed' || run.assets_updated.length === 0) {
+    skipStep('analyse', steps);
+    skipStep('resolve', steps);
+  } else {
+    const assets = run.assets_updated;
+    
+    // Each user's signals come from their own watchlist and configs
+    await runStep('analyse', steps, errors, async () => {
+      const counts = { users: 0, bias_signals: 0, entry_signals: 0, inserted: 0, updated: 0, skipped: 0 };
+      const calendar = parseSessionCalendar(Deno.env.get('SESSION_CALENDAR'));
+      const owners = await loadWatchlistOwners(supabase);
+      const failures: { asset: string; error: string }[] = [];
+      
+      for (const [userId, watched] of owners) {
+        const userAssets = assets.filter(asset => watched.includes(asset));
+        if (userAssets.length === 0) continue;
+        
+        // One user's failure is recorded against their assets and the rest carry on
+        try {
+          const configs = await loadActiveConfigs(supabase, userId);
+          const bias = await generateBiasSignals(supabase, {
+            userId,
+            timeframe: options.timeframe,
+            biasTimeframe: options.biasTimeframe,
+            fractal: options.fractal,
+            configs,
+            assets: userAssets
+          });
+          const entries = await generateEntries(supabase, {
+            userId,
+            timeframe: options.timeframe,
+            biasTimeframe: options.biasTimeframe,
+            calendar,
+            configs,
+            assets: userAssets
+          });
+          
+          counts.users++;
+          counts.bias_signals += bias.signals.length;
+          counts.entry_signals += entries.signals.length;
+          counts.inserted += bias.stored.inserted + entries.stored.inserted;
+          counts.updated += bias.stored.updated + entries.stored.updated;
+          counts.skipped += bias.stored.skipped + entries.stored.skipped;
+          signalIds.push(...bias.stored.signal_ids, ...entries.stored.signal_ids);
+        } catch (error) {
+          console.error(`Failed to analyse signals for user ${userId}:`, error);
+          failures.push(...userAssets.map(asset => ({ asset, error: `User ${userId}: ${error.message}` })));
+        }
+      }
+      
+      run.signals_generated = counts.inserted;
+      return { counts, failures };
+    });
+    
+    // Runs after analysis so market entries stored above are resolved too
+    await runStep('resolve', steps, errors, async () => {
+      const failures: { asset: string; error: string }[] = [];
+      let checked = 0;
+      
+      for (const asset of assets) {
+        try {
+          const result = await resolveOpenSignals(supabase, asset);
+          checked += result.checked;
+          run.signals_resolved += result.updated;
+        } catch (error) {
+          console.error(`Failed to resolve ${asset} signals:`, error);
+          failures.push({ asset, error: error.message });
+        }
+      }
+      
+      return { counts: { checked, updated: run.signals_resolved }, failures };
+    });
+  }
+  
+  await runStep('alert', steps, errors, async () => {
+    const sent = await dispatchSignalAlerts(supabase, signalIds);
+    const retried = await retryDueDeliveries(supabase);
+    return {
+      counts: {
+        delivered: sent.delivered + retried.delivered,
+        retrying: sent.retrying + retried.retrying,
+        failed: sent.failed + retried.failed
+      }
+    };
+  });
+  
+  run.status = overallStatus(steps);
+  run.finished_at = new Date().toISOString();
+  run.duration_ms = Date.now() - started;
+  
+  const { id, ...columns } = run;
+  const { error } = await supabase
+    .from('pipeline_runs')
+    .update(columns)
+    .eq('id', id);
+  
+  if (error) {
+    console.error(`Error updating pipeline run ${id}:`, error);
+    throw error;
+  }
+  
+  return run;
+}
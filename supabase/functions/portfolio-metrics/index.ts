@@ -0,0 +1,87 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { authenticate } from '../_shared/auth.ts';
+import {
+  buildSnapshot,
+  fetchResolvedSignals,
+  latestSnapshot,
+  storeSnapshot,
+  type MetricScope
+} from './metrics.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const SCOPES: MetricScope[] = ['overall', 'asset', 'strategy'];
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+  
+  try {
+    const auth = await authenticate(req);
+    if (!auth) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    
+    const { supabase } = auth;
+    const url = new URL(req.url);
+    
+    if (url.pathname === '/portfolio-metrics') {
+      if (req.method === 'GET') {
+        // Latest snapshot, optionally one scope only
+        const scope = url.searchParams.get('scope');
+        if (scope && !SCOPES.includes(scope as MetricScope)) {
+          throw new Error(`Invalid scope "${scope}". Expected one of ${SCOPES.join(', ')}`);
+        }
+        
+        const metrics = await latestSnapshot(supabase, (scope as MetricScope) ?? undefined);
+        
+        return new Response(JSON.stringify({ metrics }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      
+      if (req.method === 'POST') {
+        // Recompute every scope and window from resolved signals
+        console.log('Computing portfolio metrics...');
+        
+        const signals = await fetchResolvedSignals(supabase);
+        const rows = buildSnapshot(signals, new Date());
+        await storeSnapshot(supabase, rows);
+        
+        console.log(`Stored ${rows.length} metric rows from ${signals.length} resolved signals`);
+        
+        return new Response(JSON.stringify({ 
+          success: true,
+          signalsResolved: signals.length,
+          metrics: rows,
+          message: `Stored portfolio metrics snapshot with ${rows.length} rows`
+        }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+    
+    return new Response(JSON.stringify({ error: 'Not found' }), {
+      status: 404,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  
+  } catch (error) {
+    console.error('Error in portfolio metrics function:', error);
+    return new Response(JSON.stringify({ 
+      error: error.message,
+      details: 'Check function logs for more information'
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
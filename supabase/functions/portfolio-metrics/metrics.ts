@@ -0,0 +1,150 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.49.8';
+import { summarizeResults } from '../_shared/performance.ts';
+
+export type MetricScope = 'overall' | 'asset' | 'strategy';
+
+// Rolling windows in days; null covers every resolved signal
+export const METRIC_WINDOWS: (number | null)[] = [null, 7, 30, 90];
+
+const DAY = 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 1000;
+
+export interface ResolvedSignal {
+  asset: string;
+  strategy: string | null;
+  closed_at: string;
+  realized_r: number;
+}
+
+export interface MetricsSnapshotRow {
+  snapshot_at: string;
+  scope: MetricScope;
+  scope_key: string;
+  window_days: number | null;
+  trades: number;
+  wins: number;
+  losses: number;
+  win_rate: number;
+  avg_win_r: number;
+  avg_loss_r: number;
+  risk_reward_ratio: number;
+  expectancy: number;
+  total_r: number;
+  profit_factor: number | null;
+  drawdown: number;
+  sharpe: number | null;
+  max_consecutive_losses: number;
+}
+
+// Won and lost signals, oldest exit first. Expired signals never filled, so
+// they carry no result.
+export async function fetchResolvedSignals(supabase: SupabaseClient): Promise<ResolvedSignal[]> {
+  const signals: ResolvedSignal[] = [];
+  
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('trade_signals')
+      .select('asset, strategy, closed_at, realized_r')
+      .in('status', ['won', 'lost'])
+      .not('realized_r', 'is', null)
+      .not('closed_at', 'is', null)
+      .order('closed_at', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+    
+    if (error) throw error;
+    
+    signals.push(...(data as ResolvedSignal[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  
+  return signals;
+}
+
+function snapshotRow(
+  snapshotAt: string,
+  scope: MetricScope,
+  scopeKey: string,
+  windowDays: number | null,
+  signals: ResolvedSignal[]
+): MetricsSnapshotRow {
+  const { max_drawdown, ...stats } = summarizeResults(signals.map(s => Number(s.realized_r)));
+  
+  return {
+    snapshot_at: snapshotAt,
+    scope,
+    scope_key: scopeKey,
+    window_days: windowDays,
+    ...stats,
+    drawdown: max_drawdown
+  };
+}
+
+// One row per scope and window. Assets and strategies only get a row for a
+// window they have resolved signals in.
+export function buildSnapshot(signals: ResolvedSignal[], snapshotAt: Date): MetricsSnapshotRow[] {
+  const at = snapshotAt.toISOString();
+  const rows: MetricsSnapshotRow[] = [];
+  
+  for (const windowDays of METRIC_WINDOWS) {
+    const since = windowDays === null ? -Infinity : snapshotAt.getTime() - windowDays * DAY;
+    const inWindow = signals.filter(s => new Date(s.closed_at).getTime() >= since);
+    
+    rows.push(snapshotRow(at, 'overall', 'all', windowDays, inWindow));
+    
+    const groups: [MetricScope, (s: ResolvedSignal) => string][] = [
+      ['asset', s => s.asset],
+      ['strategy', s => s.strategy ?? 'Unspecified']
+    ];
+    
+    for (const [scope, keyOf] of groups) {
+      const keys = [...new Set(inWindow.map(keyOf))].sort();
+      for (const key of keys) {
+        rows.push(snapshotRow(at, scope, key, windowDays, inWindow.filter(s => keyOf(s) === key)));
+      }
+    }
+  }
+  
+  return rows;
+}
+
+export async function storeSnapshot(supabase: SupabaseClient, rows: MetricsSnapshotRow[]) {
+  if (rows.length === 0) return;
+  
+  const { error } = await supabase.from('portfolio_metrics').insert(rows);
+  
+  if (error) {
+    console.error('Error storing portfolio metrics:', error);
+    throw error;
+  }
+}
+
+// The rows of the most recent snapshot, optionally limited to one scope
+export async function latestSnapshot(
+  supabase: SupabaseClient,
+  scope?: MetricScope
+): Promise<MetricsSnapshotRow[]> {
+  const { data: latest, error: latestError } = await supabase
+    .from('portfolio_metrics')
+    .select('snapshot_at')
+    .order('snapshot_at', { ascending: false })
+    .limit(1);
+  
+  if (latestError) throw latestError;
+  if (!latest || latest.length === 0) return [];
+  
+  let query = supabase
+    .from('portfolio_metrics')
+    .select('*')
+    .eq('snapshot_at', latest[0].snapshot_at)
+    .order('scope')
+    .order('scope_key');
+  
+  if (scope) {
+    query = query.eq('scope', scope);
+  }
+  
+  const { data, error } = await query;
+  if (error) throw error;
+  
+  return data as MetricsSnapshotRow[];
+}
@@ -0,0 +1,50 @@
+-- Tables that predate versioned migrations. Every statement is guarded so the
+-- file can run against projects created before it existed.
+create table if not exists public.watchlist (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete cascade,
+  asset text not null,
+  created_at timestamptz default now()
+);
+
+create table if not exists public.market_data (
+  id uuid primary key default gen_random_uuid(),
+  asset text not null,
+  timestamp timestamptz not null,
+  open numeric not null,
+  high numeric not null,
+  low numeric not null,
+  close numeric not null,
+  volume numeric not null default 0,
+  created_at timestamptz default now(),
+  constraint market_data_timestamp_asset_key unique (timestamp, asset)
+);
+
+create index if not exists market_data_asset_timestamp_idx
+  on public.market_data (asset, timestamp desc);
+
+create table if not exists public.trade_signals (
+  id uuid primary key default gen_random_uuid(),
+  asset text not null,
+  timeframe text not null,
+  bias text not null,
+  entry_price numeric not null,
+  stop_loss numeric not null,
+  take_profit numeric not null,
+  liquidity_zones jsonb
+);
+
+create table if not exists public.portfolio_metrics (
+  id uuid primary key default gen_random_uuid(),
+  win_rate numeric not null,
+  risk_reward_ratio numeric not null,
+  drawdown numeric not null,
+  created_at timestamptz default now()
+);
+
+create table if not exists public.error_logs (
+  id uuid primary key default gen_random_uuid(),
+  component text not null,
+  error text not null,
+  timestamp timestamptz default now()
+);
@@ -0,0 +1,29 @@
+-- Per-asset metadata so the analysed universe is driven by the watchlist
+alter table public.watchlist
+  add column if not exists asset_class text not null default 'forex',
+  add column if not exists tick_size numeric not null default 0.01,
+  add column if not exists provider text not null default 'alpha_vantage',
+  add column if not exists provider_symbol text,
+  add column if not exists provider_source text,
+  add column if not exists active boolean not null default true;
+
+alter table public.watchlist
+  drop constraint if exists watchlist_provider_check,
+  add constraint watchlist_provider_check
+  check (provider in ('alpha_vantage', 'file', 'synthetic'));
+
+create index if not exists watchlist_active_asset_idx
+  on public.watchlist (asset)
+  where active;
+
+-- Seed the assets that used to be hard-coded in the edge functions
+insert into public.watchlist (asset, asset_class, tick_size, provider, provider_symbol)
+select v.asset, v.asset_class, v.tick_size, v.provider, v.provider_symbol
+from (
+  values
+    ('XAUUSD', 'commodity', 0.01, 'alpha_vantage', 'XAU/USD'),
+    ('NASDAQ', 'index', 0.01, 'alpha_vantage', 'IXIC')
+) as v(asset, asset_class, tick_size, provider, provider_symbol)
+where not exists (
+  select 1 from public.watchlist w where w.asset = v.asset
+);
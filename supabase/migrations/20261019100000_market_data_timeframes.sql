@@ -0,0 +1,19 @@
+-- Store resampled candles next to the base resolution
+alter table public.market_data
+  add column if not exists timeframe text not null default '5min';
+
+alter table public.market_data
+  drop constraint if exists market_data_timestamp_asset_key;
+
+drop index if exists public.market_data_timestamp_asset_key;
+
+create unique index if not exists market_data_timestamp_asset_timeframe_key
+  on public.market_data (timestamp, asset, timeframe);
+
+create index if not exists market_data_asset_timeframe_timestamp_idx
+  on public.market_data (asset, timeframe, timestamp desc);
+
+alter table public.market_data
+  drop constraint if exists market_data_timeframe_check,
+  add constraint market_data_timeframe_check
+  check (timeframe in ('5min', '15min', '1h', '4h', '1d', '1w'));
@@ -0,0 +1,21 @@
+-- Resumable historical backfills for market_data
+create table if not exists public.backfill_jobs (
+  id uuid primary key default gen_random_uuid(),
+  asset text not null,
+  timeframe text not null default '5min',
+  range_start timestamptz not null,
+  range_end timestamptz not null,
+  cursor timestamptz not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'running', 'paused', 'completed', 'failed')),
+  chunks_completed integer not null default 0,
+  records_stored integer not null default 0,
+  gaps jsonb not null default '[]'::jsonb,
+  last_error text,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  check (range_start < range_end)
+);
+
+create index if not exists backfill_jobs_status_idx
+  on public.backfill_jobs (status, created_at desc);
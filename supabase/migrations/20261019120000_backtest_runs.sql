@@ -0,0 +1,20 @@
+-- Stored results of bar-by-bar strategy backtests
+create table if not exists public.backtest_runs (
+  id uuid primary key default gen_random_uuid(),
+  asset text not null,
+  timeframe text not null,
+  bias_timeframe text not null,
+  range_start timestamptz not null,
+  range_end timestamptz not null,
+  strategies text[] not null default '{}',
+  params jsonb not null default '{}'::jsonb,
+  bars_tested integer not null default 0,
+  summary jsonb not null,
+  strategy_stats jsonb not null default '[]'::jsonb,
+  trades jsonb not null default '[]'::jsonb,
+  equity_curve jsonb not null default '[]'::jsonb,
+  created_at timestamptz default now()
+);
+
+create index if not exists backtest_runs_asset_created_idx
+  on public.backtest_runs (asset, created_at desc);
@@ -0,0 +1,31 @@
+-- Track each signal from creation through fill to its outcome
+alter table public.trade_signals
+  add column if not exists strategy text,
+  add column if not exists status text not null default 'pending',
+  add column if not exists signal_time timestamptz,
+  add column if not exists expires_at timestamptz,
+  add column if not exists triggered_at timestamptz,
+  add column if not exists fill_price numeric,
+  add column if not exists closed_at timestamptz,
+  add column if not exists exit_price numeric,
+  add column if not exists realized_r numeric,
+  add column if not exists evaluated_until timestamptz,
+  add column if not exists created_at timestamptz default now(),
+  add column if not exists updated_at timestamptz default now();
+
+alter table public.trade_signals
+  drop constraint if exists trade_signals_status_check,
+  add constraint trade_signals_status_check
+  check (status in ('pending', 'triggered', 'won', 'lost', 'expired'));
+
+-- Signals created before lifecycle tracking have no reference time to resolve from
+update public.trade_signals
+  set status = 'expired'
+  where signal_time is null;
+
+create index if not exists trade_signals_open_idx
+  on public.trade_signals (asset, status)
+  where status in ('pending', 'triggered');
+
+create index if not exists trade_signals_asset_created_idx
+  on public.trade_signals (asset, created_at desc);
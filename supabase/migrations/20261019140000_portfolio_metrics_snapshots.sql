@@ -0,0 +1,28 @@
+-- Snapshots of live signal performance, overall and broken down by asset,
+-- strategy and rolling window. All R based figures are in multiples of risk.
+alter table public.portfolio_metrics
+  add column if not exists snapshot_at timestamptz not null default now(),
+  add column if not exists scope text not null default 'overall',
+  add column if not exists scope_key text not null default 'all',
+  add column if not exists window_days integer,
+  add column if not exists trades integer not null default 0,
+  add column if not exists wins integer not null default 0,
+  add column if not exists losses integer not null default 0,
+  add column if not exists avg_win_r numeric not null default 0,
+  add column if not exists avg_loss_r numeric not null default 0,
+  add column if not exists expectancy numeric not null default 0,
+  add column if not exists total_r numeric not null default 0,
+  add column if not exists profit_factor numeric,
+  add column if not exists sharpe numeric,
+  add column if not exists max_consecutive_losses integer not null default 0;
+
+alter table public.portfolio_metrics
+  drop constraint if exists portfolio_metrics_scope_check,
+  add constraint portfolio_metrics_scope_check
+  check (scope in ('overall', 'asset', 'strategy'));
+
+comment on column public.portfolio_metrics.window_days is
+  'Rolling window ending at snapshot_at; null covers every resolved signal';
+
+create index if not exists portfolio_metrics_scope_snapshot_idx
+  on public.portfolio_metrics (scope, scope_key, window_days, snapshot_at desc);
@@ -0,0 +1,8 @@
+-- Trading session (asian, london, ny_am, ny_pm) the signal bar fell in
+alter table public.trade_signals
+  add column if not exists session text;
+
+alter table public.trade_signals
+  drop constraint if exists trade_signals_session_check,
+  add constraint trade_signals_session_check
+  check (session is null or session in ('asian', 'london', 'ny_am', 'ny_pm'));
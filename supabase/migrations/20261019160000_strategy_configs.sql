@@ -0,0 +1,35 @@
+-- Per user, strategy and asset parameter overrides. Saving a config inserts
+-- a new version and retires the previous one, so every signal can point at
+-- the exact parameters that produced it.
+create table if not exists public.strategy_configs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete cascade,
+  strategy text not null,
+  asset text,
+  version integer not null default 1,
+  params jsonb not null default '{}'::jsonb,
+  is_active boolean not null default true,
+  created_at timestamptz default now()
+);
+
+comment on column public.strategy_configs.asset is 'null applies the config to every asset';
+
+create unique index if not exists strategy_configs_active_key
+  on public.strategy_configs (
+    coalesce(user_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    strategy,
+    coalesce(asset, '')
+  )
+  where is_active;
+
+create unique index if not exists strategy_configs_version_key
+  on public.strategy_configs (
+    coalesce(user_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    strategy,
+    coalesce(asset, ''),
+    version
+  );
+
+alter table public.trade_signals
+  add column if not exists config_id uuid references public.strategy_configs (id) on delete set null,
+  add column if not exists config_version integer;
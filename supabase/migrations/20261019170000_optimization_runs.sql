@@ -0,0 +1,28 @@
+-- Stored parameter searches over one entry strategy, ranked by an objective
+-- with walk-forward results; a candidate can be promoted to strategy_configs
+create table if not exists public.optimization_runs (
+  id uuid primary key default gen_random_uuid(),
+  asset text not null,
+  timeframe text not null,
+  bias_timeframe text not null,
+  strategy text not null,
+  range_start timestamptz not null,
+  range_end timestamptz not null,
+  mode text not null check (mode in ('grid', 'random')),
+  objective text not null check (objective in ('expectancy', 'profit_factor', 'max_drawdown')),
+  space jsonb not null,
+  params jsonb not null default '{}'::jsonb,
+  -- Resolved strategy params the swept values were laid over
+  base_params jsonb not null,
+  base_config_id uuid references public.strategy_configs (id) on delete set null,
+  base_config_version integer,
+  bars_tested integer not null default 0,
+  best jsonb,
+  candidates jsonb not null default '[]'::jsonb,
+  walk_forward jsonb not null default '[]'::jsonb,
+  promoted_config_id uuid references public.strategy_configs (id) on delete set null,
+  created_at timestamptz default now()
+);
+
+create index if not exists optimization_runs_asset_created_idx
+  on public.optimization_runs (asset, created_at desc);
@@ -0,0 +1,12 @@
+-- Computed confluence score (0 to 1) and the factors behind it. Entry signals
+-- used to keep a fixed confidence inside liquidity_zones; it is copied over
+-- so older rows still show one.
+alter table public.trade_signals
+  add column if not exists confidence numeric,
+  add column if not exists confluence jsonb;
+
+update public.trade_signals
+  set confidence = (liquidity_zones ->> 'confidence')::numeric
+  where confidence is null
+    and jsonb_typeof(liquidity_zones) = 'object'
+    and liquidity_zones ? 'confidence';
@@ -0,0 +1,3 @@
+-- Looked up before every insert to fold repeats of a setup into one signal
+create index if not exists trade_signals_setup_idx
+  on public.trade_signals (asset, timeframe, strategy, bias, signal_time desc);
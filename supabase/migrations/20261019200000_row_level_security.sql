@@ -0,0 +1,140 @@
+-- Row level security for every table the app touches. There is no sign-in
+-- yet, so the frontend and the edge functions both use the anon key: candles,
+-- signals and run history are readable by anyone holding it, and writes are
+-- limited to the tables and operations the app actually performs.
+alter table public.watchlist enable row level security;
+alter table public.market_data enable row level security;
+alter table public.trade_signals enable row level security;
+alter table public.portfolio_metrics enable row level security;
+alter table public.error_logs enable row level security;
+alter table public.backfill_jobs enable row level security;
+alter table public.backtest_runs enable row level security;
+alter table public.strategy_configs enable row level security;
+alter table public.optimization_runs enable row level security;
+
+-- Watchlist: shared rows are seeded by migrations, users manage their own
+create policy "Watchlist is readable"
+  on public.watchlist for select
+  to anon, authenticated
+  using (user_id is null or user_id = auth.uid());
+
+create policy "Users manage their own watchlist"
+  on public.watchlist for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Candles: written by market-data ingestion and resampling
+create policy "Market data is readable"
+  on public.market_data for select
+  to anon, authenticated
+  using (true);
+
+create policy "Market data can be ingested"
+  on public.market_data for insert
+  to anon, authenticated
+  with check (true);
+
+create policy "Market data can be resampled"
+  on public.market_data for update
+  to anon, authenticated
+  using (true)
+  with check (true);
+
+-- Signals: inserted, refreshed and resolved by the signal functions
+create policy "Trade signals are readable"
+  on public.trade_signals for select
+  to anon, authenticated
+  using (true);
+
+create policy "Trade signals can be generated"
+  on public.trade_signals for insert
+  to anon, authenticated
+  with check (true);
+
+create policy "Trade signals can be resolved"
+  on public.trade_signals for update
+  to anon, authenticated
+  using (true)
+  with check (true);
+
+-- Metrics snapshots are append only
+create policy "Portfolio metrics are readable"
+  on public.portfolio_metrics for select
+  to anon, authenticated
+  using (true);
+
+create policy "Portfolio metrics can be recorded"
+  on public.portfolio_metrics for insert
+  to anon, authenticated
+  with check (true);
+
+-- Error logs can be written but not read back with the anon key
+create policy "Errors can be logged"
+  on public.error_logs for insert
+  to anon, authenticated
+  with check (true);
+
+-- Backfill jobs: created and progressed by the market-data function
+create policy "Backfill jobs are readable"
+  on public.backfill_jobs for select
+  to anon, authenticated
+  using (true);
+
+create policy "Backfill jobs can be created"
+  on public.backfill_jobs for insert
+  to anon, authenticated
+  with check (true);
+
+create policy "Backfill jobs can be progressed"
+  on public.backfill_jobs for update
+  to anon, authenticated
+  using (true)
+  with check (true);
+
+-- Backtest and optimisation runs are stored once; optimisations are updated
+-- again when a candidate is promoted
+create policy "Backtest runs are readable"
+  on public.backtest_runs for select
+  to anon, authenticated
+  using (true);
+
+create policy "Backtest runs can be stored"
+  on public.backtest_runs for insert
+  to anon, authenticated
+  with check (true);
+
+create policy "Optimisation runs are readable"
+  on public.optimization_runs for select
+  to anon, authenticated
+  using (true);
+
+create policy "Optimisation runs can be stored"
+  on public.optimization_runs for insert
+  to anon, authenticated
+  with check (true);
+
+create policy "Optimisation runs can be promoted"
+  on public.optimization_runs for update
+  to anon, authenticated
+  using (true)
+  with check (true);
+
+-- Strategy configs: shared rows apply to everyone, user rows to their owner.
+-- Saving retires the active row and inserts the next version, so there is no
+-- delete policy.
+create policy "Strategy configs are readable"
+  on public.strategy_configs for select
+  to anon, authenticated
+  using (user_id is null or user_id = auth.uid());
+
+create policy "Strategy configs can be versioned"
+  on public.strategy_configs for insert
+  to anon, authenticated
+  with check (user_id is null or user_id = auth.uid());
+
+create policy "Strategy configs can be retired"
+  on public.strategy_configs for update
+  to anon, authenticated
+  using (user_id is null or user_id = auth.uid())
+  with check (user_id is null or user_id = auth.uid());
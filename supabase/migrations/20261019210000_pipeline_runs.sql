@@ -0,0 +1,64 @@
+-- One row per ingest → analyse → resolve pipeline run, with per-step timing,
+-- counts and errors
+create table if not exists public.pipeline_runs (
+  id uuid primary key default gen_random_uuid(),
+  trigger text not null default 'manual' check (trigger in ('schedule', 'manual')),
+  status text not null default 'running'
+    check (status in ('running', 'succeeded', 'partial', 'failed', 'skipped')),
+  timeframe text not null,
+  bias_timeframe text not null,
+  started_at timestamptz not null default now(),
+  finished_at timestamptz,
+  duration_ms integer,
+  assets_updated text[] not null default '{}',
+  candles_ingested integer not null default 0,
+  signals_generated integer not null default 0,
+  signals_resolved integer not null default 0,
+  steps jsonb not null default '[]'::jsonb,
+  errors jsonb not null default '[]'::jsonb
+);
+
+create index if not exists pipeline_runs_started_idx
+  on public.pipeline_runs (started_at desc);
+
+alter table public.pipeline_runs enable row level security;
+
+create policy "Pipeline runs are readable"
+  on public.pipeline_runs for select
+  to anon, authenticated
+  using (true);
+
+create policy "Pipeline runs can be recorded"
+  on public.pipeline_runs for insert
+  to anon, authenticated
+  with check (true);
+
+create policy "Pipeline runs can be finished"
+  on public.pipeline_runs for update
+  to anon, authenticated
+  using (true)
+  with check (true);
+
+-- Run the pipeline every five minutes. The project URL and anon key are read
+-- from Vault, e.g.
+--   select vault.create_secret('https://<ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<anon key>', 'anon_key');
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+select cron.schedule(
+  'ict-pipeline',
+  '*/5 * * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+      || '/functions/v1/pipeline',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'anon_key')
+    ),
+    body := '{"trigger": "schedule"}'::jsonb,
+    timeout_milliseconds := 150000
+  );
+  $$
+);
@@ -0,0 +1,19 @@
+-- Stream signal and candle changes to the dashboard through Realtime. Clients
+-- only receive rows their select policies allow.
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'trade_signals'
+  ) then
+    alter publication supabase_realtime add table public.trade_signals;
+  end if;
+
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'market_data'
+  ) then
+    alter publication supabase_realtime add table public.market_data;
+  end if;
+end
+$$;
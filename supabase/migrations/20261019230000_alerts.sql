@@ -0,0 +1,93 @@
+-- Where alerts are sent. Email destinations only name recipients; the SMTP
+-- server comes from the function environment.
+create table if not exists public.alert_destinations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete cascade,
+  name text not null,
+  channel text not null check (channel in ('webhook', 'slack', 'telegram', 'email')),
+  config jsonb not null default '{}'::jsonb,
+  enabled boolean not null default true,
+  created_at timestamptz default now()
+);
+
+-- Which new signals are sent to a destination. Null asset or strategy and an
+-- empty session list match anything.
+create table if not exists public.alert_rules (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete cascade,
+  name text not null,
+  destination_id uuid not null references public.alert_destinations (id) on delete cascade,
+  asset text,
+  strategy text,
+  min_confidence numeric not null default 0 check (min_confidence between 0 and 1),
+  sessions text[] not null default '{}',
+  enabled boolean not null default true,
+  created_at timestamptz default now()
+);
+
+-- One row per message, kept as the delivery log. Failed sends are retried
+-- from next_attempt_at until attempts runs out.
+create table if not exists public.alert_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  rule_id uuid references public.alert_rules (id) on delete set null,
+  destination_id uuid not null references public.alert_destinations (id) on delete cascade,
+  signal_id uuid references public.trade_signals (id) on delete set null,
+  is_test boolean not null default false,
+  status text not null default 'pending'
+    check (status in ('pending', 'delivered', 'retrying', 'failed')),
+  attempts integer not null default 0,
+  next_attempt_at timestamptz,
+  response_status integer,
+  last_error text,
+  payload jsonb not null,
+  delivered_at timestamptz,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  -- A rule alerts once per signal
+  constraint alert_deliveries_rule_signal_key unique (rule_id, signal_id)
+);
+
+create index if not exists alert_rules_enabled_idx
+  on public.alert_rules (destination_id)
+  where enabled;
+
+create index if not exists alert_deliveries_retry_idx
+  on public.alert_deliveries (next_attempt_at)
+  where status = 'retrying';
+
+create index if not exists alert_deliveries_created_idx
+  on public.alert_deliveries (created_at desc);
+
+alter table public.alert_destinations enable row level security;
+alter table public.alert_rules enable row level security;
+alter table public.alert_deliveries enable row level security;
+
+-- Shared rows apply to everyone, user rows to their owner
+create policy "Alert destinations are manageable"
+  on public.alert_destinations for all
+  to anon, authenticated
+  using (user_id is null or user_id = auth.uid())
+  with check (user_id is null or user_id = auth.uid());
+
+create policy "Alert rules are manageable"
+  on public.alert_rules for all
+  to anon, authenticated
+  using (user_id is null or user_id = auth.uid())
+  with check (user_id is null or user_id = auth.uid());
+
+-- Deliveries are written by the functions and read back as the log
+create policy "Alert deliveries are readable"
+  on public.alert_deliveries for select
+  to anon, authenticated
+  using (true);
+
+create policy "Alert deliveries can be logged"
+  on public.alert_deliveries for insert
+  to anon, authenticated
+  with check (true);
+
+create policy "Alert deliveries can be retried"
+  on public.alert_deliveries for update
+  to anon, authenticated
+  using (true)
+  with check (true);
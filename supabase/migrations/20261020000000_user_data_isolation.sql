@@ -0,0 +1,291 @@
+-- Sign-in is required from here on: every user owns their watchlist, strategy
+-- configs, signals, runs and alerts, and row level security keeps them private.
+-- Candles and pipeline history stay shared between signed-in users. The
+-- pipeline works across users with the service role, which bypasses RLS.
+
+-- Ownership defaults to the caller so inserts made as a user need no user_id
+alter table public.watchlist alter column user_id set default auth.uid();
+alter table public.strategy_configs alter column user_id set default auth.uid();
+alter table public.alert_destinations alter column user_id set default auth.uid();
+alter table public.alert_rules alter column user_id set default auth.uid();
+
+alter table public.trade_signals
+  add column if not exists user_id uuid references auth.users (id) on delete cascade default auth.uid();
+alter table public.portfolio_metrics
+  add column if not exists user_id uuid references auth.users (id) on delete cascade default auth.uid();
+alter table public.backtest_runs
+  add column if not exists user_id uuid references auth.users (id) on delete cascade default auth.uid();
+alter table public.optimization_runs
+  add column if not exists user_id uuid references auth.users (id) on delete cascade default auth.uid();
+
+create unique index if not exists watchlist_user_asset_key
+  on public.watchlist (user_id, asset);
+
+-- Setups are now deduplicated per owner
+drop index if exists public.trade_signals_setup_idx;
+create index if not exists trade_signals_setup_idx
+  on public.trade_signals (user_id, asset, timeframe, strategy, bias, signal_time desc);
+
+-- Rows without an owner are the starting point for new accounts: each user
+-- gets their own copy of the shared watchlist and active strategy configs
+create or replace function public.seed_user_data(new_user_id uuid)
+returns void
+language sql
+security definer
+set search_path = ''
+as $$
+  insert into public.watchlist (user_id, asset, asset_class, tick_size, provider, provider_symbol, provider_source, active)
+  select new_user_id, w.asset, w.asset_class, w.tick_size, w.provider, w.provider_symbol, w.provider_source, w.active
+  from public.watchlist w
+  where w.user_id is null
+  on conflict (user_id, asset) do nothing;
+
+  insert into public.strategy_configs (user_id, strategy, asset, version, params, is_active)
+  select new_user_id, c.strategy, c.asset, 1, c.params, true
+  from public.strategy_configs c
+  where c.user_id is null
+    and c.is_active
+    and not exists (
+      select 1 from public.strategy_configs o
+      where o.user_id = new_user_id
+        and o.strategy = c.strategy
+        and coalesce(o.asset, '') = coalesce(c.asset, '')
+    );
+$$;
+
+revoke execute on function public.seed_user_data(uuid) from public, anon, authenticated;
+
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  perform public.seed_user_data(new.id);
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
+
+-- Accounts created before this migration
+select public.seed_user_data(id) from auth.users;
+
+-- Replace the anon-key policies with owner-only ones
+drop policy if exists "Watchlist is readable" on public.watchlist;
+drop policy if exists "Users manage their own watchlist" on public.watchlist;
+drop policy if exists "Market data is readable" on public.market_data;
+drop policy if exists "Market data can be ingested" on public.market_data;
+drop policy if exists "Market data can be resampled" on public.market_data;
+drop policy if exists "Trade signals are readable" on public.trade_signals;
+drop policy if exists "Trade signals can be generated" on public.trade_signals;
+drop policy if exists "Trade signals can be resolved" on public.trade_signals;
+drop policy if exists "Portfolio metrics are readable" on public.portfolio_metrics;
+drop policy if exists "Portfolio metrics can be recorded" on public.portfolio_metrics;
+drop policy if exists "Errors can be logged" on public.error_logs;
+drop policy if exists "Backfill jobs are readable" on public.backfill_jobs;
+drop policy if exists "Backfill jobs can be created" on public.backfill_jobs;
+drop policy if exists "Backfill jobs can be progressed" on public.backfill_jobs;
+drop policy if exists "Backtest runs are readable" on public.backtest_runs;
+drop policy if exists "Backtest runs can be stored" on public.backtest_runs;
+drop policy if exists "Optimisation runs are readable" on public.optimization_runs;
+drop policy if exists "Optimisation runs can be stored" on public.optimization_runs;
+drop policy if exists "Optimisation runs can be promoted" on public.optimization_runs;
+drop policy if exists "Strategy configs are readable" on public.strategy_configs;
+drop policy if exists "Strategy configs can be versioned" on public.strategy_configs;
+drop policy if exists "Strategy configs can be retired" on public.strategy_configs;
+drop policy if exists "Pipeline runs are readable" on public.pipeline_runs;
+drop policy if exists "Pipeline runs can be recorded" on public.pipeline_runs;
+drop policy if exists "Pipeline runs can be finished" on public.pipeline_runs;
+drop policy if exists "Alert destinations are manageable" on public.alert_destinations;
+drop policy if exists "Alert rules are manageable" on public.alert_rules;
+drop policy if exists "Alert deliveries are readable" on public.alert_deliveries;
+drop policy if exists "Alert deliveries can be logged" on public.alert_deliveries;
+drop policy if exists "Alert deliveries can be retried" on public.alert_deliveries;
+
+create policy "Users manage their own watchlist"
+  on public.watchlist for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Candles and backfill jobs are market-wide
+create policy "Market data is readable"
+  on public.market_data for select
+  to authenticated
+  using (true);
+
+create policy "Market data can be ingested"
+  on public.market_data for insert
+  to authenticated
+  with check (true);
+
+create policy "Market data can be resampled"
+  on public.market_data for update
+  to authenticated
+  using (true)
+  with check (true);
+
+create policy "Backfill jobs are readable"
+  on public.backfill_jobs for select
+  to authenticated
+  using (true);
+
+create policy "Backfill jobs can be created"
+  on public.backfill_jobs for insert
+  to authenticated
+  with check (true);
+
+create policy "Backfill jobs can be progressed"
+  on public.backfill_jobs for update
+  to authenticated
+  using (true)
+  with check (true);
+
+-- Signals double as the trade journal, so they are never shared
+create policy "Users read their own signals"
+  on public.trade_signals for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users generate their own signals"
+  on public.trade_signals for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+create policy "Users resolve their own signals"
+  on public.trade_signals for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users read their own portfolio metrics"
+  on public.portfolio_metrics for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users record their own portfolio metrics"
+  on public.portfolio_metrics for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+create policy "Errors can be logged"
+  on public.error_logs for insert
+  to authenticated
+  with check (true);
+
+create policy "Users read their own backtest runs"
+  on public.backtest_runs for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users store their own backtest runs"
+  on public.backtest_runs for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+create policy "Users read their own optimisation runs"
+  on public.optimization_runs for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users store their own optimisation runs"
+  on public.optimization_runs for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+create policy "Users promote their own optimisation runs"
+  on public.optimization_runs for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Saving a config retires the active row and inserts the next version, so
+-- there is still no delete policy
+create policy "Users read their own strategy configs"
+  on public.strategy_configs for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users version their own strategy configs"
+  on public.strategy_configs for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+create policy "Users retire their own strategy configs"
+  on public.strategy_configs for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Runs are written by the pipeline with the service role
+create policy "Pipeline runs are readable"
+  on public.pipeline_runs for select
+  to authenticated
+  using (true);
+
+create policy "Users manage their own alert destinations"
+  on public.alert_destinations for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users manage their own alert rules"
+  on public.alert_rules for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Deliveries belong to whoever owns the destination
+create policy "Users read their own alert deliveries"
+  on public.alert_deliveries for select
+  to authenticated
+  using (exists (
+    select 1 from public.alert_destinations d
+    where d.id = destination_id and d.user_id = auth.uid()
+  ));
+
+create policy "Users log their own alert deliveries"
+  on public.alert_deliveries for insert
+  to authenticated
+  with check (exists (
+    select 1 from public.alert_destinations d
+    where d.id = destination_id and d.user_id = auth.uid()
+  ));
+
+create policy "Users retry their own alert deliveries"
+  on public.alert_deliveries for update
+  to authenticated
+  using (exists (
+    select 1 from public.alert_destinations d
+    where d.id = destination_id and d.user_id = auth.uid()
+  ))
+  with check (exists (
+    select 1 from public.alert_destinations d
+    where d.id = destination_id and d.user_id = auth.uid()
+  ));
+
+-- The anon key no longer passes the pipeline's sign-in check, so the schedule
+-- calls it with the service role key, also read from Vault:
+--   select vault.create_secret('<service role key>', 'service_role_key');
+-- Scheduling under the same name replaces the existing job.
+select cron.schedule(
+  'ict-pipeline',
+  '*/5 * * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+      || '/functions/v1/pipeline',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{"trigger": "schedule"}'::jsonb,
+    timeout_milliseconds := 150000
+  );
+  $$
+);
@@ -0,0 +1,11 @@
+-- Only one pipeline run may be in progress. The pipeline inserts its run as
+-- 'running' and records a skipped run when this index rejects the insert.
+
+-- Runs that died mid-way would otherwise keep the index from being created
+update public.pipeline_runs
+set status = 'failed', finished_at = coalesce(finished_at, now())
+where status = 'running';
+
+create unique index if not exists pipeline_runs_running_key
+  on public.pipeline_runs (status)
+  where status = 'running';
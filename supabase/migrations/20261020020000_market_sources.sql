@@ -0,0 +1,69 @@
+-- Provider settings decide the candles every user shares, so they move off
+-- the per-user watchlist into one table only admins can change. Admins carry
+-- role 'admin' in their app_metadata, which only the service role can set.
+-- Candles and backfill jobs are written by the edge functions with the
+-- service role alone.
+create table if not exists public.market_sources (
+  asset text primary key,
+  provider text not null default 'alpha_vantage'
+    check (provider in ('alpha_vantage', 'file', 'synthetic')),
+  provider_symbol text,
+  provider_source text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- The shared watchlist rows held the settings until now; user rows are not
+-- trusted with them
+insert into public.market_sources (asset, provider, provider_symbol, provider_source)
+select distinct on (w.asset) w.asset, w.provider, w.provider_symbol, w.provider_source
+from public.watchlist w
+where w.user_id is null
+order by w.asset, w.created_at
+on conflict (asset) do nothing;
+
+-- New accounts copy the shared watchlist without the provider columns
+create or replace function public.seed_user_data(new_user_id uuid)
+returns void
+language sql
+security definer
+set search_path = ''
+as $$
+  insert into public.watchlist (user_id, asset, asset_class, tick_size, active)
+  select new_user_id, w.asset, w.asset_class, w.tick_size, w.active
+  from public.watchlist w
+  where w.user_id is null
+  on conflict (user_id, asset) do nothing;
+
+  insert into public.strategy_configs (user_id, strategy, asset, version, params, is_active)
+  select new_user_id, c.strategy, c.asset, 1, c.params, true
+  from public.strategy_configs c
+  where c.user_id is null
+    and c.is_active
+    and not exists (
+      select 1 from public.strategy_configs o
+      where o.user_id = new_user_id
+        and o.strategy = c.strategy
+        and coalesce(o.asset, '') = coalesce(c.asset, '')
+    );
+$$;
+
+alter table public.watchlist
+  drop column if exists provider,
+  drop column if exists provider_symbol,
+  drop column if exists provider_source;
+
+alter table public.market_sources enable row level security;
+
+create policy "Admins manage market sources"
+  on public.market_sources for all
+  to authenticated
+  using ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin')
+  with check ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin');
+
+drop policy if exists "Market data can be ingested" on public.market_data;
+drop policy if exists "Market data can be resampled" on public.market_data;
+drop policy if exists "Backfill jobs can be created" on public.backfill_jobs;
+drop policy if exists "Backfill jobs can be progressed" on public.backfill_jobs;
+
+revoke insert, update, delete on public.market_data, public.backfill_jobs from anon, authenticated;
@@ -0,0 +1,68 @@
+-- Alert destinations hold webhook URLs, bot tokens and SMTP settings, so the
+-- anon key gets no access to alerts at all. Shared rows are readable by
+-- signed-in users, each row is written by its owner only, and deliveries are
+-- logged and retried by the functions with the service role.
+drop policy if exists "Alert destinations are manageable" on public.alert_destinations;
+drop policy if exists "Alert rules are manageable" on public.alert_rules;
+drop policy if exists "Alert deliveries are readable" on public.alert_deliveries;
+drop policy if exists "Alert deliveries can be logged" on public.alert_deliveries;
+drop policy if exists "Alert deliveries can be retried" on public.alert_deliveries;
+drop policy if exists "Users manage their own alert destinations" on public.alert_destinations;
+drop policy if exists "Users manage their own alert rules" on public.alert_rules;
+drop policy if exists "Users read their own alert deliveries" on public.alert_deliveries;
+drop policy if exists "Users log their own alert deliveries" on public.alert_deliveries;
+drop policy if exists "Users retry their own alert deliveries" on public.alert_deliveries;
+
+create policy "Alert destinations are readable"
+  on public.alert_destinations for select
+  to authenticated
+  using (user_id is null or user_id = auth.uid());
+
+create policy "Users add their own alert destinations"
+  on public.alert_destinations for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+create policy "Users change their own alert destinations"
+  on public.alert_destinations for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users remove their own alert destinations"
+  on public.alert_destinations for delete
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Alert rules are readable"
+  on public.alert_rules for select
+  to authenticated
+  using (user_id is null or user_id = auth.uid());
+
+create policy "Users add their own alert rules"
+  on public.alert_rules for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+create policy "Users change their own alert rules"
+  on public.alert_rules for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users remove their own alert rules"
+  on public.alert_rules for delete
+  to authenticated
+  using (user_id = auth.uid());
+
+-- Deliveries belong to whoever owns the destination
+create policy "Users read their own alert deliveries"
+  on public.alert_deliveries for select
+  to authenticated
+  using (exists (
+    select 1 from public.alert_destinations d
+    where d.id = destination_id and d.user_id = auth.uid()
+  ));
+
+revoke all on public.alert_destinations, public.alert_rules, public.alert_deliveries from anon;
+revoke insert, update, delete on public.alert_deliveries from authenticated;
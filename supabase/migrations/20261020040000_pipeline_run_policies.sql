@@ -0,0 +1,13 @@
+-- Pipeline runs are written by the pipeline function with the service role
+-- only; clients that could insert or finish runs could forge them or get
+-- around the one-running-run index
+drop policy if exists "Pipeline runs are readable" on public.pipeline_runs;
+drop policy if exists "Pipeline runs can be recorded" on public.pipeline_runs;
+drop policy if exists "Pipeline runs can be finished" on public.pipeline_runs;
+
+create policy "Pipeline runs are readable"
+  on public.pipeline_runs for select
+  to authenticated
+  using (true);
+
+revoke insert, update, delete on public.pipeline_runs from anon, authenticated;
@@ -0,0 +1,30 @@
+-- The first row level security migration let the anon key insert into and
+-- update most tables. Drop those policies wherever they are still in place
+-- and take the write privileges away from anon. Writes go through the edge
+-- functions with the service role, or through the owner-only policies that
+-- need a signed-in user.
+drop policy if exists "Market data can be ingested" on public.market_data;
+drop policy if exists "Market data can be resampled" on public.market_data;
+drop policy if exists "Trade signals can be generated" on public.trade_signals;
+drop policy if exists "Trade signals can be resolved" on public.trade_signals;
+drop policy if exists "Portfolio metrics can be recorded" on public.portfolio_metrics;
+drop policy if exists "Errors can be logged" on public.error_logs;
+drop policy if exists "Backfill jobs can be created" on public.backfill_jobs;
+drop policy if exists "Backfill jobs can be progressed" on public.backfill_jobs;
+drop policy if exists "Backtest runs can be stored" on public.backtest_runs;
+drop policy if exists "Optimisation runs can be stored" on public.optimization_runs;
+drop policy if exists "Optimisation runs can be promoted" on public.optimization_runs;
+drop policy if exists "Strategy configs can be versioned" on public.strategy_configs;
+drop policy if exists "Strategy configs can be retired" on public.strategy_configs;
+
+revoke insert, update, delete on
+  public.watchlist,
+  public.market_data,
+  public.trade_signals,
+  public.portfolio_metrics,
+  public.error_logs,
+  public.backfill_jobs,
+  public.backtest_runs,
+  public.strategy_configs,
+  public.optimization_runs
+from anon;